@@ -0,0 +1,71 @@
+import crypto from 'node:crypto'
+import http from 'node:http'
+import { PrivateKey } from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+
+/*
+ * Stand-in for a custody service or HSM to use with `HttpSigningBackend`, holds the private
+ * keys outside of the wallet process
+ *
+ * Only the example wallet origin may call it from a browser and every request must send the
+ * token in the `headers` of `HttpSigningBackend`: `{ Authorization: 'Bearer <token>' }`. A
+ * random token is generated and printed when SIGNER_TOKEN is not set.
+ *
+ * SIGNER_KEYS=0.0.12345=302e...,0.0.54321=3030... node scripts/examples/signer.mjs
+ */
+const port = Number(process.env.SIGNER_PORT ?? 8082)
+const allowedOrigin = process.env.SIGNER_ORIGIN ?? 'http://localhost:8081'
+const token = process.env.SIGNER_TOKEN || crypto.randomBytes(32).toString('hex')
+const keys = new Map(
+  (process.env.SIGNER_KEYS ?? '')
+    .split(',')
+    .filter(Boolean)
+    .map((entry) => {
+      const [accountId, privateKey] = entry.split('=')
+      return [accountId, PrivateKey.fromStringDer(privateKey)]
+    }),
+)
+
+function isAuthorized(authorization = '') {
+  const expected = Buffer.from(`Bearer ${token}`)
+  const received = Buffer.from(authorization)
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected)
+}
+
+const server = http.createServer((req, res) => {
+  // the example wallet runs on another origin, other web pages must not reach the keys
+  const origin = req.headers.origin
+  if (origin && origin !== allowedOrigin) return res.writeHead(403).end('Origin not allowed')
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigin)
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+  res.setHeader('Vary', 'Origin')
+  if (req.method === 'OPTIONS') return res.writeHead(204).end()
+  if (req.method !== 'POST') return res.writeHead(405).end()
+  if (!isAuthorized(req.headers.authorization)) return res.writeHead(401).end('Unauthorized')
+
+  let body = ''
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', () => {
+    try {
+      const { bodyBytes, accountId } = JSON.parse(body)
+      const privateKey = keys.get(accountId)
+      if (!privateKey) return res.writeHead(404).end(`No key for account ${accountId}`)
+
+      const signature = privateKey.sign(Buffer.from(bodyBytes, 'base64'))
+      const signatureMap = proto.SignatureMap.encode({
+        sigPair: [privateKey.publicKey._toProtobufSignature(signature)],
+      }).finish()
+
+      console.log(`Signed ${bodyBytes.length} base64 characters for ${accountId}`)
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ signatureMap: Buffer.from(signatureMap).toString('base64') }))
+    } catch (e) {
+      res.writeHead(400).end(String(e))
+    }
+  })
+})
+
+server.listen(port, 'localhost', () => {
+  console.log(`Signer is up localhost:${port} with accounts ${[...keys.keys()].join(', ')}`)
+  if (!process.env.SIGNER_TOKEN) console.log(`Authorization: Bearer ${token}`)
+})
@@ -14,7 +14,10 @@ import {
   HederaSessionEvent,
   HederaJsonRpcMethod,
   transactionToBase64String,
+  transactionBodyToBase64String,
+  setDefaultNodeAccountIds,
   queryToBase64String,
+  buildSignMessageParams,
   ExecuteTransactionParams,
   SignMessageParams,
   SignQueryAndSendParams,
@@ -129,10 +132,10 @@ document.getElementById('hedera_executeTransaction')!.onsubmit = (e: SubmitEvent
 
 // 3. hedera_signMessage
 async function hedera_signMessage(_: Event) {
-  const params: SignMessageParams = {
-    message: getState('sign-message'),
-    signerAccountId: getState('sign-from'),
-  }
+  const params: SignMessageParams = buildSignMessageParams(
+    getState('sign-from'),
+    getState('sign-message'),
+  )
 
   return await dAppConnector!.signMessage(params)
 }
@@ -154,12 +157,21 @@ async function hedera_signQueryAndSend(_: Event) {
 document.getElementById('hedera_signQueryAndSend')!.onsubmit = (e: SubmitEvent) =>
   showErrorOrSuccess(hedera_signQueryAndSend, e)
 
+// node account IDs are picked from the network of the wallet
+async function setNodeAccountIds(transaction: TransferTransaction, count?: number) {
+  const { nodes } = await dAppConnector!.getNodeAddresses()
+  setDefaultNodeAccountIds(transaction, nodes.slice(0, count))
+  return transaction
+}
+
 // 5. hedera_signAndExecuteTransaction
 async function hedera_signAndExecuteTransaction(_: Event) {
-  const transaction = new TransferTransaction()
-    .setTransactionId(TransactionId.generate(getState('sign-send-from')))
-    .addHbarTransfer(getState('sign-send-from'), new Hbar(-getState('sign-send-amount')))
-    .addHbarTransfer(getState('sign-send-to'), new Hbar(+getState('sign-send-amount')))
+  const transaction = await setNodeAccountIds(
+    new TransferTransaction()
+      .setTransactionId(TransactionId.generate(getState('sign-send-from')))
+      .addHbarTransfer(getState('sign-send-from'), new Hbar(-getState('sign-send-amount')))
+      .addHbarTransfer(getState('sign-send-to'), new Hbar(+getState('sign-send-amount'))),
+  )
 
   const params: SignAndExecuteTransactionParams = {
     transaction: [transactionToBase64String(transaction)],
@@ -175,14 +187,18 @@ document.getElementById('hedera_signAndExecuteTransaction')!.onsubmit = (e: Subm
 
 // 6. hedera_signTransaction
 async function hedera_signTransaction(_: Event) {
-  const transaction = new TransferTransaction()
-    .setTransactionId(TransactionId.generate(getState('sign-from')))
-    .addHbarTransfer(getState('sign-from'), new Hbar(-getState('sign-amount')))
-    .addHbarTransfer(getState('sign-to'), new Hbar(+getState('sign-amount')))
+  // a single transaction body is signed
+  const transaction = await setNodeAccountIds(
+    new TransferTransaction()
+      .setTransactionId(TransactionId.generate(getState('sign-from')))
+      .addHbarTransfer(getState('sign-from'), new Hbar(-getState('sign-amount')))
+      .addHbarTransfer(getState('sign-to'), new Hbar(+getState('sign-amount'))),
+    1,
+  )
 
   const params: SignTransactionParams = {
     signerAccountId: getState('sign-from'),
-    transaction: [transactionToBase64String(transaction)],
+    transactionBody: transactionBodyToBase64String(transaction),
   }
 
   return await dAppConnector!.signTransaction(params)
@@ -218,18 +234,20 @@ async function simulateTransactionExpiredError(_: Event) {
   const sender = getState('sign-send-from') || getState('send-from')
   const recepient = getState('sign-send-to') || getState('send-to')
 
-  const transaction = new TransferTransaction()
-    // set valid start to 15 seconds ago
-    .setTransactionId(
-      TransactionId.withValidStart(
-        AccountId.fromString(sender),
-        Timestamp.fromDate(Date.now() - 15000),
-      ),
-    )
-    // 15 seconds is a minimum valid duration otherwise there's an INVALID_TRANSACTION_DURATION error
-    .setTransactionValidDuration(15)
-    .addHbarTransfer(sender, new Hbar(-5))
-    .addHbarTransfer(recepient, new Hbar(+5))
+  const transaction = await setNodeAccountIds(
+    new TransferTransaction()
+      // set valid start to 15 seconds ago
+      .setTransactionId(
+        TransactionId.withValidStart(
+          AccountId.fromString(sender),
+          Timestamp.fromDate(Date.now() - 15000),
+        ),
+      )
+      // 15 seconds is a minimum valid duration otherwise there's an INVALID_TRANSACTION_DURATION error
+      .setTransactionValidDuration(15)
+      .addHbarTransfer(sender, new Hbar(-5))
+      .addHbarTransfer(recepient, new Hbar(+5)),
+  )
 
   const params: SignAndExecuteTransactionParams = {
     transaction: [transactionToBase64String(transaction)],
@@ -18,7 +18,9 @@ export function saveState(e: Event): { [key: string]: string } {
   const form = new FormData(e.target as HTMLFormElement)
   const state = JSON.parse(localStorage.getItem('hedera-wc-example-saved-state') || '{}')
   for (const [key, value] of form.entries()) state[key] = value
-  // delete state['private-key'] // don't save the private key
+  // don't save the private key and passphrase, the wallet keeps the key in its keystore
+  delete state['private-key']
+  delete state['passphrase']
 
   localStorage.setItem('hedera-wc-example-saved-state', JSON.stringify(state))
   return state
@@ -1,7 +1,15 @@
 // https://github.com/WalletConnect/walletconnect-monorepo/tree/v2.0/packages/web3wallet
 import type { Web3WalletTypes } from '@walletconnect/web3wallet'
 import { getSdkError } from '@walletconnect/utils'
-import { Wallet, HederaChainId } from '@hashgraph/walletconnect'
+import {
+  Wallet,
+  HederaChainId,
+  HederaJsonRpcMethod,
+  ApprovalPolicy,
+  Keystore,
+  decodeSessionRequestBody,
+  sessionRequestSummaryToText,
+} from '@hashgraph/walletconnect'
 import { loadState, saveState } from '../shared'
 
 // referenced in handlers
@@ -23,6 +31,22 @@ async function init(e: Event) {
   }
 
   wallet = await Wallet.create(projectId, metadata)
+  // private keys are encrypted with the passphrase in the storage of WalletConnect
+  wallet.keystore = new Keystore(wallet.core.storage)
+  // Client logic: read-only requests are approved, the user reviews the others
+  wallet.approvalPolicy = new ApprovalPolicy({
+    approvedMethods: [HederaJsonRpcMethod.GetNodeAddresses],
+    onEscalate: (request, reasons) => {
+      const summaries = decodeSessionRequestBody(
+        wallet!.parseSessionRequest(request.event).body,
+      )
+      const origin = request.origin ?? 'an unverified origin'
+      return confirm(
+        `Do you want to proceed with this ${request.method} request from ${origin}?\n` +
+          `${reasons.join(', ')}\n\n${sessionRequestSummaryToText(summaries)}`,
+      )
+    },
+  })
 
   /*
    * Add listeners
@@ -46,21 +70,11 @@ async function init(e: Event) {
   // requests to call a JSON-RPC method
   wallet.on('session_request', async (event: Web3WalletTypes.SessionRequest) => {
     try {
-      // Client logic: prompt user for approval of request
-      const { chainId, accountId } = wallet!.parseSessionRequest(event)
-
-      if (!confirm(`Do you want to proceed with this request?: ${JSON.stringify(event)}`))
-        throw getSdkError('USER_REJECTED_METHODS')
-
-      // A custom provider/signer can be used to sign transactions
+      // The signer of the request is resolved from the keystore, a custom provider/signer can
+      // be passed as well to sign transactions
       // https://docs.hedera.com/hedera/sdks-and-apis/sdks/signature-provider/wallet
-      const hederaWallet = wallet!.getHederaWallet(
-        chainId,
-        accountId || state['account-id'],
-        state['private-key'],
-      )
-
-      return await wallet!.executeSessionRequest(event, hederaWallet)
+      // rejected by the approval policy when the user does not confirm the request
+      return await wallet!.executeSessionRequest(event)
     } catch (e) {
       console.error(e)
       wallet!.rejectSessionRequest(event, e)
@@ -105,8 +119,16 @@ document.querySelector<HTMLFormElement>('#pair')!.onsubmit = pair
 /*
  * Handle adding a hedera account
  */
-document.querySelector<HTMLFormElement>('#set-account')!.onsubmit = function (event) {
-  saveState(event)
+document.querySelector<HTMLFormElement>('#set-account')!.onsubmit = async function (event) {
+  const form = new FormData(event.target as HTMLFormElement)
+  const state = saveState(event)
+
+  const keystore = wallet!.keystore!
+  const passphrase = form.get('passphrase') as string
+  // the first account creates the keystore, later ones must use the same passphrase
+  if (await keystore.exists()) await keystore.unlock(passphrase)
+  else await keystore.create(passphrase)
+  await keystore.addAccount(state['account-id'], form.get('private-key') as string)
 
   console.log('-'.repeat(10))
   console.log('Account saved!')
@@ -0,0 +1,111 @@
+import QRCode from 'qrcode'
+
+/**
+ * Displays the pairing URI while `DAppConnector.connectQR` waits for the wallet, e.g. as a QR
+ * code modal. Implement it to use your own modal, `@walletconnect/modal` or a headless renderer.
+ */
+export interface ConnectionUI {
+  /**
+   * Shows the pairing URI to the user.
+   * @param uri - The WalletConnect pairing URI
+   */
+  open(uri: string): void
+
+  /**
+   * Hides the UI. Called when the connection is established, cancelled or timed out.
+   */
+  close(): void
+
+  /**
+   * Registers a listener called when the user dismisses the UI. It is not called by `close()`.
+   * @param listener - Called when the user dismisses the UI
+   * @returns A function that removes the listener
+   */
+  onClose(listener: () => void): () => void
+}
+
+/**
+ * Options of `DefaultConnectionUI`.
+ * `document` - the DOM document to render in (default: `globalThis.document`).
+ * `qrCode` - returns the image source of a QR code of the URI (default: an SVG data URL drawn
+ * with the `qrcode` package).
+ */
+export type DefaultConnectionUIOptions = {
+  document?: Document
+  qrCode?: (uri: string) => string | Promise<string>
+}
+
+async function toQRCodeDataURL(uri: string): Promise<string> {
+  const svg = await QRCode.toString(uri, { type: 'svg', margin: 2 })
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
+
+/**
+ * Minimal `ConnectionUI` which renders an overlay with a QR code of the pairing URI, the URI, a
+ * link that opens the wallet and a close button.
+ */
+export class DefaultConnectionUI implements ConnectionUI {
+  static readonly elementId = 'hedera-walletconnect-connection'
+
+  private element: HTMLElement | null = null
+  private listeners = new Set<() => void>()
+
+  constructor(private options: DefaultConnectionUIOptions = {}) {}
+
+  open(uri: string): void {
+    this.close()
+    const document = this.options.document ?? globalThis.document
+    if (!document) throw new Error('DefaultConnectionUI requires a DOM document')
+
+    const element = document.createElement('div')
+    element.id = DefaultConnectionUI.elementId
+    element.setAttribute('role', 'dialog')
+    element.style.cssText =
+      'position:fixed;inset:0;z-index:2147483647;display:flex;flex-direction:column;' +
+      'align-items:center;justify-content:center;gap:12px;background:rgba(0,0,0,0.6);color:#fff'
+
+    const title = document.createElement('p')
+    title.textContent = 'Connect your Hedera wallet'
+    element.appendChild(title)
+
+    const qrCode = this.options.qrCode ?? toQRCodeDataURL
+    const image = document.createElement('img')
+    image.setAttribute('alt', 'WalletConnect QR code')
+    Promise.resolve(qrCode(uri)).then(
+      (src) => (image.src = src),
+      () => image.parentNode?.removeChild(image),
+    )
+    element.appendChild(image)
+
+    const link = document.createElement('a')
+    link.href = uri
+    link.textContent = 'Open wallet'
+    element.appendChild(link)
+
+    const uriInput = document.createElement('input')
+    uriInput.readOnly = true
+    uriInput.value = uri
+    element.appendChild(uriInput)
+
+    const closeButton = document.createElement('button')
+    closeButton.textContent = 'Close'
+    closeButton.addEventListener('click', () => {
+      this.close()
+      this.listeners.forEach((listener) => listener())
+    })
+    element.appendChild(closeButton)
+
+    document.body.appendChild(element)
+    this.element = element
+  }
+
+  close(): void {
+    this.element?.parentNode?.removeChild(this.element)
+    this.element = null
+  }
+
+  onClose(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+}
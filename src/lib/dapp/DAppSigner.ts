@@ -1,51 +1,173 @@
-import { Buffer } from 'buffer'
 import {
   Signer,
   AccountBalance,
   AccountId,
   AccountInfo,
+  Client,
   Executable,
   Key,
   LedgerId,
+  PrecheckStatusError,
+  Query,
   SignerSignature,
+  Status,
   Transaction,
+  TransactionId,
   TransactionRecord,
+  TransactionResponse,
 } from '@hashgraph/sdk'
 import { ISignClient } from '@walletconnect/types'
 
 import {
   HederaJsonRpcMethod,
-  base64StringToTransaction,
+  GetNodeAddressesResult,
+  MirrorNodeClient,
+  MirrorNodeRestClient,
+  SignAndExecuteTransactionResult,
+  SignMessageResult,
+  SignQueryAndSendResult,
+  SignTransactionResult,
+  LegacySignTransactionResult,
+  accountAndLedgerFromSession,
+  addSignatureMapToTransaction,
+  base64StringToQueryResponse,
+  base64StringToSignatureMap,
+  base64StringToUint8Array,
+  buildSignAndExecuteTransactionParams,
+  buildSignAndReturnTransactionParams,
+  buildSignMessageParams,
+  buildSignQueryAndSendParams,
+  buildSignTransactionParams,
+  freezeTransaction,
   ledgerIdToCAIPChainId,
+  isHederaJsonRpcMethod,
+  validateHederaJsonRpcResult,
 } from '../shared'
 
-import { buildSignAndReturnTransactionParams, buildSignMessageParams } from './helpers'
+import { HederaRequestError } from './errors'
+
+/**
+ * Shuffles an array in place using the Fisher-Yates algorithm.
+ * @param array - The array to shuffle
+ */
+function shuffle<T>(array: T[]): void {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    const item = array[i]
+    array[i] = array[j]
+    array[j] = item
+  }
+}
 
 /**
  * Signer that sends requests to Wallet.
  */
 export class DAppSigner implements Signer {
+  private hederaClient?: Client
+  private accountKey?: Key
+  private nodeAccountIds?: AccountId[]
+
+  /**
+   * Sends `hedera_signTransaction` with the array of transactions used before HIP-820, for
+   * wallets that don't support `transactionBody` yet.
+   */
+  useLegacySignTransaction = false
+
   constructor(
     private readonly accountId: AccountId,
     private readonly client: ISignClient,
     public readonly topic: string,
     private readonly ledgerId: LedgerId = LedgerId.MAINNET,
+    private mirrorNodeClient?: MirrorNodeClient | ((ledgerId: LedgerId) => MirrorNodeClient),
   ) {}
 
-  request<T>(request: { method: string; params: any }): Promise<T> {
-    return this.client.request<T>({
-      topic: this.topic,
-      request,
-      chainId: ledgerIdToCAIPChainId(this.ledgerId),
-    })
+  /**
+   * Sends a JSON-RPC request to the wallet of the session.
+   *
+   * Error responses of the wallet are rejected as `HederaRequestError`, or the subclass matching
+   * the error code. Results of a `HederaJsonRpcMethod` which do not match the schema of the
+   * method are rejected as well.
+   */
+  async request<T>(request: { method: string; params: any }): Promise<T> {
+    let result: T
+    try {
+      result = await this.client.request<T>({
+        topic: this.topic,
+        request,
+        chainId: ledgerIdToCAIPChainId(this.ledgerId),
+      })
+    } catch (error: any) {
+      if (error instanceof Error || typeof error?.code !== 'number') throw error
+      throw HederaRequestError.fromResponse(error)
+    }
+
+    // reject malformed results before they reach the caller, other methods have no schema
+    const issue = isHederaJsonRpcMethod(request.method)
+      ? validateHederaJsonRpcResult(request.method, result)
+      : undefined
+    if (issue) {
+      throw new Error(`Invalid ${request.method} response from the wallet: ${issue}`)
+    }
+    return result
+  }
+
+  /**
+   * Hedera SDK client used only to read the static node and mirror network configuration
+   * of the signer's ledger. Requests are never executed with it.
+   */
+  private getHederaClient(): Client {
+    if (!this.hederaClient) {
+      this.hederaClient = Client.forName(this.ledgerId.toString(), {
+        scheduleNetworkUpdate: false,
+      })
+    }
+    return this.hederaClient
+  }
+
+  /**
+   * Mirror node client used for account reads. A given factory, or the public mirror node of
+   * the signer's ledger when none was given, is only called on first use.
+   */
+  private getMirrorNodeClient(): MirrorNodeClient {
+    if (typeof this.mirrorNodeClient === 'function') {
+      this.mirrorNodeClient = this.mirrorNodeClient(this.ledgerId)
+    } else if (!this.mirrorNodeClient) {
+      this.mirrorNodeClient = MirrorNodeRestClient.forLedgerId(this.ledgerId)
+    }
+    return this.mirrorNodeClient
+  }
+
+  /**
+   * Node account IDs of the wallet's network. Requested with `hedera_getNodeAddresses` once
+   * and cached for the lifetime of the session.
+   */
+  private async getNodeAccountIds(): Promise<AccountId[]> {
+    if (!this.nodeAccountIds) {
+      const { nodes } = await this.request<GetNodeAddressesResult['result']>({
+        method: HederaJsonRpcMethod.GetNodeAddresses,
+        params: undefined,
+      })
+      this.nodeAccountIds = nodes.map((node) => AccountId.fromString(node))
+    }
+    return this.nodeAccountIds
   }
 
   getAccountId(): AccountId {
     return this.accountId
   }
 
+  /**
+   * Returns the key of the signer's account.
+   *
+   * The key is loaded from the mirror node, so `getAccountInfo` must be called at least once
+   * before this method.
+   * @returns `Key`
+   */
   getAccountKey(): Key {
-    throw new Error('Method not implemented.')
+    if (!this.accountKey) {
+      throw new Error('Account key is not loaded. Call `getAccountInfo` at first.')
+    }
+    return this.accountKey
   }
 
   getLedgerId(): LedgerId {
@@ -53,23 +175,25 @@ export class DAppSigner implements Signer {
   }
 
   getNetwork(): { [key: string]: string | AccountId } {
-    throw new Error('Method not implemented.')
+    return this.getHederaClient().network
   }
 
   getMirrorNetwork(): string[] {
-    throw new Error('Method not implemented.')
+    return this.getHederaClient().mirrorNetwork
   }
 
   getAccountBalance(): Promise<AccountBalance> {
-    throw new Error('Method not implemented.')
+    return this.getMirrorNodeClient().getAccountBalance(this.accountId)
   }
 
-  getAccountInfo(): Promise<AccountInfo> {
-    throw new Error('Method not implemented.')
+  async getAccountInfo(): Promise<AccountInfo> {
+    const accountInfo = await this.getMirrorNodeClient().getAccountInfo(this.accountId)
+    this.accountKey = accountInfo.key
+    return accountInfo
   }
 
   getAccountRecords(): Promise<TransactionRecord[]> {
-    throw new Error('Method not implemented.')
+    return this.getMirrorNodeClient().getAccountRecords(this.accountId)
   }
 
   async sign(
@@ -79,35 +203,216 @@ export class DAppSigner implements Signer {
     throw new Error('Method not implemented.')
   }
 
+  /**
+   * Signs messages with the wallet, one `hedera_signMessage` request per message.
+   *
+   * The wallet signs the `"\x19Hedera Signed Message:\n"` prefixed message, use
+   * `verifyMessageSignature` to verify the returned signature maps.
+   * @param messages - UTF-8 strings or their bytes
+   * @returns Promise\<Uint8Array[]\> - `SignatureMap` protobuf bytes, one per message
+   */
   async signMessages(messages: (Uint8Array | string)[]): Promise<Uint8Array[]> {
-    const signedMessages = await this.request<string[]>({
-      method: HederaJsonRpcMethod.SignMessage,
-      params: buildSignMessageParams(this.accountId.toString(), messages),
-    })
-
-    return signedMessages.map((signedMessage) => Buffer.from(signedMessage, 'base64'))
+    const signatureMaps: Uint8Array[] = []
+    // one after another, as the wallet asks the user to approve each message
+    for (const message of messages) {
+      const { signatureMap } = await this.request<SignMessageResult['result']>({
+        method: HederaJsonRpcMethod.SignMessage,
+        params: buildSignMessageParams(this.accountId, message),
+      })
+      signatureMaps.push(base64StringToUint8Array(signatureMap))
+    }
+    return signatureMaps
   }
 
+  /**
+   * Signs a transaction with the wallet through `hedera_signTransaction` without executing it.
+   *
+   * The HIP-820 `transactionBody` is sent to the wallet, or the whole transaction when
+   * `useLegacySignTransaction` is enabled. The wallet returns a signature map for the
+   * transaction body, which is merged into the transaction with `addSignature`. Because of that
+   * a single node account ID is picked from the wallet's network when none is set.
+   * @param transaction - Any instance of a class that extends `Transaction`
+   * @returns Promise\<T\> - the same transaction with the wallet's signatures added
+   */
   async signTransaction<T extends Transaction>(transaction: T): Promise<T> {
-    const signedStringTransaction = await this.request<string>({
+    if (!transaction.isFrozen() && !transaction.nodeAccountIds?.length) {
+      const nodeAccountIds = [...(await this.getNodeAccountIds())]
+      shuffle(nodeAccountIds)
+      transaction.setNodeAccountIds(nodeAccountIds.slice(0, 1))
+    }
+    await this.checkTransaction(await this.populateTransaction(transaction))
+
+    const signatureMap = this.useLegacySignTransaction
+      ? await this.signLegacyTransaction(transaction)
+      : await this.signTransactionBody(transaction)
+
+    return addSignatureMapToTransaction(transaction, base64StringToSignatureMap(signatureMap))
+  }
+
+  /**
+   * Requests the wallet to sign the HIP-820 `transactionBody` of a frozen transaction.
+   * @returns Promise\<string\> - Base64-encoded `SignatureMap`
+   */
+  private async signTransactionBody(transaction: Transaction): Promise<string> {
+    const params = buildSignTransactionParams(this.accountId, transaction)
+    const { signatureMap } = await this.request<SignTransactionResult['result']>({
       method: HederaJsonRpcMethod.SignTransaction,
-      params: buildSignAndReturnTransactionParams(this.accountId.toString(), transaction),
+      params,
     })
+    return signatureMap
+  }
 
-    return base64StringToTransaction(signedStringTransaction) as T
+  /**
+   * Requests the wallet to sign a frozen transaction with the legacy array of transactions.
+   * @returns Promise\<string\> - Base64-encoded `SignatureMap`
+   */
+  private async signLegacyTransaction(transaction: Transaction): Promise<string> {
+    const params = buildSignAndReturnTransactionParams(this.accountId, transaction)
+    const [signatureMap] = await this.request<LegacySignTransactionResult['result']>({
+      method: HederaJsonRpcMethod.SignTransaction,
+      params,
+    })
+    return signatureMap
   }
 
+  /**
+   * Checks that a transaction can be signed and executed within the signer's session.
+   *
+   * Throws error when the transaction payer is not the signer's account, when the node
+   * account IDs are not within the wallet's network or when the signer's account and ledger
+   * are no longer part of the session.
+   * @param transaction - Any instance of a class that extends `Transaction`
+   * @returns Promise\<T\> - the unmodified transaction
+   */
   async checkTransaction<T extends Transaction>(transaction: T): Promise<T> {
-    throw new Error('Method not implemented.')
+    const payerAccountId = transaction.transactionId?.accountId
+    if (payerAccountId && payerAccountId.compare(this.accountId) !== 0) {
+      throw new Error(
+        `Transaction payer ${payerAccountId.toString()} does not match signer account ${this.accountId.toString()}`,
+      )
+    }
+
+    const transactionNodeAccountIds = transaction.nodeAccountIds ?? []
+    const networkNodeAccountIds = (await this.getNodeAccountIds()).map((nodeAccountId) =>
+      nodeAccountId.toString(),
+    )
+    const unknownNodeAccountIds = transactionNodeAccountIds.filter(
+      (nodeAccountId) => !networkNodeAccountIds.includes(nodeAccountId.toString()),
+    )
+    if (unknownNodeAccountIds.length) {
+      throw new Error(
+        `Transaction node account IDs ${unknownNodeAccountIds.join(
+          ', ',
+        )} are not within the wallet network`,
+      )
+    }
+
+    const isSessionAccount = accountAndLedgerFromSession(
+      this.client.session.get(this.topic),
+    ).some(
+      ({ account, network }) =>
+        account.compare(this.accountId) === 0 &&
+        network.toString() === this.ledgerId.toString(),
+    )
+    if (!isSessionAccount) {
+      throw new Error(
+        `Signer account ${this.accountId.toString()} on ledger ${this.ledgerId.toString()} is not within the session`,
+      )
+    }
+
+    return transaction
   }
 
+  /**
+   * Prepares a transaction to be signed by the wallet.
+   *
+   * Sets a `TransactionId` for the signer's account, picks node account IDs from the wallet's
+   * network and freezes the transaction. Values that are already set are not modified.
+   * @param transaction - Any instance of a class that extends `Transaction`
+   * @returns Promise\<T\> - the frozen transaction
+   */
   async populateTransaction<T extends Transaction>(transaction: T): Promise<T> {
-    throw new Error('Method not implemented.')
+    if (transaction.isFrozen()) return transaction
+
+    if (!transaction.transactionId) {
+      transaction.setTransactionId(TransactionId.generate(this.accountId))
+    }
+
+    if (!transaction.nodeAccountIds?.length) {
+      const nodeAccountIds = [...(await this.getNodeAccountIds())]
+      shuffle(nodeAccountIds)
+      transaction.setNodeAccountIds(
+        nodeAccountIds.slice(0, Math.ceil(nodeAccountIds.length / 3)),
+      )
+    }
+
+    freezeTransaction(transaction)
+    return transaction
   }
 
+  /**
+   * Executes a `Transaction` or a `Query` through the wallet.
+   *
+   * Transactions are sent with `hedera_signAndExecuteTransaction` and resolve to a
+   * `TransactionResponse`, queries are sent with `hedera_signQueryAndSend` and resolve to
+   * the decoded query output. This allows `executeWithSigner(signer)` to be used with
+   * `DAppSigner`.
+   * @param request - `Transaction` or `Query` to execute
+   * @returns Promise\<OutputT\>
+   */
   async call<RequestT, ResponseT, OutputT>(
     request: Executable<RequestT, ResponseT, OutputT>,
   ): Promise<OutputT> {
-    throw new Error('Method not implemented.')
+    if (request instanceof Transaction) {
+      return (await this.executeTransaction(request)) as OutputT
+    }
+    if (request instanceof Query) {
+      return (await this.executeQuery(request)) as OutputT
+    }
+
+    throw new Error('Only `Transaction` and `Query` requests can be executed by DAppSigner')
+  }
+
+  private async executeTransaction(transaction: Transaction): Promise<TransactionResponse> {
+    await this.checkTransaction(await this.populateTransaction(transaction))
+    const params = buildSignAndExecuteTransactionParams(this.accountId, transaction)
+    const [result] = await this.request<SignAndExecuteTransactionResult['result']>({
+      method: HederaJsonRpcMethod.SignAndExecuteTransaction,
+      params,
+    })
+
+    const transactionId = TransactionId.fromString(result.transactionId)
+    if (result.precheckCode !== undefined && result.precheckCode !== Status.Ok._code) {
+      throw new PrecheckStatusError({
+        status: Status._fromCode(result.precheckCode),
+        transactionId,
+        contractFunctionResult: null,
+      })
+    }
+    // `submitted` is the status of a transaction executed without waiting for the receipt
+    const isExecuted =
+      result.status === undefined || ['submitted', 'success'].includes(result.status)
+    if (result.error || result.precheckCode === undefined || !isExecuted) {
+      throw new Error(
+        `Transaction ${transactionId.toString()} was not executed by the wallet: ` +
+          (result.error ?? `status ${result.status ?? 'unknown'}`),
+      )
+    }
+
+    return new TransactionResponse({
+      nodeId: AccountId.fromString(result.nodeId),
+      transactionHash: base64StringToUint8Array(result.transactionHash),
+      transactionId,
+    })
+  }
+
+  private async executeQuery<OutputT>(query: Query<OutputT>): Promise<OutputT> {
+    const params = buildSignQueryAndSendParams(this.accountId, query)
+    const { response } = await this.request<SignQueryAndSendResult['result']>({
+      method: HederaJsonRpcMethod.SignQueryAndSend,
+      params,
+    })
+
+    return base64StringToQueryResponse(query, response)
   }
 }
@@ -0,0 +1,214 @@
+import { AccountId, Key, KeyList, PublicKey, Transaction } from '@hashgraph/sdk'
+import {
+  AccountKeyResolver,
+  DecodedTransactionExecutionResult,
+  TransactionExecutionOptions,
+  addSignatureMapToTransaction,
+  base64StringToSignatureMap,
+  buildExecuteTransactionParams,
+  buildSignAndReturnTransactionParams,
+  buildSignTransactionParams,
+  signatureMapToPublicKeySignatures,
+  verifyKeySignature,
+} from '../shared'
+import type { DAppConnector, SignerSelector } from '.'
+
+/**
+ * Outcome of the `hedera_signTransaction` request of a co-signer.
+ * `signed` - the signatures of the co-signer were added to the transaction.
+ * `failed` - the request failed or returned invalid signatures, see `error`.
+ * `skipped` - not requested, the threshold was already met.
+ */
+export type MultisigSignerStatus = 'signed' | 'failed' | 'skipped'
+
+/**
+ * A co-signer of a multisig transaction and the outcome of its request.
+ */
+export type MultisigSignerResult = {
+  signerAccountId: string
+  topic?: string
+  status: MultisigSignerStatus
+  publicKeys: PublicKey[] // keys of the signatures added by this co-signer
+  error?: string
+}
+
+/**
+ * Signatures collected by `MultisigCoordinator` against the key of an account.
+ * `threshold` - how many keys of the account key must sign, 1 for a single key.
+ * `signedKeys` - how many keys of the account key are satisfied, nested key lists count once.
+ * `isComplete` - whether the signatures satisfy the account key.
+ */
+export type MultisigSignatures<T extends Transaction> = {
+  transaction: T
+  key: Key
+  threshold: number
+  signedKeys: number
+  isComplete: boolean
+  signers: MultisigSignerResult[]
+}
+
+/**
+ * Collects the signatures of several connected wallets on the same frozen transaction, e.g.
+ * for an account with a threshold `KeyList`.
+ *
+ * `hedera_signTransaction` is sent to each co-signer in order until the signatures satisfy the
+ * account key. The returned signature maps are verified against the transaction body and
+ * merged into the transaction, which can then be executed with `hedera_executeTransaction`.
+ */
+export class MultisigCoordinator {
+  /**
+   * @param connector - The `DAppConnector` the co-signers are connected with
+   * @param resolveKey - Resolves the key of the multisig account, with the mirror node of the
+   * connector's network by default
+   */
+  constructor(
+    private readonly connector: DAppConnector,
+    private readonly resolveKey: AccountKeyResolver = (accountId) =>
+      connector.mirrorNodeClientFactory(connector.network).getAccountKey(accountId),
+  ) {}
+
+  /**
+   * Requests the signatures of the co-signers and adds them to the transaction.
+   *
+   * The transaction must be frozen with a single node account ID and fit in a single chunk, so
+   * every co-signer signs the same transaction body. Signatures already on the transaction are
+   * counted as well.
+   * @param transaction - The frozen transaction to sign
+   * @param accountId - The account whose key must be satisfied
+   * @param signers - The account and session topic of each co-signer, in the order they are asked
+   * @returns Promise\<{@link MultisigSignatures}\>
+   * @example
+   * ```ts
+   * const coordinator = new MultisigCoordinator(dAppConnector)
+   * const { transaction, isComplete } = await coordinator.collectSignatures(
+   *   frozenTransaction,
+   *   '0.0.12345',
+   *   [{ signerAccountId: '0.0.1001' }, { signerAccountId: '0.0.1002', topic }],
+   * )
+   * ```
+   */
+  async collectSignatures<T extends Transaction>(
+    transaction: T,
+    accountId: AccountId | string,
+    signers: (SignerSelector & { signerAccountId: AccountId | string })[],
+  ): Promise<MultisigSignatures<T>> {
+    if (!transaction.isFrozen()) {
+      throw new Error('Transaction must be frozen before collecting signatures')
+    }
+    if (transaction._signedTransactions.length !== 1) {
+      throw new Error(
+        'Transaction must have a single node account ID and a single chunk to collect signatures',
+      )
+    }
+    const key = await this.resolveKey(AccountId.fromString(accountId.toString()))
+
+    const results: MultisigSignerResult[] = []
+    for (const { signerAccountId, topic } of signers) {
+      const result = { signerAccountId: signerAccountId.toString(), topic }
+      if (this.isKeySigned(key, transaction)) {
+        results.push({ ...result, status: 'skipped', publicKeys: [] })
+        continue
+      }
+
+      try {
+        const publicKeys = await this.requestSignatures(transaction, signerAccountId, topic)
+        results.push({ ...result, status: 'signed', publicKeys })
+      } catch (err: unknown) {
+        results.push({
+          ...result,
+          status: 'failed',
+          publicKeys: [],
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    }
+
+    return { transaction, key, ...this.getKeyStatus(key, transaction), signers: results }
+  }
+
+  /**
+   * Collects the signatures of the co-signers and executes the transaction once they satisfy
+   * the account key. Throws error when they don't.
+   * @param transaction - The frozen transaction to sign and execute
+   * @param accountId - The account whose key must be satisfied
+   * @param signers - The account and session topic of each co-signer, in the order they are asked
+   * @param options - How the wallet executes the transaction and whether it returns the
+   * receipt (optional)
+   * @param selector - The signer to send `hedera_executeTransaction` with, the first co-signer
+   * that signed by default (optional)
+   * @returns Promise\<{@link MultisigSignatures} & \{ result: {@link DecodedTransactionExecutionResult} \}\>
+   */
+  async collectSignaturesAndExecute<T extends Transaction>(
+    transaction: T,
+    accountId: AccountId | string,
+    signers: (SignerSelector & { signerAccountId: AccountId | string })[],
+    options?: TransactionExecutionOptions,
+    selector?: SignerSelector,
+  ): Promise<MultisigSignatures<T> & { result: DecodedTransactionExecutionResult }> {
+    const signatures = await this.collectSignatures(transaction, accountId, signers)
+    if (!signatures.isComplete) {
+      throw new Error(
+        `Transaction has ${signatures.signedKeys} of ${signatures.threshold} required ` +
+          `signatures of account ${accountId.toString()}`,
+      )
+    }
+
+    const executor = signatures.signers.find(({ status }) => status === 'signed')
+    const [result] = await this.connector.executeTransaction(
+      buildExecuteTransactionParams(transaction, options),
+      selector ?? executor,
+    )
+    return { ...signatures, result }
+  }
+
+  /**
+   * Sends `hedera_signTransaction` to a co-signer, verifies the returned signatures against
+   * the transaction body and adds them to the transaction.
+   * @returns Promise\<PublicKey[]\> - the keys of the added signatures
+   */
+  private async requestSignatures(
+    transaction: Transaction,
+    signerAccountId: AccountId | string,
+    topic?: string,
+  ): Promise<PublicKey[]> {
+    const result = await this.connector.signTransaction(
+      this.connector.useLegacySignTransaction
+        ? buildSignAndReturnTransactionParams(signerAccountId, transaction)
+        : buildSignTransactionParams(signerAccountId, transaction),
+      { signerAccountId, topic },
+    )
+    const signatureMap = base64StringToSignatureMap(
+      Array.isArray(result) ? result[0] : result.signatureMap,
+    )
+
+    const bodyBytes = transaction._signedTransactions.get(0).bodyBytes!
+    const publicKeySignatures = signatureMapToPublicKeySignatures(signatureMap)
+    for (const [publicKey, signature] of publicKeySignatures) {
+      if (!publicKey.verify(bodyBytes, signature)) {
+        throw new Error(`Invalid signature of key ${publicKey.toStringDer()}`)
+      }
+    }
+
+    addSignatureMapToTransaction(transaction, signatureMap)
+    return publicKeySignatures.map(([publicKey]) => publicKey)
+  }
+
+  private isKeySigned(key: Key, transaction: Transaction): boolean {
+    const { bodyBytes, sigMap } = transaction._signedTransactions.get(0)
+    return verifyKeySignature(bodyBytes!, sigMap?.sigPair ?? [], key)
+  }
+
+  private getKeyStatus(
+    key: Key,
+    transaction: Transaction,
+  ): Pick<MultisigSignatures<Transaction>, 'threshold' | 'signedKeys' | 'isComplete'> {
+    const keys = key instanceof KeyList ? key.toArray() : [key]
+    const threshold = key instanceof KeyList ? key.threshold ?? keys.length : 1
+
+    return {
+      threshold,
+      signedKeys: keys.filter((key) => this.isKeySigned(key, transaction)).length,
+      isComplete: this.isKeySigned(key, transaction),
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { getSdkError } from '@walletconnect/utils'
+import {
+  HEDERA_ERRORS,
+  HederaErrorKey,
+  HederaErrorResponse,
+  HederaJsonRpcError,
+} from '../shared'
+
+/**
+ * Thrown by `DAppConnector.connect` and `DAppConnector.connectQR` when the connection is
+ * cancelled before a session is established, either by aborting the `AbortSignal` or by the user
+ * closing the QR code modal.
+ */
+export class ConnectionCancelledError extends Error {
+  name = 'ConnectionCancelledError'
+
+  /**
+   * @param message - The reason the connection was cancelled
+   * @param cause - The abort reason of the `AbortSignal` (optional)
+   */
+  constructor(
+    message = 'Connection cancelled',
+    public cause?: unknown,
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Rejection of a JSON-RPC request by the wallet, `code` and `data` are the code and data of the
+ * wallet's error response. Use `HederaRequestError.fromResponse` to create the subclass matching
+ * the code, e.g. `UserRejectedError`.
+ */
+export class HederaRequestError<T = any> extends HederaJsonRpcError<T> {
+  name = 'HederaRequestError'
+
+  /**
+   * @param message - The message of the wallet's error response
+   * @param code - The code of the wallet's error response
+   * @param data - The data of the wallet's error response (optional)
+   */
+  constructor(
+    message: string,
+    public code: number,
+    public data?: T,
+  ) {
+    super({ code, message, data })
+  }
+
+  /**
+   * Creates the error matching the code of an error response. Hedera error codes and the
+   * equivalent WalletConnect SDK error codes are mapped to the same subclass.
+   * @param error - The wallet's error response
+   * @returns `HederaRequestError`, or one of its subclasses
+   */
+  static fromResponse<T>(error: HederaErrorResponse<T>): HederaRequestError<T> {
+    const key =
+      (Object.keys(HEDERA_ERRORS) as HederaErrorKey[]).find(
+        (key) => HEDERA_ERRORS[key].code === error.code,
+      ) ?? SDK_ERROR_KEYS[error.code]
+    const HederaError = key ? HEDERA_ERROR_CLASSES[key] : HederaRequestError
+    return new HederaError<T>(error.message, error.code, error.data)
+  }
+}
+
+/**
+ * The wallet rejected the request with `INVALID_PARAMS`.
+ */
+export class InvalidParamsError<T = any> extends HederaRequestError<T> {
+  name = 'InvalidParamsError'
+}
+
+/**
+ * The wallet rejected the request with `USER_REJECTED`.
+ */
+export class UserRejectedError<T = any> extends HederaRequestError<T> {
+  name = 'UserRejectedError'
+}
+
+/**
+ * The wallet rejected the request with `UNSUPPORTED_METHOD`.
+ */
+export class UnsupportedMethodError<T = any> extends HederaRequestError<T> {
+  name = 'UnsupportedMethodError'
+}
+
+/**
+ * The wallet rejected the request with `UNAUTHORIZED_ACCOUNT`.
+ */
+export class UnauthorizedAccountError<T = any> extends HederaRequestError<T> {
+  name = 'UnauthorizedAccountError'
+}
+
+/**
+ * The wallet rejected the request with `CHAIN_MISMATCH`.
+ */
+export class ChainMismatchError<T = any> extends HederaRequestError<T> {
+  name = 'ChainMismatchError'
+}
+
+/**
+ * The wallet rejected the request with `PRECHECK_FAILED`.
+ */
+export class PrecheckFailedError<T = any> extends HederaRequestError<T> {
+  name = 'PrecheckFailedError'
+}
+
+/**
+ * The wallet rejected the request with `RECEIPT_FAILED`.
+ */
+export class ReceiptFailedError<T = any> extends HederaRequestError<T> {
+  name = 'ReceiptFailedError'
+}
+
+/**
+ * The wallet rejected the request with `TRANSACTION_EXPIRED`.
+ */
+export class TransactionExpiredError<T = any> extends HederaRequestError<T> {
+  name = 'TransactionExpiredError'
+}
+
+/**
+ * The wallet rejected the request with `SESSION_EXPIRED`.
+ */
+export class SessionExpiredError<T = any> extends HederaRequestError<T> {
+  name = 'SessionExpiredError'
+}
+
+const HEDERA_ERROR_CLASSES: { [key in HederaErrorKey]: typeof HederaRequestError } = {
+  INVALID_PARAMS: InvalidParamsError,
+  USER_REJECTED: UserRejectedError,
+  UNSUPPORTED_METHOD: UnsupportedMethodError,
+  UNAUTHORIZED_ACCOUNT: UnauthorizedAccountError,
+  CHAIN_MISMATCH: ChainMismatchError,
+  PRECHECK_FAILED: PrecheckFailedError,
+  RECEIPT_FAILED: ReceiptFailedError,
+  TRANSACTION_EXPIRED: TransactionExpiredError,
+  SESSION_EXPIRED: SessionExpiredError,
+}
+
+// WalletConnect SDK errors returned by wallets that do not use the Hedera error codes
+const SDK_ERROR_KEYS: { [code: number]: HederaErrorKey } = {
+  [getSdkError('INVALID_METHOD').code]: 'UNSUPPORTED_METHOD',
+  [getSdkError('UNAUTHORIZED_METHOD').code]: 'UNSUPPORTED_METHOD',
+  [getSdkError('UNSUPPORTED_METHODS').code]: 'UNSUPPORTED_METHOD',
+  [getSdkError('USER_REJECTED').code]: 'USER_REJECTED',
+  [getSdkError('UNSUPPORTED_CHAINS').code]: 'CHAIN_MISMATCH',
+  [getSdkError('UNSUPPORTED_ACCOUNTS').code]: 'UNAUTHORIZED_ACCOUNT',
+  [getSdkError('USER_DISCONNECTED').code]: 'SESSION_EXPIRED',
+}
@@ -0,0 +1,61 @@
+import type { SessionTypes } from '@walletconnect/types'
+import type { DAppSigner } from './DAppSigner'
+
+/**
+ * Represents the events emitted by `DAppConnector`.
+ */
+export enum DAppConnectorEvent {
+  SessionConnected = 'sessionConnected',
+  SessionUpdated = 'sessionUpdated',
+  SessionDeleted = 'sessionDeleted',
+  AccountsChanged = 'accountsChanged',
+  ChainChanged = 'chainChanged',
+  SignersChanged = 'signersChanged',
+}
+
+/**
+ * Arguments passed to the listeners of each `DAppConnectorEvent`.
+ *
+ * Every event carries `signers`, the list of all `DAppSigner`s of the connector after the
+ * event has been handled.
+ */
+export interface DAppConnectorEventArguments {
+  [DAppConnectorEvent.SessionConnected]: {
+    session: SessionTypes.Struct
+    signers: DAppSigner[]
+  }
+  [DAppConnectorEvent.SessionUpdated]: {
+    session: SessionTypes.Struct
+    signers: DAppSigner[]
+  }
+  [DAppConnectorEvent.SessionDeleted]: {
+    topic: string
+    signers: DAppSigner[]
+  }
+  [DAppConnectorEvent.AccountsChanged]: {
+    topic: string
+    /*
+     * accounts - Hedera accounts in CAIP-10 (`hedera:<network>:<shard>.<realm>.<num>`) form
+     */
+    accounts: string[]
+    signers: DAppSigner[]
+  }
+  [DAppConnectorEvent.ChainChanged]: {
+    topic: string
+    /*
+     * chainId - CAIP-2 chain id, e.g. `hedera:testnet`
+     */
+    chainId: string
+    signers: DAppSigner[]
+  }
+  [DAppConnectorEvent.SignersChanged]: {
+    signers: DAppSigner[]
+  }
+}
+
+/**
+ * Listener of a `DAppConnectorEvent`.
+ */
+export type DAppConnectorEventListener<E extends DAppConnectorEvent> = (
+  args: DAppConnectorEventArguments[E],
+) => void
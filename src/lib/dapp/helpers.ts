@@ -1,62 +1,12 @@
 import { type Transaction } from '@hashgraph/sdk'
 import { EngineTypes } from '@walletconnect/types'
-import { HederaJsonRpcMethod, transactionToBase64String } from '../shared'
-
-/**
- * Builds parameters for signing messages.
- *
- * account ID - Hedera Account identifier in {@link https://hips.hedera.com/hip/hip-30 | HIP-30} (`<nework>:<shard>.<realm>.<num>`) form.
- * @param signerAccountId - The signer's account ID.
- * @param messages - An array of messages to be signed, each can be a Uint8Array or a string.
- * @returns An object containing signer's account ID and base64 encoded messages.
- *
- */
-export function buildSignMessageParams(
-  signerAccountId: string,
-  messages: (Uint8Array | string)[],
-) {
-  return {
-    signerAccountId,
-    messages: messages.map((message) => Buffer.from(message).toString('base64')),
-  }
-}
-
-function _buildTransactionParams(signerAccountId: string, transaction: Transaction) {
-  return {
-    signerAccountId,
-    transaction: {
-      bytes: transactionToBase64String(transaction),
-    },
-  }
-}
-
-/**
- * Builds parameters for signing and executing a transaction.
- *
- * @param signerAccountId - The signer's account ID.
- * @param transaction - The transaction object to be signed and executed.
- * @returns An object containing the signer's account ID and base64 encoded transaction.
- */
-export function buildSignAndExecuteTransactionParams(
-  signerAccountId: string,
-  transaction: Transaction,
-) {
-  return _buildTransactionParams(signerAccountId, transaction)
-}
-
-/**
- * Builds parameters for signing and returning a transaction.
- *
- * @param signerAccountId - The signer's account ID.
- * @param transaction - The transaction object to be signed.
- * @returns An object containing the signer's account ID and base64 encoded transaction.
- */
-export function buildSignAndReturnTransactionParams(
-  signerAccountId: string,
-  transaction: Transaction,
-) {
-  return _buildTransactionParams(signerAccountId, transaction)
-}
+import {
+  HederaJsonRpcMethod,
+  buildSignAndExecuteTransactionParams,
+  buildSignAndReturnTransactionParams,
+  buildSignMessageParams,
+  type SignMessageRequest,
+} from '../shared'
 
 /**
  * Options used to build a Hedera session request.
@@ -139,20 +89,35 @@ export class HederaSessionRequest {
   }
 
   /**
-   * Builds a request to sign messages.
+   * Builds a request to sign a message.
    *
    * @param signerAccountId - The signer's account ID.
-   * @param messages - An array of messages to be signed.
-   * @returns An object representing the request to sign messages.
+   * @param message - The message to be signed.
+   * @returns An object representing the request to sign the message.
    */
-  public buildSignMessageRequest(signerAccountId: string, messages: (Uint8Array | string)[]) {
+  public buildSignMessageRequest(
+    signerAccountId: string,
+    message: Uint8Array | string,
+  ): SignMessageRequest
+  /**
+   * @deprecated Pass the message itself, `hedera_signMessage` signs a single message per
+   * request. The array must hold exactly one message.
+   */
+  public buildSignMessageRequest(
+    signerAccountId: string,
+    messages: (Uint8Array | string)[],
+  ): SignMessageRequest
+  public buildSignMessageRequest(
+    signerAccountId: string,
+    message: Uint8Array | string | (Uint8Array | string)[],
+  ): SignMessageRequest {
     return {
       chainId: this.chainId,
       topic: this.topic,
       expiry: this.expiry,
       request: {
         method: HederaJsonRpcMethod.SignMessage,
-        params: buildSignMessageParams(signerAccountId, messages),
+        params: buildSignMessageParams(signerAccountId, [message].flat()),
       },
     }
   }
@@ -1,12 +1,17 @@
-import { AccountId, LedgerId } from '@hashgraph/sdk'
-import { EngineTypes, SessionTypes, SignClientTypes } from '@walletconnect/types'
-import QRCodeModal from '@walletconnect/qrcode-modal'
+import { EventEmitter } from 'events'
+import { AccountId, LedgerId, Transaction } from '@hashgraph/sdk'
+import { CoreTypes, EngineTypes, SessionTypes, SignClientTypes } from '@walletconnect/types'
 import Client, { SignClient } from '@walletconnect/sign-client'
-import { getSdkError } from '@walletconnect/utils'
+import { getSdkError, parseUri } from '@walletconnect/utils'
 import {
   HederaJsonRpcMethod,
+  HederaSessionEvent,
   accountAndLedgerFromSession,
+  CAIPChainIdToLedgerId,
   networkNamespaces,
+  transactionReceiptFromJSON,
+  MirrorNodeClient,
+  MirrorNodeRestClient,
   GetNodeAddressesRequest,
   GetNodeAddressesResult,
   ExecuteTransactionParams,
@@ -24,11 +29,27 @@ import {
   SignTransactionParams,
   SignTransactionRequest,
   SignTransactionResult,
+  LegacySignTransactionParams,
+  LegacySignTransactionResult,
+  TransactionExecutionResult,
+  DecodedTransactionExecutionResult,
 } from '../shared'
 import { DAppSigner } from './DAppSigner'
+import { ConnectionUI, DefaultConnectionUI } from './ConnectionUI'
+import { ConnectionCancelledError } from './errors'
+import {
+  DAppConnectorEvent,
+  DAppConnectorEventArguments,
+  DAppConnectorEventListener,
+} from './events'
 import { JsonRpcResult } from '@walletconnect/jsonrpc-types'
 
 export * from './helpers'
+export * from './DAppSigner'
+export * from './MultisigCoordinator'
+export * from './ConnectionUI'
+export * from './errors'
+export * from './events'
 
 /**
  * Represents a base logger level for logging purposes.
@@ -36,6 +57,44 @@ export * from './helpers'
  */
 export type BaseLogger = 'error' | 'warn' | 'info' | 'debug' | 'trace' | 'fatal'
 
+/**
+ * Selects the signer that a request is sent with.
+ * `signerAccountId` - a Hedera Account identifier of the signer (optional).
+ * `topic` - the topic of the session the signer belongs to (optional).
+ */
+export type SignerSelector = { signerAccountId?: AccountId | string; topic?: string }
+
+/**
+ * Defines how `DAppConnector.init` handles the sessions persisted in storage.
+ * `ping` - keep the sessions whose wallet responds to a ping, disconnect the others.
+ * `restore` - keep all sessions without pinging the wallets.
+ * `discard` - disconnect all sessions.
+ */
+export type SessionRestorePolicy = 'ping' | 'restore' | 'discard'
+
+/**
+ * Options of `DAppConnector.init`.
+ * `logger` - a BaseLogger level or a logger instance, also used for the connector's own
+ * messages (optional).
+ * `relayUrl` - the URL of the WalletConnect relay (default: 'wss://relay.walletconnect.com').
+ * `storage` - the key-value storage for WalletConnect data (optional, platform default).
+ * `connectTimeoutMs` - how long `connect` and `connectQR` wait for a session (default: 480 s).
+ * `pingTimeoutMs` - how long to wait for a wallet to respond to a ping (default: 1 s).
+ * `pingRetries` - how many times a failed ping is retried (default: 3).
+ * `pingRetryDelayMs` - how long to wait before a failed ping is retried (default: 1 s).
+ * `sessionRestore` - the {@link SessionRestorePolicy} of persisted sessions (default: 'ping').
+ */
+export type DAppConnectorInitOptions = {
+  logger?: BaseLogger | Exclude<CoreTypes.Options['logger'], string>
+  relayUrl?: string
+  storage?: CoreTypes.Options['storage']
+  connectTimeoutMs?: number
+  pingTimeoutMs?: number
+  pingRetries?: number
+  pingRetryDelayMs?: number
+  sessionRestore?: SessionRestorePolicy
+}
+
 export class DAppConnector {
   dAppMetadata: SignClientTypes.Metadata
   network: LedgerId = LedgerId.TESTNET
@@ -47,6 +106,32 @@ export class DAppConnector {
   signers: DAppSigner[] = []
   isInitializing = false
 
+  private events = new EventEmitter()
+
+  /**
+   * Creates the `MirrorNodeClient` that signers use to read account state of a given ledger.
+   * Replace it to use a self-hosted mirror node or another data source.
+   */
+  mirrorNodeClientFactory: (ledgerId: LedgerId) => MirrorNodeClient =
+    MirrorNodeRestClient.forLedgerId
+
+  /**
+   * Compatibility flag for wallets that predate HIP-820. When enabled, `hedera_signTransaction`
+   * is sent with an array of transactions instead of the `transactionBody` bytes.
+   */
+  useLegacySignTransaction = false
+
+  /**
+   * Displays the pairing URI in `connectQR`. Replace it to use your own modal.
+   */
+  connectionUI: ConnectionUI = new DefaultConnectionUI()
+
+  private connectTimeoutMs = 480_000
+  private pingTimeoutMs = 1_000
+  private pingRetries = 3
+  private pingRetryDelayMs = 1_000
+  private sessionRestore: SessionRestorePolicy = 'ping'
+
   /**
    * Initializes the DAppConnector instance.
    * @param metadata - SignClientTypes.Metadata object for the DApp metadata.
@@ -69,66 +154,144 @@ export class DAppConnector {
     this.projectId = projectId
   }
 
+  /**
+   * Adds a listener for a `DAppConnectorEvent`.
+   * @param event - The event to listen to
+   * @param listener - Called with the {@link DAppConnectorEventArguments | arguments} of the event
+   * @returns The `DAppConnector` instance
+   * @example
+   * ```ts
+   * dAppConnector.on(DAppConnectorEvent.SignersChanged, ({ signers }) => {
+   *   renderAccounts(signers.map((signer) => signer.getAccountId().toString()))
+   * })
+   * ```
+   */
+  public on<E extends DAppConnectorEvent>(
+    event: E,
+    listener: DAppConnectorEventListener<E>,
+  ): this {
+    this.events.on(event, listener)
+    return this
+  }
+
+  /**
+   * Adds a one-time listener for a `DAppConnectorEvent`.
+   * @param event - The event to listen to
+   * @param listener - Called with the {@link DAppConnectorEventArguments | arguments} of the event
+   * @returns The `DAppConnector` instance
+   */
+  public once<E extends DAppConnectorEvent>(
+    event: E,
+    listener: DAppConnectorEventListener<E>,
+  ): this {
+    this.events.once(event, listener)
+    return this
+  }
+
+  /**
+   * Removes a listener of a `DAppConnectorEvent`.
+   * @param event - The event the listener was added to
+   * @param listener - The listener to remove
+   * @returns The `DAppConnector` instance
+   */
+  public off<E extends DAppConnectorEvent>(
+    event: E,
+    listener: DAppConnectorEventListener<E>,
+  ): this {
+    this.events.off(event, listener)
+    return this
+  }
+
+  private emit<E extends DAppConnectorEvent>(event: E, args: DAppConnectorEventArguments[E]) {
+    this.events.emit(event, args)
+  }
+
   /**
    * Initializes the DAppConnector instance.
-   * @param params - An object containing parameters (optional).
-   * @param {BaseLogger} params.logger - The logger for logging purposes (optional).
+   * @param options - {@link DAppConnectorInitOptions} (optional).
    * @returns Promise<void>
+   * @example
+   * ```ts
+   * await dAppConnector.init({
+   *   relayUrl: 'wss://relay.example.com',
+   *   storage: new KeyValueStorage({ database: 'walletconnect.db' }),
+   *   sessionRestore: 'restore',
+   * })
+   * ```
    */
-  async init({ logger }: { logger?: BaseLogger } = {}) {
+  async init({
+    logger,
+    relayUrl = 'wss://relay.walletconnect.com',
+    storage,
+    connectTimeoutMs = 480_000,
+    pingTimeoutMs = 1_000,
+    pingRetries = 3,
+    pingRetryDelayMs = 1_000,
+    sessionRestore = 'ping',
+  }: DAppConnectorInitOptions = {}) {
     try {
       this.isInitializing = true
       if (!this.projectId) {
         throw new Error('Project ID is not defined')
       }
+      this.connectTimeoutMs = connectTimeoutMs
+      this.pingTimeoutMs = pingTimeoutMs
+      this.pingRetries = pingRetries
+      this.pingRetryDelayMs = pingRetryDelayMs
+      this.sessionRestore = sessionRestore
       this.walletConnectClient = await SignClient.init({
         logger,
-        relayUrl: 'wss://relay.walletconnect.com',
+        relayUrl,
+        storage,
         projectId: this.projectId,
         metadata: this.dAppMetadata,
       })
       const existingSessions = await this.checkPersistedState()
 
-      if (existingSessions.length) {
-        await this.onSessionConnected(existingSessions.pop()!)
+      for (const session of existingSessions) {
+        await this.onSessionConnected(session)
+      }
 
-        while (existingSessions.length) {
-          this.disconnect(existingSessions.pop()!.topic)
+      this.walletConnectClient.on('session_event', ({ topic, params }) => {
+        const { event, chainId } = params
+        const isSessionChange =
+          event.name === HederaSessionEvent.AccountsChanged ||
+          event.name === HederaSessionEvent.ChainChanged
+        // The wallet updates the session namespaces before it emits the event, so the stored
+        // session already holds the new accounts and chains.
+        if (isSessionChange && this.walletConnectClient!.session.keys.includes(topic)) {
+          this.setSessionSigners(this.walletConnectClient!.session.get(topic))
         }
-      }
 
-      this.walletConnectClient.on('session_event', (event) => {
-        // Handle session events, such as "chainChanged", "accountsChanged", etc.
-        alert('There has been a session event!')
-        console.log(event)
+        if (event.name === HederaSessionEvent.AccountsChanged) {
+          this.emit(DAppConnectorEvent.AccountsChanged, {
+            topic,
+            accounts: event.data,
+            signers: this.signers,
+          })
+        } else if (event.name === HederaSessionEvent.ChainChanged) {
+          this.emit(DAppConnectorEvent.ChainChanged, {
+            topic,
+            chainId: event.data ?? chainId,
+            signers: this.signers,
+          })
+        }
       })
 
       this.walletConnectClient.on('session_update', ({ topic, params }) => {
-        // Handle session update
-        alert('There has been a update to the session!')
-        const { namespaces } = params
-        const _session = this.walletConnectClient!.session.get(topic)
         // Overwrite the `namespaces` of the existing session with the incoming one.
-        const updatedSession = { ..._session, namespaces }
-        // Integrate the updated session state into your dapp state.
-        console.log(updatedSession)
+        const session = { ...this.walletConnectClient!.session.get(topic), ...params }
+        this.setSessionSigners(session)
+        this.emit(DAppConnectorEvent.SessionUpdated, { session, signers: this.signers })
       })
 
-      this.walletConnectClient.on('session_delete', (pairing) => {
-        console.log(pairing)
-        this.signers = this.signers.filter((signer) => signer.topic !== pairing.topic)
-        this.disconnect(pairing.topic)
-        // Session was deleted -> reset the dapp state, clean up from user session, etc.
-        console.log('Dapp: Session deleted by wallet!')
+      this.walletConnectClient.on('session_delete', ({ topic }) => {
+        this.removeSessionSigners(topic)
+        this.emit(DAppConnectorEvent.SessionDeleted, { topic, signers: this.signers })
       })
 
-      this.walletConnectClient.core.pairing.events.on('pairing_delete', (pairing) => {
-        // Session was deleted
-        console.log(pairing)
-        this.signers = this.signers.filter((signer) => signer.topic !== pairing.topic)
-        this.disconnect(pairing.topic)
-        console.log(`Dapp: Pairing deleted by wallet!`)
-        // clean up after the pairing for `topic` was deleted.
+      this.walletConnectClient.core.pairing.events.on('pairing_delete', ({ topic }) => {
+        this.removeSessionSigners(topic)
       })
     } finally {
       this.isInitializing = false
@@ -136,57 +299,102 @@ export class DAppConnector {
   }
 
   /**
-   * Initiates the WallecConnect connection flow using a QR code.
+   * Initiates the WallecConnect connection flow using a QR code, displayed by `connectionUI`.
+   *
+   * Rejects with `ConnectionCancelledError` when the user closes the `connectionUI` or `signal`
+   * is aborted.
    * @param pairingTopic - The pairing topic for the connection (optional).
+   * @param signal - An `AbortSignal` to cancel the connection (optional).
    * @returns A Promise that resolves when the connection process is complete.
    */
-  public async connectQR(pairingTopic?: string): Promise<void> {
-    return this.abortableConnect(async () => {
-      try {
-        const { uri, approval } = await this.connectURI(pairingTopic)
-        if (!uri) throw new Error('URI is not defined')
-        QRCodeModal.open(uri, () => {
-          throw new Error('User rejected pairing')
-        })
-        await this.onSessionConnected(await approval())
-      } finally {
-        QRCodeModal.close()
-      }
-    })
+  public async connectQR(pairingTopic?: string, signal?: AbortSignal): Promise<void> {
+    let removeOnClose = () => {}
+    try {
+      await this.abortableConnect(
+        (uri, cancel) => {
+          removeOnClose = this.connectionUI.onClose(() =>
+            cancel(new ConnectionCancelledError('User closed the connection UI')),
+          )
+          this.connectionUI.open(uri)
+        },
+        pairingTopic,
+        signal,
+      )
+    } finally {
+      removeOnClose()
+      this.connectionUI.close()
+    }
   }
 
   /**
    * Initiates the WallecConnect connection flow using URI.
+   *
+   * Rejects with `ConnectionCancelledError` when `signal` is aborted.
+   * @param launchCallback - Called with the URI to pass to the wallet.
    * @param pairingTopic - The pairing topic for the connection (optional).
+   * @param signal - An `AbortSignal` to cancel the connection (optional).
    * @returns A Promise that resolves when the connection process is complete.
+   * @example
+   * ```ts
+   * const controller = new AbortController()
+   * cancelButton.onclick = () => controller.abort()
+   * await dAppConnector.connect(showUri, undefined, controller.signal)
+   * ```
    */
   public async connect(
     launchCallback: (uri: string) => void,
     pairingTopic?: string,
+    signal?: AbortSignal,
   ): Promise<void> {
-    return this.abortableConnect(async () => {
-      const { uri, approval } = await this.connectURI(pairingTopic)
-      if (!uri) throw new Error('URI is not defined')
-      launchCallback(uri)
-      const session = await approval()
-      await this.onSessionConnected(session)
-    })
+    return this.abortableConnect((uri) => launchCallback(uri), pairingTopic, signal)
   }
 
-  private abortableConnect = async <T>(callback: () => Promise<T>): Promise<T> => {
-    return new Promise(async (resolve, reject) => {
-      const pairTimeoutMs = 480_000
-      const timeout = setTimeout(() => {
-        QRCodeModal.close()
-        reject(new Error(`Connect timed out after ${pairTimeoutMs}(ms)`))
-      }, pairTimeoutMs)
+  /**
+   * Waits for the wallet to approve the session of a new pairing. The pending pairing is deleted
+   * when the connection is cancelled or times out.
+   */
+  private async abortableConnect(
+    launch: (uri: string, cancel: (error: ConnectionCancelledError) => void) => void,
+    pairingTopic?: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (signal?.aborted) {
+      throw new ConnectionCancelledError('Connection aborted', signal.reason)
+    }
 
-      try {
-        return resolve(await callback())
-      } finally {
-        clearTimeout(timeout)
-      }
-    })
+    const { uri, approval } = await this.connectURI(pairingTopic)
+    if (!uri) throw new Error('URI is not defined')
+
+    let cancel: (error: Error) => void = () => {}
+    const cancelled = new Promise<never>((_, reject) => (cancel = reject))
+    const onAbort = () =>
+      cancel(new ConnectionCancelledError('Connection aborted', signal?.reason))
+    signal?.addEventListener('abort', onAbort)
+    if (signal?.aborted) onAbort()
+
+    const pairTimeoutMs = this.connectTimeoutMs
+    const timeout = setTimeout(() => {
+      cancel(new Error(`Connect timed out after ${pairTimeoutMs}(ms)`))
+    }, pairTimeoutMs)
+
+    const approved = approval()
+    let session: SessionTypes.Struct
+    try {
+      launch(uri, cancel)
+      session = await Promise.race([approved, cancelled])
+    } catch (error) {
+      // the session proposal stays pending until it expires
+      approved.catch(() => {})
+      await this.walletConnectClient!.core.pairing.disconnect({
+        topic: parseUri(uri).topic,
+      }).catch(() => {})
+      throw error
+    } finally {
+      clearTimeout(timeout)
+      signal?.removeEventListener('abort', onAbort)
+    }
+
+    await this.onSessionConnected(session)
   }
 
   /**
@@ -199,6 +407,7 @@ export class DAppConnector {
       topic: topic,
       reason: getSdkError('USER_DISCONNECTED'),
     })
+    this.removeSessionSigners(topic)
   }
 
   /**
@@ -222,7 +431,6 @@ export class DAppConnector {
 
     // disconnect sessions
     for (const session of this.walletConnectClient.session.getAll()) {
-      console.log(`Disconnecting from session: ${session}`)
       const promise = this.disconnect(session.topic)
       disconnectionPromises.push(promise)
     }
@@ -237,23 +445,56 @@ export class DAppConnector {
     await Promise.all(disconnectionPromises)
 
     this.signers = []
+    this.emit(DAppConnectorEvent.SignersChanged, { signers: this.signers })
   }
 
   private createSigners(session: SessionTypes.Struct): DAppSigner[] {
     const allNamespaceAccounts = accountAndLedgerFromSession(session)
     return allNamespaceAccounts.map(
-      ({ account, network }: { account: AccountId; network: LedgerId }) =>
-        new DAppSigner(account, this.walletConnectClient!, session.topic, network),
+      ({ account, network }: { account: AccountId; network: LedgerId }) => {
+        const signer = new DAppSigner(
+          account,
+          this.walletConnectClient!,
+          session.topic,
+          network,
+          (ledgerId) => this.mirrorNodeClientFactory(ledgerId),
+        )
+        signer.useLegacySignTransaction = this.useLegacySignTransaction
+        return signer
+      },
     )
   }
 
+  /**
+   * Replaces the signers of a session with signers for the accounts of its namespaces.
+   */
+  private setSessionSigners(session: SessionTypes.Struct) {
+    this.signers = [
+      ...this.signers.filter((signer) => signer.topic !== session.topic),
+      ...this.createSigners(session),
+    ]
+    this.emit(DAppConnectorEvent.SignersChanged, { signers: this.signers })
+  }
+
+  /**
+   * Removes the signers of a session, e.g. after it has been deleted.
+   */
+  private removeSessionSigners(topic: string) {
+    const signers = this.signers.filter((signer) => signer.topic !== topic)
+    if (signers.length === this.signers.length) return
+
+    this.signers = signers
+    this.emit(DAppConnectorEvent.SignersChanged, { signers: this.signers })
+  }
+
   private async onSessionConnected(session: SessionTypes.Struct) {
-    this.signers.push(...this.createSigners(session))
+    this.setSessionSigners(session)
+    this.emit(DAppConnectorEvent.SessionConnected, { session, signers: this.signers })
   }
 
   private pingWithTimeout = async (
     { topic }: EngineTypes.PingParams,
-    pingTimeoutMs: number = 1_000,
+    pingTimeoutMs: number = this.pingTimeoutMs,
   ) => {
     return new Promise<void>(async (resolve, reject) => {
       const timeout = setTimeout(() => {
@@ -270,16 +511,18 @@ export class DAppConnector {
     })
   }
 
-  private async pingWithRetry(topic: string, retries = 3): Promise<void> {
+  private async pingWithRetry(topic: string, retries = this.pingRetries): Promise<void> {
     try {
       await this.pingWithTimeout({ topic })
     } catch (error) {
       if (retries > 0) {
-        console.log(`Ping failed, ${retries} retries left. Retrying in 1 seconds...`)
-        await new Promise((resolve) => setTimeout(resolve, 1000))
+        this.walletConnectClient!.logger.warn(
+          `Ping failed, ${retries} retries left. Retrying in ${this.pingRetryDelayMs}(ms)...`,
+        )
+        await new Promise((resolve) => setTimeout(resolve, this.pingRetryDelayMs))
         await this.pingWithRetry(topic, retries - 1)
       } else {
-        console.log(`Ping failed after ${retries} retries. Aborting...`)
+        this.walletConnectClient!.logger.warn(`Ping to ${topic} failed. Aborting...`)
         throw error
       }
     }
@@ -290,6 +533,22 @@ export class DAppConnector {
       throw new Error('WalletConnect is not initialized')
     }
 
+    if (this.sessionRestore === 'restore') {
+      return this.walletConnectClient.session.getAll()
+    }
+
+    if (this.sessionRestore === 'discard') {
+      await Promise.allSettled(
+        this.walletConnectClient.session.getAll().map(({ topic }) =>
+          this.walletConnectClient!.disconnect({
+            topic,
+            reason: getSdkError('USER_DISCONNECTED'),
+          }),
+        ),
+      )
+      return []
+    }
+
     if (this.walletConnectClient.session.length) {
       const sessionCheckPromises: Promise<SessionTypes.Struct>[] =
         this.walletConnectClient.session.getAll().map(
@@ -306,7 +565,9 @@ export class DAppConnector {
                   })
                   reject(`Ping failed, disconnecting from session. Topic: ${session.topic}`)
                 } catch (e) {
-                  console.log('Non existing session with topic:', session.topic)
+                  this.walletConnectClient!.logger.warn(
+                    `Non existing session with topic: ${session.topic}`,
+                  )
                   reject('Non existing session')
                 }
               }
@@ -323,7 +584,10 @@ export class DAppConnector {
 
       const errors = sessionCheckResults.filter((result) => result.status === 'rejected')
       if (errors.length) {
-        console.log('Errors while checking persisted state:', errors)
+        this.walletConnectClient.logger.error(
+          { errors },
+          'Errors while checking persisted state',
+        )
       }
 
       return sessions
@@ -348,16 +612,83 @@ export class DAppConnector {
     })
   }
 
-  private async request<Req extends EngineTypes.RequestParams, Res extends JsonRpcResult>({
-    method,
-    params,
-  }: Req['request']): Promise<Res> {
-    const signer = this.signers[this.signers.length - 1]
+  /**
+   * Returns the signer of an account.
+   *
+   * When the account is connected on several ledgers and `ledgerId` is not set, the signer of
+   * the connector's network is preferred. Throws error when there is no matching signer.
+   * @param accountId - The signer's account ID, either plain (`0.0.12345`) or with the network
+   * (`hedera:testnet:0.0.12345`), which then selects the ledger
+   * @param ledgerId - The ledger of the signer (optional)
+   * @param topic - The topic of the session the signer belongs to (optional)
+   * @returns `DAppSigner`
+   * @example
+   * ```ts
+   * const signer = dAppConnector.getSigner('0.0.12345', LedgerId.TESTNET)
+   * const response = await transaction.executeWithSigner(signer)
+   * ```
+   */
+  public getSigner(
+    accountId: AccountId | string,
+    ledgerId?: LedgerId,
+    topic?: string,
+  ): DAppSigner {
+    const [account, ...network] = accountId.toString().split(':').reverse()
+    if (network.length) {
+      // HIP-30 (`testnet:0.0.12345`) or CAIP-10 (`hedera:testnet:0.0.12345`) account ID
+      ledgerId ??= CAIPChainIdToLedgerId(`hedera:${network[0]}`)
+    }
+    const signerAccountId = AccountId.fromString(account)
+    const signers = this.signers.filter(
+      (signer) =>
+        signer.getAccountId().compare(signerAccountId) === 0 &&
+        (!ledgerId || signer.getLedgerId().toString() === ledgerId.toString()) &&
+        (!topic || signer.topic === topic),
+    )
+    const signer =
+      signers.find((signer) => signer.getLedgerId().toString() === this.network.toString()) ??
+      signers[0]
+
     if (!signer) {
+      throw new Error(
+        `There is no signer for account ${signerAccountId.toString()}` +
+          (ledgerId ? ` on ledger ${ledgerId.toString()}` : '') +
+          (topic ? ` in session ${topic}` : ''),
+      )
+    }
+    return signer
+  }
+
+  /**
+   * Selects the signer for a request. Without `signerAccountId` the most recently connected
+   * signer (of the session `topic`, if set) is used.
+   */
+  private selectSigner({ signerAccountId, topic }: SignerSelector): DAppSigner {
+    if (!this.signers.length) {
       throw new Error('There is no active session. Connect to the wallet at first.')
     }
+    if (signerAccountId) {
+      return this.getSigner(signerAccountId, undefined, topic)
+    }
 
-    return await signer.request({
+    const signers = topic
+      ? this.signers.filter((signer) => signer.topic === topic)
+      : this.signers
+    const signer = signers[signers.length - 1]
+    if (!signer) {
+      throw new Error(`There is no signer in session ${topic}`)
+    }
+    return signer
+  }
+
+  private async request<Req extends EngineTypes.RequestParams, Res extends JsonRpcResult>(
+    { method, params }: Req['request'],
+    selector: SignerSelector = {},
+  ): Promise<Res['result']> {
+    const signer = this.selectSigner(selector)
+
+    // the signer rejects malformed results
+    return await signer.request<Res['result']>({
       method: method,
       params: params,
     })
@@ -367,13 +698,17 @@ export class DAppConnector {
    * Retrieves the node addresses associated with the current Hedera network.
    *
    * When there is no active session or an error occurs during the request.
+   * @param {SignerSelector} selector - The account and/or session topic of the signer to send the request with (optional).
    * @returns Promise\<{@link GetNodeAddressesResult}\>
    */
-  public async getNodeAddresses() {
-    return await this.request<GetNodeAddressesRequest, GetNodeAddressesResult>({
-      method: HederaJsonRpcMethod.GetNodeAddresses,
-      params: undefined,
-    })
+  public async getNodeAddresses(selector?: SignerSelector) {
+    return await this.request<GetNodeAddressesRequest, GetNodeAddressesResult>(
+      {
+        method: HederaJsonRpcMethod.GetNodeAddresses,
+        params: undefined,
+      },
+      selector,
+    )
   }
 
   /**
@@ -381,10 +716,16 @@ export class DAppConnector {
    *
    * @param {ExecuteTransactionParams} params - The parameters of type {@link ExecuteTransactionParams | `ExecuteTransactionParams`} required for the transaction execution.
    * @param {string[]} params.signedTransaction - Array of Base64-encoded `Transaction`'s
-   * @returns Promise\<{@link ExecuteTransactionResult}\>
+   * @param {HederaExecutionMode} params.executionMode - how the wallet executes the transactions, in parallel if not set (optional).
+   * @param {boolean} params.waitForReceipt - return the receipt of each transaction, decoded to a `TransactionReceipt` (optional).
+   * @param {SignerSelector} selector - The account and/or session topic of the signer to send the request with (optional).
+   * @returns Promise\<{@link DecodedTransactionExecutionResult}[]\>
    * @example
-   * Use helper `transactionToBase64String` to encode `Transaction` to Base64 string
+   * Use helper `transactionToBase64String` to encode `Transaction` to Base64 string, the
+   * transaction must be frozen with its node account IDs before it is signed
    * ```ts
+   * const signer = dAppConnector.getSigner('0.0.12345')
+   * await signer.signTransaction(await signer.populateTransaction(transaction))
    * const params = {
    *  signedTransaction: [transactionToBase64String(transaction)]
    * }
@@ -392,11 +733,15 @@ export class DAppConnector {
    * const result = await dAppConnector.executeTransaction(params)
    * ```
    */
-  public async executeTransaction(params: ExecuteTransactionParams) {
-    return await this.request<ExecuteTransactionRequest, ExecuteTransactionResult>({
-      method: HederaJsonRpcMethod.ExecuteTransaction,
-      params,
-    })
+  public async executeTransaction(params: ExecuteTransactionParams, selector?: SignerSelector) {
+    const result = await this.request<ExecuteTransactionRequest, ExecuteTransactionResult>(
+      {
+        method: HederaJsonRpcMethod.ExecuteTransaction,
+        params,
+      },
+      selector,
+    )
+    return this.decodeTransactionReceipts(result)
   }
 
   /**
@@ -404,23 +749,24 @@ export class DAppConnector {
    *
    * @param {SignMessageParams} params - The parameters of type {@link SignMessageParams | `SignMessageParams`} required for signing message.
    * @param {string} params.signerAccountId - a signer Hedera Account identifier in {@link https://hips.hedera.com/hip/hip-30 | HIP-30} (`<nework>:<shard>.<realm>.<num>`) form.
-   * @param {string} params.message - a plain UTF-8 string
+   * @param {string} params.message - the base64 encoded UTF-8 message, see {@link buildSignMessageParams}
+   * @param {SignerSelector} selector - The account and/or session topic of the signer to send the request with, the account defaults to `params.signerAccountId` (optional).
    * @returns Promise\<{@link SignMessageResult}\>
    * @example
    * ```ts
-   * const params = {
-   *  signerAccountId: '0.0.12345',
-   *  message: 'Hello World!'
-   * }
+   * const params = buildSignMessageParams('0.0.12345', 'Hello World!')
    *
    * const result = await dAppConnector.signMessage(params)
    * ```
    */
-  public async signMessage(params: SignMessageParams) {
-    return await this.request<SignMessageRequest, SignMessageResult>({
-      method: HederaJsonRpcMethod.SignMessage,
-      params,
-    })
+  public async signMessage(params: SignMessageParams, selector?: SignerSelector) {
+    return await this.request<SignMessageRequest, SignMessageResult>(
+      {
+        method: HederaJsonRpcMethod.SignMessage,
+        params,
+      },
+      this.withSignerAccountId(params.signerAccountId, selector),
+    )
   }
 
   /**
@@ -429,6 +775,7 @@ export class DAppConnector {
    * @param {SignQueryAndSendParams} params - The parameters of type {@link SignQueryAndSendParams | `SignQueryAndSendParams`} required for the Query execution.
    * @param {string} params.signerAccountId - a signer Hedera Account identifier in {@link https://hips.hedera.com/hip/hip-30 | HIP-30} (`<nework>:<shard>.<realm>.<num>`) form.
    * @param {string} params.query - `Query` object represented as Base64 string
+   * @param {SignerSelector} selector - The account and/or session topic of the signer to send the request with, the account defaults to `params.signerAccountId` (optional).
    * @returns Promise\<{@link SignQueryAndSendResult}\>
    * @example
    * Use helper `queryToBase64String` to encode `Query` to Base64 string
@@ -441,11 +788,14 @@ export class DAppConnector {
    * const result = await dAppConnector.signQueryAndSend(params)
    * ```
    */
-  public async signQueryAndSend(params: SignQueryAndSendParams) {
-    return await this.request<SignQueryAndSendRequest, SignQueryAndSendResult>({
-      method: HederaJsonRpcMethod.SignQueryAndSend,
-      params,
-    })
+  public async signQueryAndSend(params: SignQueryAndSendParams, selector?: SignerSelector) {
+    return await this.request<SignQueryAndSendRequest, SignQueryAndSendResult>(
+      {
+        method: HederaJsonRpcMethod.SignQueryAndSend,
+        params,
+      },
+      this.withSignerAccountId(params.signerAccountId, selector),
+    )
   }
 
   /**
@@ -454,50 +804,122 @@ export class DAppConnector {
    * @param {SignAndExecuteTransactionParams} params - The parameters of type {@link SignAndExecuteTransactionParams | `SignAndExecuteTransactionParams`} required for `Transaction` signing and execution.
    * @param {string} params.signerAccountId - a signer Hedera Account identifier in {@link https://hips.hedera.com/hip/hip-30 | HIP-30} (`<nework>:<shard>.<realm>.<num>`) form.
    * @param {string[]} params.transaction - Array of Base64-encoded `Transaction`'s
-   * @returns Promise\<{@link SignAndExecuteTransactionResult}\>
+   * @param {HederaExecutionMode} params.executionMode - how the wallet executes the transactions, in parallel if not set (optional).
+   * @param {boolean} params.waitForReceipt - return the receipt of each transaction, decoded to a `TransactionReceipt` (optional).
+   * @param {SignerSelector} selector - The account and/or session topic of the signer to send the request with, the account defaults to `params.signerAccountId` (optional).
+   * @returns Promise\<{@link DecodedTransactionExecutionResult}[]\>
    * @example
-   * Use helper `transactionToBase64String` to encode `Transaction` to Base64 string
+   * Use helper `transactionToBase64String` to encode `Transaction` to Base64 string, the
+   * transaction must have node account IDs, e.g. set by `DAppSigner.populateTransaction`
    * ```ts
+   * const signer = dAppConnector.getSigner('0.0.12345')
    * const params = {
    *  signerAccountId: '0.0.12345'
-   *  transaction: [transactionToBase64String(transaction)]
+   *  transaction: [transactionToBase64String(await signer.populateTransaction(transaction))]
    * }
    *
    * const result = await dAppConnector.signAndExecuteTransaction(params)
    * ```
    */
-  public async signAndExecuteTransaction(params: SignAndExecuteTransactionParams) {
-    return await this.request<
+  public async signAndExecuteTransaction(
+    params: SignAndExecuteTransactionParams,
+    selector?: SignerSelector,
+  ) {
+    const result = await this.request<
       SignAndExecuteTransactionRequest,
       SignAndExecuteTransactionResult
-    >({
-      method: HederaJsonRpcMethod.SignAndExecuteTransaction,
-      params,
-    })
+    >(
+      {
+        method: HederaJsonRpcMethod.SignAndExecuteTransaction,
+        params,
+      },
+      this.withSignerAccountId(params.signerAccountId, selector),
+    )
+    return this.decodeTransactionReceipts(result)
   }
 
   /**
-   * Signs and executes Transactions on the Hedera network.
+   * Sends a request with the signer of the params' `signerAccountId` unless the selector names
+   * another account.
+   */
+  private withSignerAccountId(
+    signerAccountId: string,
+    selector?: SignerSelector,
+  ): SignerSelector {
+    return { ...selector, signerAccountId: selector?.signerAccountId ?? signerAccountId }
+  }
+
+  /**
+   * Decodes the receipts returned by the wallet with `waitForReceipt` to `TransactionReceipt`.
+   */
+  private decodeTransactionReceipts(
+    result: TransactionExecutionResult[],
+  ): DecodedTransactionExecutionResult[] {
+    return result.map(({ receipt, ...response }) => ({
+      ...response,
+      ...(receipt && { receipt: transactionReceiptFromJSON(receipt) }),
+    }))
+  }
+
+  /**
+   * Signs Transactions without executing them.
    *
-   * @param {SignTransactionParams} params - The parameters of type {@link SignTransactionParams | `SignTransactionParams`} required for `Transaction` signing.
+   * @param {SignTransactionParams | LegacySignTransactionParams} params - The parameters of type {@link SignTransactionParams | `SignTransactionParams`} required for `Transaction` signing, or {@link LegacySignTransactionParams | `LegacySignTransactionParams`} for wallets that predate HIP-820.
    * @param {string} params.signerAccountId - a signer Hedera Account identifier in {@link https://hips.hedera.com/hip/hip-30 | HIP-30} (`<nework>:<shard>.<realm>.<num>`) form.
-   * @param {string[]} params.transaction - Array of Base64-encoded `Transaction`'s
-   * @returns Promise\<{@link SignTransactionResult}\>
+   * @param {string} params.transactionBody - Base64-encoded `TransactionBody`
+   * @param {SignerSelector} selector - The account and/or session topic of the signer to send the request with, the account defaults to `params.signerAccountId` (optional).
+   * @returns Promise\<{@link SignTransactionResult} | {@link LegacySignTransactionResult}\>
    * @example
-   * Use helper `transactionToBase64String` to encode `Transaction` to Base64 string
+   * Use helper `transactionBodyToBase64String` to encode `TransactionBody` to Base64 string, the
+   * transaction must have a single node account ID
    * ```ts
    * const params = {
    *  signerAccountId: '0.0.12345'
-   *  transaction: [transactionToBase64String(transaction)]
+   *  transactionBody: transactionBodyToBase64String(transaction.setNodeAccountIds([nodeId]))
    * }
    *
    * const result = await dAppConnector.signTransaction(params)
    * ```
    */
-  public async signTransaction(params: SignTransactionParams) {
-    return await this.request<SignTransactionRequest, SignTransactionResult>({
-      method: HederaJsonRpcMethod.SignTransaction,
-      params,
-    })
+  public async signTransaction(
+    params: SignTransactionParams | LegacySignTransactionParams,
+    selector?: SignerSelector,
+  ) {
+    return await this.request<
+      SignTransactionRequest,
+      SignTransactionResult | LegacySignTransactionResult
+    >(
+      {
+        method: HederaJsonRpcMethod.SignTransaction,
+        params,
+      },
+      this.withSignerAccountId(params.signerAccountId, selector),
+    )
+  }
+
+  /**
+   * Signs a `Transaction` with the wallet and adds the returned signatures to it.
+   *
+   * The request is sent by the signer of `signerAccountId`, which respects
+   * `useLegacySignTransaction`, and the signed transaction is reassembled locally.
+   * @param signerAccountId - The signer's account ID
+   * @param transaction - Any instance of a class that extends `Transaction`
+   * @param topic - The topic of the session to send the request to (optional)
+   * @returns Promise\<T\> - the same transaction with the wallet's signatures added
+   * @example
+   * ```ts
+   * const transaction = new TransferTransaction()
+   *   .addHbarTransfer('0.0.12345', new Hbar(-1))
+   *   .addHbarTransfer('0.0.54321', new Hbar(1))
+   *
+   * const signedTransaction = await dAppConnector.signAndReturnTransaction('0.0.12345', transaction)
+   * ```
+   */
+  public async signAndReturnTransaction<T extends Transaction>(
+    signerAccountId: AccountId | string,
+    transaction: T,
+    topic?: string,
+  ): Promise<T> {
+    return await this.getSigner(signerAccountId, undefined, topic).signTransaction(transaction)
   }
 }
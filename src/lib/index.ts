@@ -1,3 +1,8 @@
 export * from './shared'
 export { default as Wallet } from './wallet'
+export * from './wallet/policy'
+export * from './wallet/keystore'
+export * from './wallet/signer'
+export * from './wallet/decoder'
+export * from './wallet/types'
 export * from './dapp'
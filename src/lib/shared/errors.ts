@@ -2,6 +2,7 @@
  * This file defines error handling related to Hedera operations.
  * @see {@link https://github.com/WalletConnect/walletconnect-monorepo/blob/v2.0/packages/utils/src/errors.ts | WalletConnect Errors}
  */
+import { Status } from '@hashgraph/sdk'
 
 /**
  * Represents keys of Hedera error types.
@@ -30,23 +31,88 @@ export interface HederaErrorResponse<T = any> {
 /**
  * Object containing specific Hedera errors with their respective codes and messages.
  */
-export const HEDERA_ERRORS: { [key: string]: Pick<HederaErrorResponse, 'code' | 'message'> } = {
+export const HEDERA_ERRORS = {
+  // the request params are missing or malformed
   INVALID_PARAMS: {
     code: -1,
     message: 'INVALID_PARAMS',
   },
-}
+  // the user, or the approval policy of the wallet, rejected the request
+  USER_REJECTED: {
+    code: -2,
+    message: 'USER_REJECTED',
+  },
+  // the wallet does not support the requested method
+  UNSUPPORTED_METHOD: {
+    code: -3,
+    message: 'UNSUPPORTED_METHOD',
+  },
+  // the signer account is not an account of the session, or cannot sign for the request
+  UNAUTHORIZED_ACCOUNT: {
+    code: -4,
+    message: 'UNAUTHORIZED_ACCOUNT',
+  },
+  // the chain of the request does not match the chain of the signer
+  CHAIN_MISMATCH: {
+    code: -5,
+    message: 'CHAIN_MISMATCH',
+  },
+  // the transaction or query failed the precheck of the node
+  PRECHECK_FAILED: {
+    code: -6,
+    message: 'PRECHECK_FAILED',
+  },
+  // the transaction reached consensus with a status other than `SUCCESS`
+  RECEIPT_FAILED: {
+    code: -7,
+    message: 'RECEIPT_FAILED',
+  },
+  // the valid duration of the transaction has passed, or has not started yet
+  TRANSACTION_EXPIRED: {
+    code: -8,
+    message: 'TRANSACTION_EXPIRED',
+  },
+  // the session of the request has expired or was disconnected
+  SESSION_EXPIRED: {
+    code: -9,
+    message: 'SESSION_EXPIRED',
+  },
+} satisfies { [key: string]: Pick<HederaErrorResponse, 'code' | 'message'> }
 
 /**
- * Represents a JSON-RPC error for Hedera operations.
+ * Represents a JSON-RPC error response for Hedera operations.
  * @param T - Generic type for additional data in the error response.
  */
-export interface HederaJsonRpcError<T = any> {
+export interface HederaJsonRpcErrorResponse<T = any> {
   id: number
   jsonrpc: '2.0'
   error: HederaErrorResponse<T>
 }
 
+/**
+ * Represents a JSON-RPC error for Hedera operations. `DAppSigner.request` rejects error responses
+ * of the wallet with the subclass matching the code, e.g. `UserRejectedError`.
+ * @param T - Generic type for additional data in the error response.
+ */
+export class HederaJsonRpcError<T = any>
+  extends Error
+  implements HederaJsonRpcErrorResponse<T>
+{
+  name = 'HederaJsonRpcError'
+  readonly jsonrpc = '2.0'
+
+  /**
+   * @param error - The error of the response
+   * @param id - The id of the JSON-RPC request, 0 when it is unknown (optional)
+   */
+  constructor(
+    public error: HederaErrorResponse<T>,
+    public id = 0,
+  ) {
+    super(error.message)
+  }
+}
+
 /**
  * Generates a Hedera error response based on the provided key, context, and additional data.
  * @param key - Key representing the specific error type.
@@ -55,7 +121,7 @@ export interface HederaJsonRpcError<T = any> {
  * @returns A HederaErrorResponse object with the specified code, message, and additional data.
  */
 export function getHederaError<T>(
-  key: string,
+  key: HederaErrorKey,
   context?: string | number,
   data?: T,
 ): HederaErrorResponse<T> {
@@ -66,3 +132,42 @@ export function getHederaError<T>(
     data,
   }
 }
+
+/**
+ * SDK `Status` codes mapped to a more specific error than `PRECHECK_FAILED` or `RECEIPT_FAILED`.
+ */
+export const HEDERA_STATUS_ERRORS: { [statusCode: number]: HederaErrorKey } = {
+  [Status.TransactionExpired._code]: 'TRANSACTION_EXPIRED',
+  [Status.InvalidTransactionStart._code]: 'TRANSACTION_EXPIRED',
+  [Status.InvalidSignature._code]: 'UNAUTHORIZED_ACCOUNT',
+  [Status.PayerAccountNotFound._code]: 'UNAUTHORIZED_ACCOUNT',
+  [Status.PayerAccountUnauthorized._code]: 'UNAUTHORIZED_ACCOUNT',
+  [Status.Unauthorized._code]: 'UNAUTHORIZED_ACCOUNT',
+  [Status.WrongChainId._code]: 'CHAIN_MISMATCH',
+}
+
+/**
+ * Maps an SDK `Status`, or its code such as the `precheckCode` of an executed transaction, to the
+ * key of a Hedera error, so failures can be handled without parsing status names.
+ * @param status - `Status` or status code
+ * @param stage - Whether the status is a precheck status or a receipt status, defaults to `precheck`
+ * @returns The key of the Hedera error, or `undefined` for `OK` and `SUCCESS`
+ * @example
+ * ```ts
+ * const [{ precheckCode }] = await dAppConnector.signAndExecuteTransaction(params)
+ * if (precheckCode && getHederaErrorKeyFromStatus(precheckCode) === 'TRANSACTION_EXPIRED') {
+ *   // rebuild the transaction with a new transaction ID
+ * }
+ * ```
+ */
+export function getHederaErrorKeyFromStatus(
+  status: Status | number,
+  stage: 'precheck' | 'receipt' = 'precheck',
+): HederaErrorKey | undefined {
+  const code = typeof status === 'number' ? status : status._code
+  if (code === Status.Ok._code || code === Status.Success._code) return undefined
+
+  return (
+    HEDERA_STATUS_ERRORS[code] ?? (stage === 'receipt' ? 'RECEIPT_FAILED' : 'PRECHECK_FAILED')
+  )
+}
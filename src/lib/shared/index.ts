@@ -2,5 +2,8 @@ export * from './chainIds'
 export * from './errors'
 export * from './events'
 export * from './methods'
+export * from './mirrorNode'
+export * from './params'
 export * from './payloads'
+export * from './schemas'
 export * from './utils'
@@ -10,3 +10,27 @@ export enum HederaJsonRpcMethod {
   SignAndExecuteTransaction = 'hedera_signAndExecuteTransaction', // 5
   SignTransaction = 'hedera_signTransaction', // 6
 }
+
+/**
+ * Checks whether a JSON-RPC method is one of the `HederaJsonRpcMethod`s.
+ * @param method - The JSON-RPC method
+ * @returns boolean
+ */
+export function isHederaJsonRpcMethod(method: string): method is HederaJsonRpcMethod {
+  return (Object.values(HederaJsonRpcMethod) as string[]).includes(method)
+}
+
+/**
+ * Execution modes of the transactions of `hedera_executeTransaction` and
+ * `hedera_signAndExecuteTransaction`.
+ *
+ * - `Parallel` submits all transactions at once, without waiting for their receipts.
+ * - `Sequential` submits the transactions one after another, waiting for the receipt of each.
+ * - `SequentialStopOnFailure` is `Sequential`, but skips the remaining transactions after the
+ *   first failed one.
+ */
+export enum HederaExecutionMode {
+  Parallel = 'parallel',
+  Sequential = 'sequential',
+  SequentialStopOnFailure = 'sequentialStopOnFailure',
+}
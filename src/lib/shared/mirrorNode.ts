@@ -0,0 +1,346 @@
+import { Buffer } from 'buffer'
+import {
+  AccountBalance,
+  AccountId,
+  AccountInfo,
+  Key,
+  LedgerId,
+  PublicKey,
+  TokenId,
+  TransactionId,
+  TransactionRecord,
+} from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+
+/**
+ * Defines a client for the Hedera mirror node REST API, used to answer account reads
+ * without sending requests to the wallet.
+ *
+ * @see {@link https://docs.hedera.com/hedera/sdks-and-apis/rest-api | Mirror Node REST API}
+ */
+
+/**
+ * A mapping of `LedgerId` to the base URL of a public mirror node REST API.
+ *
+ * Structure: [`LedgerId`, `string` (mirror node REST API base URL)][]
+ */
+export const MIRROR_NODE_URL_MAPPINGS: [LedgerId, string][] = [
+  [LedgerId.MAINNET, 'https://mainnet-public.mirrornode.hedera.com'],
+  [LedgerId.TESTNET, 'https://testnet.mirrornode.hedera.com'],
+  [LedgerId.PREVIEWNET, 'https://previewnet.mirrornode.hedera.com'],
+  [LedgerId.LOCAL_NODE, 'http://localhost:5551'],
+]
+
+/**
+ * Key as returned by the mirror node REST API.
+ */
+export interface MirrorNodeKey {
+  _type: 'ED25519' | 'ECDSA_SECP256K1' | 'ProtobufEncoded'
+  key: string
+}
+
+/**
+ * Response of the mirror node `/api/v1/accounts/{id}` endpoint.
+ */
+export interface MirrorNodeAccount {
+  account: string
+  auto_renew_period: number | null
+  balance: {
+    balance: number
+    timestamp: string
+    tokens: { token_id: string; balance: number }[]
+  }
+  decline_reward: boolean
+  deleted: boolean
+  ethereum_nonce: number | null
+  evm_address: string | null
+  expiry_timestamp: string | null
+  key: MirrorNodeKey | null
+  max_automatic_token_associations: number
+  memo: string
+  pending_reward: number
+  receiver_sig_required: boolean | null
+  staked_account_id: string | null
+  staked_node_id: number | null
+  stake_period_start: string | null
+}
+
+/**
+ * Transaction as returned by the mirror node `/api/v1/transactions` endpoint.
+ */
+export interface MirrorNodeTransaction {
+  charged_tx_fee: number
+  consensus_timestamp: string
+  memo_base64: string
+  result: string
+  transaction_hash: string
+  transaction_id: string
+  transfers?: { account: string; amount: number }[]
+  token_transfers?: { token_id: string; account: string; amount: number }[]
+  nft_transfers?: {
+    token_id: string
+    receiver_account_id: string | null
+    sender_account_id: string | null
+    serial_number: number
+  }[]
+}
+
+/**
+ * Client used by `DAppSigner` to read account state. Implement this interface to plug in a
+ * different data source, e.g. a self-hosted mirror node or a cache.
+ */
+export interface MirrorNodeClient {
+  getAccountBalance(accountId: AccountId | string): Promise<AccountBalance>
+  getAccountInfo(accountId: AccountId | string): Promise<AccountInfo>
+  getAccountRecords(accountId: AccountId | string): Promise<TransactionRecord[]>
+  getAccountKey(accountId: AccountId | string): Promise<Key>
+}
+
+/**
+ * Converts a mirror node timestamp (`<seconds>.<nanos>`) to a protobuf `Timestamp`.
+ * @param timestamp - mirror node timestamp string
+ * @returns `proto.ITimestamp`
+ */
+function timestampToProtobuf(timestamp: string): proto.ITimestamp {
+  const [seconds, nanos = '0'] = timestamp.split('.')
+  return { seconds: Number(seconds), nanos: Number(nanos) }
+}
+
+/**
+ * Converts a mirror node transaction id (`<payer>-<seconds>-<nanos>`) to a `TransactionId`.
+ * @param transactionId - mirror node transaction id string
+ * @returns `TransactionId`
+ */
+function mirrorNodeTransactionIdToTransactionId(transactionId: string): TransactionId {
+  const [payer, seconds, nanos] = transactionId.split('-')
+  return TransactionId.fromString(`${payer}@${seconds}.${nanos}`)
+}
+
+/**
+ * Converts a key returned by the mirror node REST API to a `Key`.
+ * @param key - `MirrorNodeKey` object
+ * @returns `Key`
+ */
+export function mirrorNodeKeyToKey(key: MirrorNodeKey): Key {
+  switch (key._type) {
+    case 'ED25519':
+      return PublicKey.fromStringED25519(key.key)
+    case 'ECDSA_SECP256K1':
+      return PublicKey.fromStringECDSA(key.key)
+    case 'ProtobufEncoded':
+      return Key._fromProtobufKey(proto.Key.decode(Buffer.from(key.key, 'hex')))
+    default:
+      throw new Error(`Unsupported mirror node key type: ${(key as MirrorNodeKey)._type}`)
+  }
+}
+
+/**
+ * Converts an account returned by the mirror node REST API to an `AccountBalance`.
+ * @param account - `MirrorNodeAccount` object
+ * @returns `AccountBalance`
+ */
+export function mirrorNodeAccountToAccountBalance(account: MirrorNodeAccount): AccountBalance {
+  return AccountBalance._fromProtobuf({
+    accountID: AccountId.fromString(account.account)._toProtobuf(),
+    balance: account.balance.balance,
+    tokenBalances: account.balance.tokens.map(({ token_id, balance }) => ({
+      tokenId: TokenId.fromString(token_id)._toProtobuf(),
+      balance,
+    })),
+  })
+}
+
+/**
+ * Converts an account returned by the mirror node REST API to an `AccountInfo`.
+ * @param account - `MirrorNodeAccount` object
+ * @param ledgerId - `LedgerId` of the mirror node (optional)
+ * @returns `AccountInfo`
+ */
+export function mirrorNodeAccountToAccountInfo(
+  account: MirrorNodeAccount,
+  ledgerId?: LedgerId,
+): AccountInfo {
+  if (!account.key) throw new Error(`Account ${account.account} has no key`)
+
+  return AccountInfo._fromProtobuf({
+    accountID: AccountId.fromString(account.account)._toProtobuf(),
+    contractAccountID: account.evm_address?.replace(/^0x/, '') ?? null,
+    deleted: account.deleted,
+    key: mirrorNodeKeyToKey(account.key)._toProtobufKey(),
+    balance: account.balance.balance,
+    receiverSigRequired: account.receiver_sig_required ?? false,
+    expirationTime: account.expiry_timestamp
+      ? timestampToProtobuf(account.expiry_timestamp)
+      : { seconds: 0, nanos: 0 },
+    autoRenewPeriod:
+      account.auto_renew_period != null ? { seconds: account.auto_renew_period } : null,
+    memo: account.memo,
+    maxAutomaticTokenAssociations: account.max_automatic_token_associations,
+    ledgerId: ledgerId?.toBytes() ?? null,
+    ethereumNonce: account.ethereum_nonce,
+    stakingInfo: {
+      declineReward: account.decline_reward,
+      pendingReward: account.pending_reward,
+      stakePeriodStart: account.stake_period_start
+        ? timestampToProtobuf(account.stake_period_start)
+        : null,
+      stakedAccountId: account.staked_account_id
+        ? AccountId.fromString(account.staked_account_id)._toProtobuf()
+        : null,
+      stakedNodeId: account.staked_node_id,
+    },
+  })
+}
+
+/**
+ * Converts a transaction returned by the mirror node REST API to a `TransactionRecord`.
+ * @param transaction - `MirrorNodeTransaction` object
+ * @returns `TransactionRecord`
+ */
+export function mirrorNodeTransactionToTransactionRecord(
+  transaction: MirrorNodeTransaction,
+): TransactionRecord {
+  const tokenTransferLists = new Map<string, proto.ITokenTransferList>()
+  const tokenTransferList = (tokenId: string) => {
+    if (!tokenTransferLists.has(tokenId)) {
+      tokenTransferLists.set(tokenId, {
+        token: TokenId.fromString(tokenId)._toProtobuf(),
+        transfers: [],
+        nftTransfers: [],
+      })
+    }
+    return tokenTransferLists.get(tokenId)!
+  }
+
+  for (const { token_id, account, amount } of transaction.token_transfers ?? []) {
+    tokenTransferList(token_id).transfers!.push({
+      accountID: AccountId.fromString(account)._toProtobuf(),
+      amount,
+    })
+  }
+  for (const nftTransfer of transaction.nft_transfers ?? []) {
+    tokenTransferList(nftTransfer.token_id).nftTransfers!.push({
+      senderAccountID: nftTransfer.sender_account_id
+        ? AccountId.fromString(nftTransfer.sender_account_id)._toProtobuf()
+        : null,
+      receiverAccountID: nftTransfer.receiver_account_id
+        ? AccountId.fromString(nftTransfer.receiver_account_id)._toProtobuf()
+        : null,
+      serialNumber: nftTransfer.serial_number,
+    })
+  }
+
+  return TransactionRecord._fromProtobuf({
+    transactionRecord: {
+      receipt: {
+        status:
+          proto.ResponseCodeEnum[transaction.result as keyof typeof proto.ResponseCodeEnum],
+      },
+      transactionHash: Buffer.from(transaction.transaction_hash, 'base64'),
+      consensusTimestamp: timestampToProtobuf(transaction.consensus_timestamp),
+      transactionID: mirrorNodeTransactionIdToTransactionId(
+        transaction.transaction_id,
+      )._toProtobuf(),
+      memo: Buffer.from(transaction.memo_base64 ?? '', 'base64').toString('utf-8'),
+      transactionFee: transaction.charged_tx_fee,
+      transferList: {
+        accountAmounts: (transaction.transfers ?? []).map(({ account, amount }) => ({
+          accountID: AccountId.fromString(account)._toProtobuf(),
+          amount,
+        })),
+      },
+      tokenTransferLists: [...tokenTransferLists.values()],
+    },
+  })
+}
+
+/**
+ * `MirrorNodeClient` implementation backed by the mirror node REST API.
+ */
+export class MirrorNodeRestClient implements MirrorNodeClient {
+  /**
+   * Creates a new MirrorNodeRestClient instance.
+   * @param url - Base URL of the mirror node REST API, e.g. `https://testnet.mirrornode.hedera.com`
+   * @param ledgerId - `LedgerId` served by the mirror node (optional)
+   * @param fetchImplementation - `fetch` implementation used to send requests (optional)
+   */
+  constructor(
+    public readonly url: string,
+    public readonly ledgerId?: LedgerId,
+    private readonly fetchImplementation?: typeof fetch,
+  ) {}
+
+  /**
+   * Creates a MirrorNodeRestClient for the public mirror node of a given `LedgerId`.
+   *
+   * Throws error when there is no known mirror node for the `LedgerId`.
+   * @param ledgerId - The `LedgerId` of the network
+   * @returns A new MirrorNodeRestClient instance.
+   */
+  static forLedgerId(ledgerId: LedgerId): MirrorNodeRestClient {
+    const mapping = MIRROR_NODE_URL_MAPPINGS.find(
+      ([ledgerId_]) => ledgerId.toString() === ledgerId_.toString(),
+    )
+    if (!mapping) throw new Error(`No mirror node is known for ledger ${ledgerId.toString()}`)
+
+    return new MirrorNodeRestClient(mapping[1], ledgerId)
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    // the global `fetch` is looked up per request, so the client can be created without it
+    const fetch = this.fetchImplementation ?? globalThis.fetch.bind(globalThis)
+    const response = await fetch(`${this.url.replace(/\/$/, '')}${path}`)
+    if (!response.ok) {
+      throw new Error(`Mirror node request ${path} failed with status ${response.status}`)
+    }
+
+    return (await response.json()) as T
+  }
+
+  private getAccount(accountId: AccountId | string): Promise<MirrorNodeAccount> {
+    return this.get<MirrorNodeAccount>(`/api/v1/accounts/${accountId.toString()}`)
+  }
+
+  /**
+   * Retrieves the account balance for a given account ID.
+   * @param accountId - The account ID for which to retrieve the balance.
+   * @returns Promise\<AccountBalance\>
+   */
+  async getAccountBalance(accountId: AccountId | string): Promise<AccountBalance> {
+    return mirrorNodeAccountToAccountBalance(await this.getAccount(accountId))
+  }
+
+  /**
+   * Retrieves the account information for a given account ID.
+   * @param accountId - The account ID for which to retrieve the information.
+   * @returns Promise\<AccountInfo\>
+   */
+  async getAccountInfo(accountId: AccountId | string): Promise<AccountInfo> {
+    return mirrorNodeAccountToAccountInfo(await this.getAccount(accountId), this.ledgerId)
+  }
+
+  /**
+   * Retrieves the most recent transaction records for a given account ID.
+   * @param accountId - The account ID for which to retrieve the records.
+   * @returns Promise\<TransactionRecord[]\>
+   */
+  async getAccountRecords(accountId: AccountId | string): Promise<TransactionRecord[]> {
+    const { transactions } = await this.get<{ transactions: MirrorNodeTransaction[] }>(
+      `/api/v1/transactions?account.id=${accountId.toString()}&order=desc`,
+    )
+
+    return transactions.map(mirrorNodeTransactionToTransactionRecord)
+  }
+
+  /**
+   * Retrieves the key of a given account ID.
+   * @param accountId - The account ID for which to retrieve the key.
+   * @returns Promise\<Key\>
+   */
+  async getAccountKey(accountId: AccountId | string): Promise<Key> {
+    const { key } = await this.getAccount(accountId)
+    if (!key) throw new Error(`Account ${accountId.toString()} has no key`)
+
+    return mirrorNodeKeyToKey(key)
+  }
+}
@@ -0,0 +1,336 @@
+import { Buffer } from 'buffer'
+import { AccountId, Query, Transaction } from '@hashgraph/sdk'
+import { getHederaError } from './errors'
+import { HederaExecutionMode, HederaJsonRpcMethod } from './methods'
+import {
+  ExecuteTransactionParams,
+  LegacySignTransactionParams,
+  SignAndExecuteTransactionParams,
+  SignMessageParams,
+  SignQueryAndSendParams,
+  SignTransactionParams,
+  TransactionExecutionOptions,
+} from './payloads'
+import { validateHederaJsonRpcParams } from './schemas'
+import {
+  base64StringToMessage,
+  base64StringToQuery,
+  base64StringToTransaction,
+  base64StringToTransactionBody,
+  base64StringToUint8Array,
+  queryToBase64String,
+  transactionBodyToBase64String,
+  transactionToBase64String,
+} from './utils'
+
+/**
+ * Builds the params of Hedera JSON-RPC requests on the dApp side and parses them on the wallet
+ * side, so both sides always agree on the payload. Every builder sets `version`, parsers treat
+ * params without `version` as version 1 and reject versions they do not support.
+ */
+
+/**
+ * The version of the params built by this library.
+ */
+export const HEDERA_PARAMS_VERSION = 1
+
+/**
+ * The versions of params this library can parse.
+ */
+export const SUPPORTED_HEDERA_PARAMS_VERSIONS: number[] = [1]
+
+/*
+ * Builders
+ */
+
+/**
+ * Builds params for `hedera_executeTransaction`.
+ * @param transactions - Signed `Transaction` or an array of them
+ * @param options - How the wallet executes the transactions and whether it returns their
+ * receipts (optional).
+ * @returns `ExecuteTransactionParams`
+ */
+export function buildExecuteTransactionParams(
+  transactions: Transaction | Transaction[],
+  options?: TransactionExecutionOptions,
+): ExecuteTransactionParams {
+  return {
+    signedTransaction: [transactions].flat().map(transactionToBase64String),
+    ...options,
+    version: HEDERA_PARAMS_VERSION,
+  }
+}
+
+/**
+ * Builds params for `hedera_signMessage`.
+ *
+ * account ID - Hedera Account identifier in {@link https://hips.hedera.com/hip/hip-30 | HIP-30} (`<nework>:<shard>.<realm>.<num>`) form.
+ * @param signerAccountId - The signer's account ID.
+ * @param message - The message to be signed, a UTF-8 string or its bytes.
+ * @returns An object containing signer's account ID and base64 encoded message.
+ */
+export function buildSignMessageParams(
+  signerAccountId: AccountId | string,
+  message: Uint8Array | string,
+): SignMessageParams
+/**
+ * @deprecated Pass the message itself, `hedera_signMessage` signs a single message per request.
+ * The array must hold exactly one message.
+ */
+export function buildSignMessageParams(
+  signerAccountId: AccountId | string,
+  messages: (Uint8Array | string)[],
+): SignMessageParams
+export function buildSignMessageParams(
+  signerAccountId: AccountId | string,
+  message: Uint8Array | string | (Uint8Array | string)[],
+): SignMessageParams {
+  if (Array.isArray(message) && message.length !== 1) {
+    throw new Error(
+      `hedera_signMessage signs a single message, got ${message.length}. ` +
+        'Send one request per message',
+    )
+  }
+  return {
+    signerAccountId: signerAccountId.toString(),
+    message: Buffer.from(Array.isArray(message) ? message[0] : message).toString('base64'),
+    version: HEDERA_PARAMS_VERSION,
+  }
+}
+
+/**
+ * Builds params for `hedera_signQueryAndSend`.
+ * @param signerAccountId - The signer's account ID.
+ * @param query - The query to be signed and sent.
+ * @returns An object containing signer's account ID and base64 encoded query.
+ */
+export function buildSignQueryAndSendParams(
+  signerAccountId: AccountId | string,
+  query: Query<any>,
+): SignQueryAndSendParams {
+  return {
+    signerAccountId: signerAccountId.toString(),
+    query: queryToBase64String(query),
+    version: HEDERA_PARAMS_VERSION,
+  }
+}
+
+/**
+ * Builds params for signing and executing a transaction with `hedera_signAndExecuteTransaction`.
+ *
+ * @param signerAccountId - The signer's account ID.
+ * @param transaction - The transaction object to be signed and executed, or an array of them.
+ * @param options - How the wallet executes the transactions and whether it returns their
+ * receipts (optional).
+ * @returns An object containing the signer's account ID and base64 encoded transactions.
+ */
+export function buildSignAndExecuteTransactionParams(
+  signerAccountId: AccountId | string,
+  transaction: Transaction | Transaction[],
+  options?: TransactionExecutionOptions,
+): SignAndExecuteTransactionParams {
+  return {
+    signerAccountId: signerAccountId.toString(),
+    transaction: [transaction].flat().map(transactionToBase64String),
+    ...options,
+    version: HEDERA_PARAMS_VERSION,
+  }
+}
+
+/**
+ * Builds params for signing the HIP-820 `transactionBody` of a transaction with
+ * `hedera_signTransaction`.
+ *
+ * @param signerAccountId - The signer's account ID.
+ * @param transaction - The transaction object to be signed.
+ * @returns An object containing the signer's account ID and base64 encoded transaction body.
+ */
+export function buildSignTransactionParams(
+  signerAccountId: AccountId | string,
+  transaction: Transaction,
+): SignTransactionParams {
+  return {
+    signerAccountId: signerAccountId.toString(),
+    transactionBody: transactionBodyToBase64String(transaction),
+    version: HEDERA_PARAMS_VERSION,
+  }
+}
+
+/**
+ * Builds legacy params for signing and returning a transaction with `hedera_signTransaction`,
+ * for wallets that predate HIP-820 `transactionBody` support.
+ *
+ * @param signerAccountId - The signer's account ID.
+ * @param transaction - The transaction object to be signed, or an array of them.
+ * @returns An object containing the signer's account ID and base64 encoded transactions.
+ */
+export function buildSignAndReturnTransactionParams(
+  signerAccountId: AccountId | string,
+  transaction: Transaction | Transaction[],
+): LegacySignTransactionParams {
+  return {
+    signerAccountId: signerAccountId.toString(),
+    transaction: [transaction].flat().map(transactionToBase64String),
+    version: HEDERA_PARAMS_VERSION,
+  }
+}
+
+/*
+ * Parsers
+ */
+
+/**
+ * Parses `signerAccountId` in HIP-30 (`<network>:<shard>.<realm>.<num>`) or CAIP-10
+ * (`hedera:<network>:<shard>.<realm>.<num>`) form, a plain account ID is accepted as well.
+ * @param signerAccountId - The signer's account ID
+ * @returns `AccountId`
+ */
+export function parseSignerAccountId(signerAccountId: string): AccountId {
+  try {
+    return AccountId.fromString(signerAccountId.split(':').pop()!)
+  } catch (e) {
+    throw getHederaError<string>('INVALID_PARAMS', `Invalid signerAccountId ${signerAccountId}`)
+  }
+}
+
+/**
+ * Validates params against the schema of the method and checks that their version is supported.
+ * Throws `INVALID_PARAMS` errors otherwise.
+ */
+function checkParams(method: HederaJsonRpcMethod, params: any): void {
+  const issue = validateHederaJsonRpcParams(method, params)
+  if (issue) throw getHederaError<string>('INVALID_PARAMS', issue)
+
+  const version = params?.version ?? 1
+  if (!SUPPORTED_HEDERA_PARAMS_VERSIONS.includes(version)) {
+    throw getHederaError<string>(
+      'INVALID_PARAMS',
+      `Unsupported params version ${version}, ` +
+        `supported versions are ${SUPPORTED_HEDERA_PARAMS_VERSIONS.join(', ')}`,
+    )
+  }
+}
+
+/**
+ * Sets the defaults of the options of the methods which execute transactions.
+ */
+function parseTransactionExecutionOptions({
+  executionMode = HederaExecutionMode.Parallel,
+  waitForReceipt = false,
+}: TransactionExecutionOptions): Required<TransactionExecutionOptions> {
+  return { executionMode, waitForReceipt }
+}
+
+/**
+ * Parses params of `hedera_getNodeAddresses`, which has no params.
+ * @param params - The request params
+ * @returns The parsed request, without a body and signer account
+ */
+export function parseGetNodeAddressesParams(params: any): {
+  body: undefined
+  accountId: undefined
+} {
+  checkParams(HederaJsonRpcMethod.GetNodeAddresses, params)
+  return { body: undefined, accountId: undefined }
+}
+
+/**
+ * Parses params of `hedera_executeTransaction`.
+ * @param params - The request params
+ * @returns The parsed request, `body` is the array of signed transactions
+ */
+export function parseExecuteTransactionParams(params: ExecuteTransactionParams): {
+  body: Transaction[]
+  accountId: undefined
+  options: Required<TransactionExecutionOptions>
+} {
+  checkParams(HederaJsonRpcMethod.ExecuteTransaction, params)
+  return {
+    body: params.signedTransaction.map((transaction) => base64StringToTransaction(transaction)),
+    accountId: undefined,
+    options: parseTransactionExecutionOptions(params),
+  }
+}
+
+/**
+ * Parses params of `hedera_signMessage`.
+ * @param params - The request params
+ * @returns The parsed request, `body` is the `"\x19Hedera Signed Message:\n"` prefixed message
+ */
+export function parseSignMessageParams(params: SignMessageParams): {
+  body: Uint8Array[]
+  accountId: AccountId
+} {
+  checkParams(HederaJsonRpcMethod.SignMessage, params)
+  return {
+    body: base64StringToMessage(params.message),
+    accountId: parseSignerAccountId(params.signerAccountId),
+  }
+}
+
+/**
+ * Parses params of `hedera_signQueryAndSend`.
+ * @param params - The request params
+ * @returns The parsed request, `body` is the query
+ */
+export function parseSignQueryAndSendParams(params: SignQueryAndSendParams): {
+  body: Query<any>
+  accountId: AccountId
+} {
+  checkParams(HederaJsonRpcMethod.SignQueryAndSend, params)
+  return {
+    body: base64StringToQuery(params.query),
+    accountId: parseSignerAccountId(params.signerAccountId),
+  }
+}
+
+/**
+ * Parses params of `hedera_signAndExecuteTransaction`.
+ * @param params - The request params
+ * @returns The parsed request, `body` is the array of transactions
+ */
+export function parseSignAndExecuteTransactionParams(params: SignAndExecuteTransactionParams): {
+  body: Transaction[]
+  accountId: AccountId
+  options: Required<TransactionExecutionOptions>
+} {
+  checkParams(HederaJsonRpcMethod.SignAndExecuteTransaction, params)
+  return {
+    body: params.transaction.map((transaction) => base64StringToTransaction(transaction)),
+    accountId: parseSignerAccountId(params.signerAccountId),
+    options: parseTransactionExecutionOptions(params),
+  }
+}
+
+/**
+ * Parses params of `hedera_signTransaction`.
+ * @param params - The request params, HIP-820 or legacy
+ * @returns The parsed request, `body` is the HIP-820 `TransactionBody` bytes, which are signed
+ * as is, or the legacy array of transactions
+ */
+export function parseSignTransactionParams(
+  params: SignTransactionParams | LegacySignTransactionParams,
+): {
+  body: Uint8Array | Transaction[]
+  accountId: AccountId
+} {
+  checkParams(HederaJsonRpcMethod.SignTransaction, params)
+  const accountId = parseSignerAccountId(params.signerAccountId)
+
+  if ('transactionBody' in params) {
+    try {
+      base64StringToTransactionBody(params.transactionBody)
+    } catch (e) {
+      throw getHederaError<string>(
+        'INVALID_PARAMS',
+        'Invalid value for params.transactionBody, expected TransactionBody bytes',
+      )
+    }
+    return { body: base64StringToUint8Array(params.transactionBody), accountId }
+  }
+
+  return {
+    body: params.transaction.map((transaction) => base64StringToTransaction(transaction)),
+    accountId,
+  }
+}
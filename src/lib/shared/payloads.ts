@@ -1,13 +1,104 @@
 import { JsonRpcResult } from '@walletconnect/jsonrpc-types'
 import { EngineTypes } from '@walletconnect/types'
-import type { TransactionResponseJSON } from '@hashgraph/sdk'
+import type { TransactionReceipt, TransactionResponseJSON } from '@hashgraph/sdk'
 // import type { PrecheckStatusErrorJSON } from '@hashgraph/sdk/lib/PrecheckStatusError'
-import { HederaJsonRpcMethod } from './methods'
+import { HederaExecutionMode, HederaJsonRpcMethod } from './methods'
 
 /**
  * Defines various types and interfaces for Hedera JSON-RPC methods.
  */
 
+/**
+ * Base of the params of every method that has params.
+ */
+export interface VersionedParams {
+  /*
+   * version - the version of the params, see `HEDERA_PARAMS_VERSION`, version 1 if not set
+   */
+  version?: number
+}
+
+/**
+ * Options of `hedera_executeTransaction` and `hedera_signAndExecuteTransaction`.
+ */
+export interface TransactionExecutionOptions {
+  /*
+   * executionMode - how the transactions are executed, `HederaExecutionMode.Parallel` if not set
+   */
+  executionMode?: HederaExecutionMode
+  /*
+   * waitForReceipt - return the receipt of each executed transaction
+   */
+  waitForReceipt?: boolean
+}
+
+/**
+ * Receipt of a transaction executed by the wallet, see `transactionReceiptToJSON`.
+ */
+export interface HederaTransactionReceiptJSON {
+  /*
+   * status - the `Status` code of the receipt
+   */
+  status: number
+  // IDs of the created entities
+  accountId: string | null
+  tokenId: string | null
+  topicId: string | null
+  contractId: string | null
+  fileId: string | null
+  /*
+   * serials - serial numbers of the minted NFTs
+   */
+  serials: string[]
+  /*
+   * exchangeRate - the current exchange rate, `expirationTime` is in seconds since the epoch
+   */
+  exchangeRate: { hbars: number; cents: number; expirationTime: number } | null
+}
+
+/**
+ * Status of a transaction executed by the wallet:
+ * - `submitted` - passed precheck, the receipt was not awaited (`HederaExecutionMode.Parallel`)
+ * - `success` - the receipt status is `SUCCESS`
+ * - `failed` - failed precheck or receipt, see `precheckCode` and `receiptCode`
+ * - `skipped` - not submitted after a failure (`HederaExecutionMode.SequentialStopOnFailure`)
+ */
+export type TransactionExecutionStatus = 'submitted' | 'success' | 'failed' | 'skipped'
+
+/**
+ * Response of a transaction executed by the wallet, one per transaction of the request.
+ */
+export type TransactionExecutionResult = TransactionResponseJSON & {
+  /*
+   * precheckCode - the `Status` code of the precheck, not set when the transaction was skipped
+   * or failed before its precheck, see `error`
+   */
+  precheckCode?: number
+  /*
+   * status - not set by wallets that predate execution modes
+   */
+  status?: TransactionExecutionStatus
+  /*
+   * receiptCode - the `Status` code of the receipt, set when the receipt was awaited
+   */
+  receiptCode?: number
+  /*
+   * receipt - set with `waitForReceipt` when the receipt was received
+   */
+  receipt?: HederaTransactionReceiptJSON
+  /*
+   * error - the message of an error other than a failed precheck or receipt, e.g. a network error
+   */
+  error?: string
+}
+
+/**
+ * `TransactionExecutionResult` with the receipt decoded by `DAppConnector`.
+ */
+export type DecodedTransactionExecutionResult = Omit<TransactionExecutionResult, 'receipt'> & {
+  receipt?: TransactionReceipt
+}
+
 /*
  * 1. hedera_getNodeAddresses
  */
@@ -32,7 +123,7 @@ export interface GetNodeAddresesResponse extends EngineTypes.RespondParams {
  */
 
 // params
-export interface ExecuteTransactionParams {
+export interface ExecuteTransactionParams extends VersionedParams, TransactionExecutionOptions {
   /*
    * signedTransaction - Array of Base64-encoded `Transaction`
    */
@@ -46,8 +137,7 @@ export interface ExecuteTransactionRequest extends EngineTypes.RequestParams {
   }
 }
 // result
-export interface ExecuteTransactionResult
-  extends JsonRpcResult<Array<TransactionResponseJSON & { precheckCode: number }>> {}
+export interface ExecuteTransactionResult extends JsonRpcResult<TransactionExecutionResult[]> {}
 // response
 export interface ExecuteTransactionResponse extends EngineTypes.RespondParams {
   response: ExecuteTransactionResult
@@ -57,7 +147,7 @@ export interface ExecuteTransactionResponse extends EngineTypes.RespondParams {
  * 3. hedera_signMessage
  */
 // params
-export interface SignMessageParams {
+export interface SignMessageParams extends VersionedParams {
   /*
    * signerAccountId - a Hedera Account identifier in [HIP-30](https://hips.hedera.com/hip/hip-30) (`<nework>:<shard>.<realm>.<num>`) form.
    */
@@ -85,7 +175,7 @@ export interface SignMessageResponse extends EngineTypes.RespondParams {
  * 4. hedera_signQueryAndSend
  */
 // params
-export interface SignQueryAndSendParams {
+export interface SignQueryAndSendParams extends VersionedParams {
   signerAccountId: string
   query: string
 }
@@ -107,7 +197,9 @@ export interface SignQueryAndSendResponse extends EngineTypes.RespondParams {
  * 5. hedera_signAndExecuteTransaction
  */
 // params
-export interface SignAndExecuteTransactionParams {
+export interface SignAndExecuteTransactionParams
+  extends VersionedParams,
+    TransactionExecutionOptions {
   signerAccountId: string
   transaction: string[]
 }
@@ -121,7 +213,7 @@ export interface SignAndExecuteTransactionRequest extends EngineTypes.RequestPar
 
 // result
 export interface SignAndExecuteTransactionResult
-  extends JsonRpcResult<Array<TransactionResponseJSON & { precheckCode: number }>> {}
+  extends JsonRpcResult<TransactionExecutionResult[]> {}
 
 // response
 export interface SignAndExecuteTransactionResponse extends EngineTypes.RespondParams {
@@ -132,8 +224,22 @@ export interface SignAndExecuteTransactionResponse extends EngineTypes.RespondPa
  */
 
 // params
-export interface SignTransactionParams {
+export interface SignTransactionParams extends VersionedParams {
+  /*
+   * signerAccountId - a Hedera Account identifier in [HIP-30](https://hips.hedera.com/hip/hip-30) (`<nework>:<shard>.<realm>.<num>`) form.
+   */
   signerAccountId: string
+  /*
+   * transactionBody - Base64-encoded `TransactionBody` protobuf bytes, as specified by HIP-820
+   */
+  transactionBody: string
+}
+// legacy params, sent to wallets that predate HIP-820 `transactionBody` support
+export interface LegacySignTransactionParams extends VersionedParams {
+  signerAccountId: string
+  /*
+   * transaction - Array of Base64-encoded `Transaction`
+   */
   transaction: string[]
 }
 
@@ -141,14 +247,16 @@ export interface SignTransactionParams {
 export interface SignTransactionRequest extends EngineTypes.RequestParams {
   request: {
     method: HederaJsonRpcMethod.SignTransaction
-    params: SignTransactionParams
+    params: SignTransactionParams | LegacySignTransactionParams
   }
 }
 
 // result
-export interface SignTransactionResult extends JsonRpcResult<string[]> {}
+export interface SignTransactionResult extends JsonRpcResult<{ signatureMap: string }> {}
+// legacy result, an array of Base64-encoded `SignatureMap`, one per transaction
+export interface LegacySignTransactionResult extends JsonRpcResult<string[]> {}
 
 // response
 export interface SignTransactionResponse extends EngineTypes.RespondParams {
-  response: SignTransactionResult
+  response: SignTransactionResult | LegacySignTransactionResult
 }
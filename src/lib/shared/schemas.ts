@@ -0,0 +1,322 @@
+import { HederaExecutionMode, HederaJsonRpcMethod } from './methods'
+
+/**
+ * Defines runtime schemas of the params and results of Hedera JSON-RPC methods declared in
+ * `payloads.ts`. Wallets validate the params of session requests and dApps validate the results
+ * returned by wallets, as neither can trust the types of the other side at runtime.
+ */
+
+/**
+ * Validates a value at `path` and returns a description of the first invalid value found, or
+ * `undefined` if the value is valid.
+ */
+export type PayloadSchema = (value: any, path: string) => string | undefined
+
+const BASE64_REGEX = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/
+// plain `<shard>.<realm>.<num>`, HIP-30 `<network>:<shard>.<realm>.<num>` with an optional
+// checksum, or CAIP-10 `hedera:<network>:<shard>.<realm>.<num>`
+const ACCOUNT_ID_REGEX =
+  /^(?:hedera:)?(?:(?:mainnet|testnet|previewnet|devnet):)?\d+\.\d+\.\d+(?:-[a-z]{5})?$/
+// `<shard>.<realm>.<num>` of tokens, topics, contracts and files
+const ENTITY_ID_REGEX = /^\d+\.\d+\.\d+$/
+// `<shard>.<realm>.<num>@<seconds>.<nanos>`, optionally scheduled and with a nonce
+const TRANSACTION_ID_REGEX = /^\d+\.\d+\.\d+@\d+\.\d+(?:\?scheduled)?(?:\/\d+)?$/
+
+function describeValue(value: any): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return value.length ? 'array' : 'empty array'
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 32 ? `${value.slice(0, 32)}...` : value)
+  }
+  return typeof value
+}
+
+function invalid(path: string, expected: string, value: any): string {
+  return `Invalid value for ${path}, expected ${expected} but got ${describeValue(value)}`
+}
+
+function matching(regex: RegExp, expected: string): PayloadSchema {
+  return (value, path) =>
+    typeof value === 'string' && value.length > 0 && regex.test(value)
+      ? undefined
+      : invalid(path, expected, value)
+}
+
+/**
+ * A non-empty, padded Base64 string.
+ */
+export const base64StringSchema = matching(BASE64_REGEX, 'base64 string')
+
+/**
+ * An account ID in plain, HIP-30 or CAIP-10 form.
+ */
+export const accountIdStringSchema = matching(ACCOUNT_ID_REGEX, 'account ID')
+
+/**
+ * An entity ID in `<shard>.<realm>.<num>` form.
+ */
+export const entityIdStringSchema = matching(ENTITY_ID_REGEX, 'entity ID')
+
+/**
+ * A transaction ID in `<shard>.<realm>.<num>@<seconds>.<nanos>` form.
+ */
+export const transactionIdStringSchema = matching(TRANSACTION_ID_REGEX, 'transaction ID')
+
+/**
+ * Any string.
+ */
+export const stringSchema: PayloadSchema = (value, path) =>
+  typeof value === 'string' ? undefined : invalid(path, 'string', value)
+
+/**
+ * An integer number.
+ */
+export const integerSchema: PayloadSchema = (value, path) =>
+  Number.isInteger(value) ? undefined : invalid(path, 'integer', value)
+
+/**
+ * No value, `null` is accepted as JSON has no `undefined`.
+ */
+export const emptySchema: PayloadSchema = (value, path) =>
+  value == null ? undefined : invalid(path, 'no value', value)
+
+/**
+ * One of the given values.
+ * @param values - The allowed values
+ * @returns `PayloadSchema`
+ */
+export function oneOfSchema(values: readonly any[]): PayloadSchema {
+  return (value, path) =>
+    values.includes(value)
+      ? undefined
+      : invalid(
+          path,
+          `one of ${values.map((value) => JSON.stringify(value)).join(', ')}`,
+          value,
+        )
+}
+
+/**
+ * An optional value, valid against `schema` if set.
+ * @param schema - The schema of the value
+ * @returns `PayloadSchema`
+ */
+export function optionalSchema(schema: PayloadSchema): PayloadSchema {
+  return (value, path) => (value === undefined ? undefined : schema(value, path))
+}
+
+/**
+ * A nullable value, valid against `schema` if not `null`.
+ * @param schema - The schema of the value
+ * @returns `PayloadSchema`
+ */
+export function nullableSchema(schema: PayloadSchema): PayloadSchema {
+  return (value, path) => (value === null ? undefined : schema(value, path))
+}
+
+/**
+ * An array of items valid against `item`.
+ * @param item - The schema of the items
+ * @returns `PayloadSchema`
+ */
+export function arraySchema(item: PayloadSchema): PayloadSchema {
+  return (value, path) => {
+    if (!Array.isArray(value)) return invalid(path, 'array', value)
+    for (let index = 0; index < value.length; index++) {
+      const issue = item(value[index], `${path}[${index}]`)
+      if (issue) return issue
+    }
+  }
+}
+
+/**
+ * A non-empty array of items valid against `item`.
+ * @param item - The schema of the items
+ * @returns `PayloadSchema`
+ */
+export function nonEmptyArraySchema(item: PayloadSchema): PayloadSchema {
+  const schema = arraySchema(item)
+  return (value, path) =>
+    !Array.isArray(value) || !value.length
+      ? invalid(path, 'non-empty array', value)
+      : schema(value, path)
+}
+
+/**
+ * An object with properties valid against `shape`, other properties are ignored.
+ * @param shape - The schemas of the properties
+ * @returns `PayloadSchema`
+ */
+export function objectSchema(shape: { [key: string]: PayloadSchema }): PayloadSchema {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return invalid(path, 'object', value)
+    }
+    for (const key of Object.keys(shape)) {
+      const issue = shape[key](value[key], `${path}.${key}`)
+      if (issue) return issue
+    }
+  }
+}
+
+const versionSchema = optionalSchema(integerSchema)
+const executionModeSchema = optionalSchema(oneOfSchema(Object.values(HederaExecutionMode)))
+const waitForReceiptSchema = optionalSchema(oneOfSchema([true, false]))
+const entityIdSchema = nullableSchema(entityIdStringSchema)
+
+const transactionReceiptSchema = objectSchema({
+  status: integerSchema,
+  accountId: nullableSchema(accountIdStringSchema),
+  tokenId: entityIdSchema,
+  topicId: entityIdSchema,
+  contractId: entityIdSchema,
+  fileId: entityIdSchema,
+  serials: arraySchema(matching(/^\d+$/, 'serial number')),
+  exchangeRate: nullableSchema(
+    objectSchema({ hbars: integerSchema, cents: integerSchema, expirationTime: integerSchema }),
+  ),
+})
+
+const transactionResponseSchema = objectSchema({
+  transactionId: transactionIdStringSchema,
+  nodeId: accountIdStringSchema,
+  transactionHash: base64StringSchema,
+  precheckCode: optionalSchema(integerSchema),
+  status: optionalSchema(oneOfSchema(['submitted', 'success', 'failed', 'skipped'])),
+  receiptCode: optionalSchema(integerSchema),
+  receipt: optionalSchema(transactionReceiptSchema),
+  error: optionalSchema(stringSchema),
+})
+
+/*
+ * 1. hedera_getNodeAddresses
+ */
+export const getNodeAddressesParamsSchema = emptySchema
+export const getNodeAddressesResultSchema = objectSchema({
+  nodes: nonEmptyArraySchema(accountIdStringSchema),
+})
+
+/*
+ * 2. hedera_executeTransaction
+ */
+export const executeTransactionParamsSchema = objectSchema({
+  signedTransaction: nonEmptyArraySchema(base64StringSchema),
+  executionMode: executionModeSchema,
+  waitForReceipt: waitForReceiptSchema,
+  version: versionSchema,
+})
+export const executeTransactionResultSchema = nonEmptyArraySchema(transactionResponseSchema)
+
+/*
+ * 3. hedera_signMessage
+ */
+export const signMessageParamsSchema = objectSchema({
+  signerAccountId: accountIdStringSchema,
+  message: base64StringSchema,
+  version: versionSchema,
+})
+export const signMessageResultSchema = objectSchema({
+  signatureMap: base64StringSchema,
+})
+
+/*
+ * 4. hedera_signQueryAndSend
+ */
+export const signQueryAndSendParamsSchema = objectSchema({
+  signerAccountId: accountIdStringSchema,
+  query: base64StringSchema,
+  version: versionSchema,
+})
+export const signQueryAndSendResultSchema = objectSchema({
+  response: base64StringSchema,
+})
+
+/*
+ * 5. hedera_signAndExecuteTransaction
+ */
+export const signAndExecuteTransactionParamsSchema = objectSchema({
+  signerAccountId: accountIdStringSchema,
+  transaction: nonEmptyArraySchema(base64StringSchema),
+  executionMode: executionModeSchema,
+  waitForReceipt: waitForReceiptSchema,
+  version: versionSchema,
+})
+export const signAndExecuteTransactionResultSchema = nonEmptyArraySchema(
+  transactionResponseSchema,
+)
+
+/*
+ * 6. hedera_signTransaction
+ */
+export const signTransactionParamsSchema = objectSchema({
+  signerAccountId: accountIdStringSchema,
+  transactionBody: base64StringSchema,
+  version: versionSchema,
+})
+export const legacySignTransactionParamsSchema = objectSchema({
+  signerAccountId: accountIdStringSchema,
+  transaction: nonEmptyArraySchema(base64StringSchema),
+  version: versionSchema,
+})
+export const signTransactionResultSchema = objectSchema({
+  signatureMap: base64StringSchema,
+})
+export const legacySignTransactionResultSchema = nonEmptyArraySchema(base64StringSchema)
+
+/**
+ * Schemas of the params of each Hedera JSON-RPC method, `hedera_signTransaction` params are
+ * validated as legacy params if they have no `transactionBody`.
+ */
+export const hederaJsonRpcParamsSchemas: { [M in HederaJsonRpcMethod]: PayloadSchema } = {
+  [HederaJsonRpcMethod.GetNodeAddresses]: getNodeAddressesParamsSchema,
+  [HederaJsonRpcMethod.ExecuteTransaction]: executeTransactionParamsSchema,
+  [HederaJsonRpcMethod.SignMessage]: signMessageParamsSchema,
+  [HederaJsonRpcMethod.SignQueryAndSend]: signQueryAndSendParamsSchema,
+  [HederaJsonRpcMethod.SignAndExecuteTransaction]: signAndExecuteTransactionParamsSchema,
+  [HederaJsonRpcMethod.SignTransaction]: (value, path) =>
+    value && typeof value === 'object' && !('transactionBody' in value)
+      ? legacySignTransactionParamsSchema(value, path)
+      : signTransactionParamsSchema(value, path),
+}
+
+/**
+ * Schemas of the results of each Hedera JSON-RPC method, an array result of
+ * `hedera_signTransaction` is validated as a legacy result.
+ */
+export const hederaJsonRpcResultSchemas: { [M in HederaJsonRpcMethod]: PayloadSchema } = {
+  [HederaJsonRpcMethod.GetNodeAddresses]: getNodeAddressesResultSchema,
+  [HederaJsonRpcMethod.ExecuteTransaction]: executeTransactionResultSchema,
+  [HederaJsonRpcMethod.SignMessage]: signMessageResultSchema,
+  [HederaJsonRpcMethod.SignQueryAndSend]: signQueryAndSendResultSchema,
+  [HederaJsonRpcMethod.SignAndExecuteTransaction]: signAndExecuteTransactionResultSchema,
+  [HederaJsonRpcMethod.SignTransaction]: (value, path) =>
+    Array.isArray(value)
+      ? legacySignTransactionResultSchema(value, path)
+      : signTransactionResultSchema(value, path),
+}
+
+/**
+ * Validates the params of a Hedera JSON-RPC method.
+ * @param method - `HederaJsonRpcMethod`
+ * @param params - The request params
+ * @returns A description of the first invalid param, or `undefined` if the params are valid
+ */
+export function validateHederaJsonRpcParams(
+  method: HederaJsonRpcMethod,
+  params: any,
+): string | undefined {
+  return hederaJsonRpcParamsSchemas[method](params, 'params')
+}
+
+/**
+ * Validates the result of a Hedera JSON-RPC method.
+ * @param method - `HederaJsonRpcMethod`
+ * @param result - The response result
+ * @returns A description of the first invalid value, or `undefined` if the result is valid
+ */
+export function validateHederaJsonRpcResult(
+  method: HederaJsonRpcMethod,
+  result: any,
+): string | undefined {
+  return hederaJsonRpcResultSchemas[method](result, 'result')
+}
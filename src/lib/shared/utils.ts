@@ -1,8 +1,40 @@
 import { Buffer } from 'buffer'
-import { AccountId, Transaction, LedgerId, Query } from '@hashgraph/sdk'
+import {
+  AccountId,
+  ContractId,
+  FileId,
+  Transaction,
+  LedgerId,
+  Long,
+  Query,
+  AccountBalance,
+  AccountBalanceQuery,
+  AccountInfo,
+  AccountInfoQuery,
+  ContractInfo,
+  ContractInfoQuery,
+  FileInfo,
+  FileInfoQuery,
+  NetworkVersionInfo,
+  NetworkVersionInfoQuery,
+  TokenInfo,
+  TokenInfoQuery,
+  TokenId,
+  TopicId,
+  TopicInfo,
+  TopicInfoQuery,
+  TransactionReceipt,
+  TransactionReceiptQuery,
+  TransactionRecord,
+  TransactionRecordQuery,
+  Key,
+  KeyList,
+  PublicKey,
+  SignerSignature,
+} from '@hashgraph/sdk'
 import { ProposalTypes, SessionTypes } from '@walletconnect/types'
-import SignatureMap from '@hashgraph/sdk/lib/transaction/SignatureMap'
-import hashgraphNamespace from '@hashgraph/proto'
+import { proto } from '@hashgraph/proto'
+import type { HederaTransactionReceiptJSON } from './payloads'
 // import { keccak256 } from 'web3-utils'
 
 /**
@@ -17,34 +49,64 @@ export function freezeTransaction<T extends Transaction>(transaction: T): void {
   }
 }
 
+const MISSING_NODE_ACCOUNT_IDS =
+  'Transaction has no node account IDs, set them with `setNodeAccountIds`, ' +
+  '`setDefaultNodeAccountIds` or `DAppSigner.populateTransaction`'
+
+function assertNodeAccountIds<T extends Transaction>(transaction: T): void {
+  if (!transaction.isFrozen() && !transaction.nodeAccountIds?.length) {
+    throw new Error(MISSING_NODE_ACCOUNT_IDS)
+  }
+}
+
 /**
- * Sets a default consensus node that a transaction will be submitted to. Node Account ID(s)
+ * Sets the consensus nodes that a transaction will be submitted to. Node Account ID(s)
  * must be set before a transaction can be frozen. If they have already been set, this
- * function will not modify the transaction.
+ * function will not modify the transaction. Throws error when none are set and none are given.
+ *
+ * `DAppSigner.populateTransaction` should be preferred on the dApp side, as it picks node
+ * account IDs from the network of the connected wallet.
  * @param transaction - any instance of a class that extends `Transaction`
+ * @param nodeAccountIds - node account IDs of the network, e.g. the `nodes` answered by
+ * `hedera_getNodeAddresses` or the values of `Client.network`
  *
  * @see {@link https://docs.hedera.com/hedera/networks/testnet/testnet-nodes | Full list of Testnet-nodes}
  * @see {@link https://docs.hedera.com/hedera/networks/mainnet/mainnet-nodes | Full list of Mainnet-nodes}
  */
-export function setDefaultNodeAccountIds<T extends Transaction>(transaction: T): void {
-  const isNodeAccountIdNotSet =
-    !transaction.nodeAccountIds || transaction.nodeAccountIds.length === 0
-  if (!transaction.isFrozen() && isNodeAccountIdNotSet) {
-    //TODO: add nodes
-    transaction.setNodeAccountIds([new AccountId(3)])
-  }
+export function setDefaultNodeAccountIds<T extends Transaction>(
+  transaction: T,
+  nodeAccountIds: (AccountId | string)[],
+): void
+/**
+ * Sets node 0.0.3 as the consensus node of a transaction without node account IDs.
+ * @deprecated Pins every transaction to a single node of the network, pass the node account IDs
+ * of the network or use `DAppSigner.populateTransaction` instead.
+ * @param transaction - any instance of a class that extends `Transaction`
+ */
+export function setDefaultNodeAccountIds<T extends Transaction>(transaction: T): void
+export function setDefaultNodeAccountIds<T extends Transaction>(
+  transaction: T,
+  nodeAccountIds: (AccountId | string)[] = [new AccountId(3)],
+): void {
+  if (transaction.isFrozen() || transaction.nodeAccountIds?.length) return
+  if (!nodeAccountIds.length) throw new Error(MISSING_NODE_ACCOUNT_IDS)
+
+  transaction.setNodeAccountIds(
+    nodeAccountIds.map((nodeAccountId) => AccountId.fromString(nodeAccountId.toString())),
+  )
 }
 
 /**
  * Converts `Transaction` to a Base64-string.
  *
  * First converts a transaction to bytes and then encodes it as a Base64-string. Will attempt
- * to set default Node Account ID and freeze the transaction before converting.
+ * to freeze the transaction before converting, node account IDs must be set. Throws error
+ * when they are not.
  * @param transaction - Any instance of a class that extends `Transaction`
  * @returns Base64 encoded representation of the input `Transaction` object
  */
 export function transactionToBase64String<T extends Transaction>(transaction: T): string {
-  setDefaultNodeAccountIds(transaction)
+  assertNodeAccountIds(transaction)
   freezeTransaction(transaction)
   const transactionBytes = transaction.toBytes()
   return Buffer.from(transactionBytes).toString('base64')
@@ -73,27 +135,146 @@ export function base64StringToTransaction<T extends Transaction>(transactionByte
 }
 
 /**
- * Converts a `SignatureMap` to a base64 encoded string.
+ * Converts the `TransactionBody` of a `Transaction` to a Base64-string.
  *
- * First converts the `SignatureMap` object to a JSON.
- * Then encodes the JSON to a base64 encoded string.
- * @param signatureMap - The `SignatureMap` object to be converted
- * @returns Base64-encoded string representation of the input `SignatureMap`
+ * HIP-820 `hedera_signTransaction` sends the transaction body bytes instead of the whole
+ * transaction, so the wallet signs exactly the bytes that are submitted to the network. Will
+ * attempt to freeze the transaction before converting. The transaction must have a single
+ * node account ID and a single chunk, as only one transaction body can be signed per request.
+ * @param transaction - Any instance of a class that extends `Transaction`
+ * @returns Base64 encoded representation of the `TransactionBody` protobuf bytes
  */
-export function signatureMapToBase64(signatureMap: SignatureMap): string {
-  return Buffer.from(JSON.stringify(signatureMap)).toString('base64')
+export function transactionBodyToBase64String<T extends Transaction>(transaction: T): string {
+  assertNodeAccountIds(transaction)
+  freezeTransaction(transaction)
+  if (transaction._signedTransactions.length !== 1) {
+    throw new Error(
+      'Transaction body can only be created for a transaction with a single node account ID and a single chunk',
+    )
+  }
+  return Uint8ArrayToBase64String(transaction._signedTransactions.get(0).bodyBytes!)
 }
 
 /**
- * Converts a Base64-encoded string to a `hashgraphNamespace.proto.ISignatureMap`.
+ * Decodes a Base64-encoded string of `TransactionBody` protobuf bytes.
+ * @param transactionBody - Base64-encoded `TransactionBody`
+ * @returns `proto.TransactionBody`
+ */
+export function base64StringToTransactionBody(transactionBody: string): proto.TransactionBody {
+  return proto.TransactionBody.decode(base64StringToUint8Array(transactionBody))
+}
+
+/**
+ * Converts a `proto.ISignatureMap` to a base64 encoded string.
+ *
+ * First encodes the signature map to the `proto.SignatureMap` protobuf bytes, as specified
+ * by HIP-820. Then encodes the bytes to a base64 encoded string.
+ * @param signatureMap - The `proto.ISignatureMap` object to be converted
+ * @returns Base64-encoded string representation of the input `proto.ISignatureMap`
+ */
+export function signatureMapToBase64(signatureMap: proto.ISignatureMap): string {
+  const encoded = proto.SignatureMap.encode(signatureMap).finish()
+  return Uint8ArrayToBase64String(encoded)
+}
+
+/**
+ * Converts a Base64-encoded string of `proto.SignatureMap` protobuf bytes to a
+ * `proto.ISignatureMap`.
  * @param base64string - Base64-encoded string
- * @returns `hashgraph.proto.ISignatureMap`
+ * @returns `proto.ISignatureMap`
  */
-export function base64StringToSignatureMap(
-  base64string: string,
-): hashgraphNamespace.proto.ISignatureMap {
-  const decoded = Buffer.from(base64string, 'base64').toString('utf-8')
-  return JSON.parse(decoded) as hashgraphNamespace.proto.ISignatureMap
+export function base64StringToSignatureMap(base64string: string): proto.ISignatureMap {
+  const encoded = base64StringToUint8Array(base64string)
+  return proto.SignatureMap.decode(encoded)
+}
+
+/**
+ * Creates a `proto.ISignatureMap` from the output of `Signer.sign`.
+ *
+ * Each signature is added as a sigPair with the full raw public key as `pubKeyPrefix`, and
+ * the signature stored in the `ed25519` or `ECDSASecp256k1` field depending on the key type.
+ * @param signerSignatures - An array of `SignerSignature` objects
+ * @returns `proto.ISignatureMap`
+ */
+export function signerSignaturesToSignatureMap(
+  signerSignatures: SignerSignature[],
+): proto.ISignatureMap {
+  return {
+    sigPair: signerSignatures.map(({ publicKey, signature }) =>
+      publicKey._toProtobufSignature(signature),
+    ),
+  }
+}
+
+/**
+ * Creates a `proto.ISignatureMap` from the signatures of a signed `Transaction`.
+ *
+ * A signature map only holds the signatures of a single transaction body, so the signatures
+ * are taken for the first node account ID of the transaction.
+ * @param transaction - Any instance of a class that extends `Transaction`
+ * @returns `proto.ISignatureMap`
+ */
+export function transactionToSignatureMap<T extends Transaction>(
+  transaction: T,
+): proto.ISignatureMap {
+  const nodeAccountId = transaction.nodeAccountIds?.[0]
+  const nodeSignatures = nodeAccountId ? transaction.getSignatures().get(nodeAccountId) : null
+
+  return {
+    sigPair: [...(nodeSignatures ?? [])].map(([publicKey, signature]) =>
+      publicKey._toProtobufSignature(signature),
+    ),
+  }
+}
+
+/**
+ * Converts the sigPairs of a `proto.ISignatureMap` to `PublicKey` and signature pairs.
+ *
+ * The `pubKeyPrefix` of every sigPair must be the full raw public key, otherwise the
+ * `PublicKey` can not be restored. Only `ed25519` and `ECDSASecp256k1` signatures are supported.
+ * @param signatureMap - The `proto.ISignatureMap` object to be converted
+ * @returns An array of `[PublicKey, Uint8Array]` tuples
+ */
+export function signatureMapToPublicKeySignatures(
+  signatureMap: proto.ISignatureMap,
+): [PublicKey, Uint8Array][] {
+  return (signatureMap.sigPair ?? []).map(({ pubKeyPrefix, ed25519, ECDSASecp256k1 }) => {
+    if (!pubKeyPrefix || pubKeyPrefix.length === 0) {
+      throw new Error('Signature pair is missing the public key prefix')
+    }
+    if (ed25519 && ed25519.length > 0) {
+      return [PublicKey.fromBytesED25519(pubKeyPrefix), ed25519]
+    }
+    if (ECDSASecp256k1 && ECDSASecp256k1.length > 0) {
+      return [PublicKey.fromBytesECDSA(pubKeyPrefix), ECDSASecp256k1]
+    }
+    throw new Error('Only ed25519 and ECDSASecp256k1 signature pairs are supported')
+  })
+}
+
+/**
+ * Adds the signatures of a `proto.ISignatureMap` returned by the wallet to a `Transaction`.
+ *
+ * Uses `Transaction.addSignature`, so the transaction must have exactly one node account ID.
+ * Will freeze the transaction if it is not already frozen.
+ * @param transaction - Any instance of a class that extends `Transaction`
+ * @param signatureMap - The `proto.ISignatureMap` with the signatures of the transaction body
+ * @returns The same transaction with the signatures added
+ * @example
+ * ```ts
+ * const signatureMap = base64StringToSignatureMap(result.signatureMap)
+ * const signedTransaction = addSignatureMapToTransaction(transaction, signatureMap)
+ * ```
+ */
+export function addSignatureMapToTransaction<T extends Transaction>(
+  transaction: T,
+  signatureMap: proto.ISignatureMap,
+): T {
+  for (const [publicKey, signature] of signatureMapToPublicKeySignatures(signatureMap)) {
+    transaction.addSignature(publicKey, signature)
+  }
+
+  return transaction
 }
 
 /**
@@ -147,6 +328,103 @@ export function base64StringToQuery<Q extends Query<any>>(bytesString: string):
   return Query.fromBytes(decoded) as Q
 }
 
+/**
+ * Recreates the output of a `Query` from a Base64-encoded string returned by the wallet in
+ * response to `hedera_signQueryAndSend`. The wallet encodes the query output with its
+ * `toBytes` method, so the matching `fromBytes` decoder is selected by the type of the query.
+ * @param query - The `Query` that was sent to the wallet
+ * @param bytesString - Base64-encoded query output
+ * @returns The decoded query output, e.g. `AccountBalance` for an `AccountBalanceQuery`
+ * @example
+ * ```ts
+ * const query = new AccountBalanceQuery().setAccountId('0.0.12345')
+ * const balance = base64StringToQueryResponse(query, result.response)
+ * // balance type: AccountBalance
+ * ```
+ */
+export function base64StringToQueryResponse<T>(query: Query<T>, bytesString: string): T {
+  const decoded = Buffer.from(bytesString, 'base64')
+
+  if (query instanceof AccountBalanceQuery) return AccountBalance.fromBytes(decoded) as T
+  if (query instanceof AccountInfoQuery) return AccountInfo.fromBytes(decoded) as T
+  if (query instanceof ContractInfoQuery) return ContractInfo.fromBytes(decoded) as T
+  if (query instanceof FileInfoQuery) return FileInfo.fromBytes(decoded) as T
+  if (query instanceof NetworkVersionInfoQuery)
+    return NetworkVersionInfo.fromBytes(decoded) as T
+  if (query instanceof TokenInfoQuery) return TokenInfo.fromBytes(decoded) as T
+  if (query instanceof TopicInfoQuery) return TopicInfo.fromBytes(decoded) as T
+  if (query instanceof TransactionReceiptQuery)
+    return TransactionReceipt.fromBytes(decoded) as T
+  if (query instanceof TransactionRecordQuery) return TransactionRecord.fromBytes(decoded) as T
+
+  throw new Error(`Unsupported query type: ${query.constructor.name}`)
+}
+
+/**
+ * Converts a `TransactionReceipt` to JSON, to return it from `hedera_executeTransaction` and
+ * `hedera_signAndExecuteTransaction`. Only the status, created entity IDs, serial numbers and
+ * exchange rate are kept.
+ * @param receipt - `TransactionReceipt`
+ * @returns `HederaTransactionReceiptJSON`
+ */
+export function transactionReceiptToJSON(
+  receipt: TransactionReceipt,
+): HederaTransactionReceiptJSON {
+  const { exchangeRate } = receipt
+
+  return {
+    status: receipt.status._code,
+    accountId: receipt.accountId?.toString() ?? null,
+    tokenId: receipt.tokenId?.toString() ?? null,
+    topicId: receipt.topicId?.toString() ?? null,
+    contractId: receipt.contractId?.toString() ?? null,
+    fileId: receipt.fileId?.toString() ?? null,
+    serials: receipt.serials.map((serial) => serial.toString()),
+    exchangeRate: exchangeRate && {
+      hbars: exchangeRate.hbars,
+      cents: exchangeRate.cents,
+      expirationTime: Math.floor(exchangeRate.expirationTime.getTime() / 1000),
+    },
+  }
+}
+
+/**
+ * Converts JSON returned by `transactionReceiptToJSON` back to a `TransactionReceipt`.
+ * @param receipt - `HederaTransactionReceiptJSON` object
+ * @returns `TransactionReceipt`
+ */
+export function transactionReceiptFromJSON(
+  receipt: HederaTransactionReceiptJSON,
+): TransactionReceipt {
+  const { exchangeRate } = receipt
+
+  // encoded and decoded, as `ExchangeRate` only converts `Long` seconds to milliseconds
+  const response = proto.TransactionGetReceiptResponse.encode({
+    receipt: {
+      status: receipt.status,
+      accountID: receipt.accountId
+        ? AccountId.fromString(receipt.accountId)._toProtobuf()
+        : null,
+      tokenID: receipt.tokenId ? TokenId.fromString(receipt.tokenId)._toProtobuf() : null,
+      topicID: receipt.topicId ? TopicId.fromString(receipt.topicId)._toProtobuf() : null,
+      contractID: receipt.contractId
+        ? ContractId.fromString(receipt.contractId)._toProtobuf()
+        : null,
+      fileID: receipt.fileId ? FileId.fromString(receipt.fileId)._toProtobuf() : null,
+      serialNumbers: receipt.serials.map((serial) => Long.fromString(serial)),
+      exchangeRate: exchangeRate && {
+        currentRate: {
+          hbarEquiv: exchangeRate.hbars,
+          centEquiv: exchangeRate.cents,
+          expirationTime: { seconds: exchangeRate.expirationTime },
+        },
+      },
+    },
+  }).finish()
+
+  return TransactionReceipt.fromBytes(response)
+}
+
 /**
  * Prepares a Base64-encoded string message for signing.
  * First decodes a Base64-encoded message to a UTF-8 string.
@@ -166,6 +444,124 @@ export function messageToBase64String(message: string): string {
   return Buffer.from(message, 'utf-8').toString('base64')
 }
 
+/**
+ * Resolves the `Key` of a Hedera account, e.g. from a local key store, a database or the
+ * mirror node with `MirrorNodeClient.getAccountKey`.
+ */
+export type AccountKeyResolver = (accountId: AccountId) => Key | Promise<Key>
+
+/**
+ * Checks whether the signature pairs contain a valid signature of the message for a key.
+ *
+ * A `PublicKey` is verified with the signature pairs whose `pubKeyPrefix` matches the key. A
+ * `KeyList` is valid when at least its threshold (or all, when no threshold is set) of keys
+ * are valid. Other key types, e.g. `ContractId`, can't sign messages and are never valid.
+ * @param messageBytes - The signed bytes, e.g. a message or the body bytes of a transaction
+ * @param sigPairs - The signature pairs of a `SignatureMap`
+ * @param key - The key to verify, a `PublicKey` or a `KeyList`
+ * @returns boolean
+ */
+export function verifyKeySignature(
+  messageBytes: Uint8Array,
+  sigPairs: proto.ISignaturePair[],
+  key: Key,
+): boolean {
+  if (key instanceof KeyList) {
+    const keys = key.toArray()
+    const threshold = key.threshold ?? keys.length
+    const validKeys = keys.filter((key) => verifyKeySignature(messageBytes, sigPairs, key))
+    return keys.length > 0 && validKeys.length >= threshold
+  }
+
+  if (!(key instanceof PublicKey)) return false
+
+  const publicKeyBytes = key.toBytesRaw()
+  return sigPairs.some(({ pubKeyPrefix, ed25519, ECDSASecp256k1 }) => {
+    const prefix = pubKeyPrefix ?? new Uint8Array()
+    const isMatchingPrefix =
+      prefix.length <= publicKeyBytes.length &&
+      prefix.every((byte, index) => byte === publicKeyBytes[index])
+    const signature = ed25519?.length ? ed25519 : ECDSASecp256k1
+    if (!isMatchingPrefix || !signature?.length) return false
+
+    try {
+      return key.verify(messageBytes, signature)
+    } catch (e) {
+      return false
+    }
+  })
+}
+
+/**
+ * Rebuilds the signed payload of a message and verifies the signature map against a key.
+ */
+function verifyKeyMessageSignature(
+  message: string,
+  signatureMap: string | proto.ISignatureMap,
+  key: Key,
+): boolean {
+  const [messageBytes] = base64StringToMessage(messageToBase64String(message))
+  const { sigPair } =
+    typeof signatureMap === 'string' ? base64StringToSignatureMap(signatureMap) : signatureMap
+
+  return verifyKeySignature(messageBytes, sigPair ?? [], key)
+}
+
+/**
+ * Verifies the signature map returned by the wallet for `hedera_signMessage`.
+ *
+ * Rebuilds the `"\x19Hedera Signed Message:\n"` prefixed payload exactly as the wallet does
+ * with `base64StringToMessage`, then checks the ed25519 or ECDSA secp256k1 signature of the
+ * public key.
+ * @param message - The plain UTF-8 message that was sent for signing
+ * @param signatureMap - The signature map returned by the wallet, Base64-encoded or decoded
+ * @param publicKey - The `PublicKey` that is expected to have signed the message
+ * @returns `true` if the signature map contains a valid signature of the public key
+ * @example
+ * ```ts
+ * const { signatureMap } = await dAppConnector.signMessage(params)
+ * const isValid = verifyMessageSignature('Hello World', signatureMap, publicKey)
+ * ```
+ */
+export function verifyMessageSignature(
+  message: string,
+  signatureMap: string | proto.ISignatureMap,
+  publicKey: PublicKey,
+): boolean {
+  return verifyKeyMessageSignature(message, signatureMap, publicKey)
+}
+
+/**
+ * Verifies the signature map returned by the wallet for `hedera_signMessage` against the key
+ * of an account.
+ *
+ * The account key is resolved with `resolveKey`, so no network is needed when the keys are
+ * known locally. Threshold keys and key lists are supported.
+ * @param message - The plain UTF-8 message that was sent for signing
+ * @param signatureMap - The signature map returned by the wallet, Base64-encoded or decoded
+ * @param accountId - The account that is expected to have signed the message
+ * @param resolveKey - Resolves the `Key` of the account
+ * @returns Promise\<boolean\> - `true` if the signatures satisfy the account key
+ * @example
+ * ```ts
+ * const isValid = await verifyAccountMessageSignature(
+ *   'Hello World',
+ *   signatureMap,
+ *   '0.0.12345',
+ *   (accountId) => mirrorNodeClient.getAccountKey(accountId),
+ * )
+ * ```
+ */
+export async function verifyAccountMessageSignature(
+  message: string,
+  signatureMap: string | proto.ISignatureMap,
+  accountId: AccountId | string,
+  resolveKey: AccountKeyResolver,
+): Promise<boolean> {
+  const key = await resolveKey(AccountId.fromString(accountId.toString()))
+  return verifyKeyMessageSignature(message, signatureMap, key)
+}
+
 /**
  * A mapping of `LedgerId` to EIP chain id and CAIP-2 network name.
  *
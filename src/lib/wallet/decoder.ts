@@ -0,0 +1,308 @@
+import { Buffer } from 'buffer'
+import {
+  AccountId,
+  ContractId,
+  Hbar,
+  Query,
+  TokenId,
+  Transaction,
+  TransactionId,
+} from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+import type { ParsedHederaSessionRequest } from './types'
+
+/**
+ * Defines the human-readable summaries of session request bodies shown to users before they
+ * approve a request. All amounts are strings of the smallest denomination (tinybar for hbar), so
+ * the JSON shape is stable and does not lose precision.
+ */
+
+/**
+ * Hbar transfer of a transaction.
+ */
+export type HbarTransferSummary = {
+  accountId: string
+  amount: string
+  isApproved: boolean
+}
+
+/**
+ * Fungible token transfer of a transaction, `decimals` are the expected decimals if set.
+ */
+export type TokenTransferSummary = {
+  tokenId: string
+  accountId: string
+  amount: string
+  decimals: number | null
+  isApproved: boolean
+}
+
+/**
+ * NFT transfer of a transaction.
+ */
+export type NftTransferSummary = {
+  tokenId: string
+  serial: string
+  sender: string
+  receiver: string
+  isApproved: boolean
+}
+
+/**
+ * Contract call of a transaction, `functionSelector` is the hex encoded first 4 bytes of the
+ * function parameters.
+ */
+export type ContractCallSummary = {
+  contractId: string
+  functionSelector: string | null
+  gas: string
+  amount: string
+}
+
+/**
+ * Summary of a transaction, or of the inner transaction of a `scheduleCreate` transaction.
+ * `type` - the `TransactionBody` data case, e.g. `cryptoTransfer`.
+ * `transactionId`, `nodeAccountId` - `null` for scheduled transactions.
+ * `payer` - the payer of the transaction, for scheduled transactions the payer set by the
+ * `scheduleCreate` transaction.
+ */
+export type TransactionSummary = {
+  kind: 'transaction'
+  type: string
+  transactionId: string | null
+  payer: string | null
+  nodeAccountId: string | null
+  maxFee: string
+  memo: string
+  hbarTransfers: HbarTransferSummary[]
+  tokenTransfers: TokenTransferSummary[]
+  nftTransfers: NftTransferSummary[]
+  contractCall: ContractCallSummary | null
+  scheduled: TransactionSummary | null
+}
+
+/**
+ * Summary of a query, `type` is the `Query` data case, e.g. `cryptogetAccountBalance`.
+ */
+export type QuerySummary = {
+  kind: 'query'
+  type: string
+}
+
+/**
+ * Summary of a message, decoded as UTF-8 text without the `\x19Hedera Signed Message:\n` prefix.
+ */
+export type MessageSummary = {
+  kind: 'message'
+  message: string
+}
+
+export type SessionRequestSummary = TransactionSummary | QuerySummary | MessageSummary
+
+type TransactionBodyData = Pick<
+  proto.ITransactionBody,
+  'transactionFee' | 'memo' | 'cryptoTransfer' | 'contractCall' | 'scheduleCreate'
+> & { data?: string }
+
+function amountToString(amount?: proto.IAccountAmount['amount'] | number): string {
+  return (amount ?? 0).toString()
+}
+
+function accountIdToString(accountId?: proto.IAccountID | null): string {
+  return accountId ? AccountId._fromProtobuf(accountId).toString() : ''
+}
+
+function transactionBodyToSummary(
+  body: TransactionBodyData,
+  header: Pick<TransactionSummary, 'transactionId' | 'payer' | 'nodeAccountId'>,
+): TransactionSummary {
+  const { cryptoTransfer, contractCall, scheduleCreate } = body
+  const tokenTransferLists = cryptoTransfer?.tokenTransfers ?? []
+  const scheduled = scheduleCreate?.scheduledTransactionBody
+
+  return {
+    kind: 'transaction',
+    type: body.data ?? 'unknown',
+    ...header,
+    maxFee: amountToString(body.transactionFee),
+    memo: body.memo ?? '',
+    hbarTransfers: (cryptoTransfer?.transfers?.accountAmounts ?? []).map((transfer) => ({
+      accountId: accountIdToString(transfer.accountID),
+      amount: amountToString(transfer.amount),
+      isApproved: !!transfer.isApproval,
+    })),
+    tokenTransfers: tokenTransferLists.flatMap(({ token, transfers, expectedDecimals }) =>
+      (transfers ?? []).map((transfer) => ({
+        tokenId: TokenId._fromProtobuf(token!).toString(),
+        accountId: accountIdToString(transfer.accountID),
+        amount: amountToString(transfer.amount),
+        decimals: expectedDecimals?.value ?? null,
+        isApproved: !!transfer.isApproval,
+      })),
+    ),
+    nftTransfers: tokenTransferLists.flatMap(({ token, nftTransfers }) =>
+      (nftTransfers ?? []).map((transfer) => ({
+        tokenId: TokenId._fromProtobuf(token!).toString(),
+        serial: amountToString(transfer.serialNumber),
+        sender: accountIdToString(transfer.senderAccountID),
+        receiver: accountIdToString(transfer.receiverAccountID),
+        isApproved: !!transfer.isApproval,
+      })),
+    ),
+    contractCall: contractCall
+      ? {
+          contractId: ContractId._fromProtobuf(contractCall.contractID!).toString(),
+          functionSelector:
+            contractCall.functionParameters && contractCall.functionParameters.length >= 4
+              ? `0x${Buffer.from(contractCall.functionParameters.slice(0, 4)).toString('hex')}`
+              : null,
+          gas: amountToString(contractCall.gas),
+          amount: amountToString(contractCall.amount),
+        }
+      : null,
+    scheduled: scheduled
+      ? transactionBodyToSummary(scheduled as TransactionBodyData, {
+          transactionId: null,
+          payer: scheduleCreate?.payerAccountID
+            ? accountIdToString(scheduleCreate.payerAccountID)
+            : null,
+          nodeAccountId: null,
+        })
+      : null,
+  }
+}
+
+/**
+ * Decodes `TransactionBody` protobuf bytes to a `TransactionSummary`.
+ * @param bodyBytes - `TransactionBody` protobuf bytes
+ * @returns `TransactionSummary`
+ */
+export function transactionBodyBytesToSummary(bodyBytes: Uint8Array): TransactionSummary {
+  const body = proto.TransactionBody.decode(bodyBytes)
+  const transactionId = body.transactionID
+    ? TransactionId._fromProtobuf(body.transactionID)
+    : null
+
+  return transactionBodyToSummary(body, {
+    transactionId: transactionId?.toString() ?? null,
+    payer: transactionId?.accountId?.toString() ?? null,
+    nodeAccountId: body.nodeAccountID ? accountIdToString(body.nodeAccountID) : null,
+  })
+}
+
+/**
+ * Decodes the `body` returned by `Wallet.parseSessionRequest` to summaries which can be shown to
+ * the user, one per transaction or message.
+ *
+ * Transactions are decoded from the body bytes of their first node, HIP-820 `TransactionBody`
+ * bytes of `hedera_signTransaction` are decoded as a transaction.
+ * @param body - The body of a session request
+ * @returns `SessionRequestSummary[]`
+ */
+export function decodeSessionRequestBody(
+  body?: ParsedHederaSessionRequest['body'] | Transaction,
+): SessionRequestSummary[] {
+  if (!body) return []
+  if (body instanceof Query) {
+    return [{ kind: 'query', type: proto.Query.decode(body.toBytes()).query ?? 'unknown' }]
+  }
+  if (body instanceof Uint8Array) return [transactionBodyBytesToSummary(body)]
+
+  return (Array.isArray(body) ? body : [body]).map((item: Transaction | Uint8Array) =>
+    item instanceof Transaction
+      ? transactionBodyBytesToSummary(item._signedTransactions.get(0).bodyBytes!)
+      : {
+          kind: 'message',
+          message: removeMessagePrefix(Buffer.from(item).toString('utf-8')),
+        },
+  )
+}
+
+/**
+ * Removes the `\x19Hedera Signed Message:\n<length>` prefix of a message. The length is
+ * followed by the message without a separator, so each split of the leading digits is tried
+ * until the number matches the length of the rest.
+ */
+function removeMessagePrefix(text: string): string {
+  const prefix = '\x19Hedera Signed Message:\n'
+  if (!text.startsWith(prefix)) return text
+
+  const prefixed = text.slice(prefix.length)
+  const digits = prefixed.match(/^\d+/)?.[0] ?? ''
+  for (let i = 1; i <= digits.length; i++) {
+    const message = prefixed.slice(i)
+    if (Number(digits.slice(0, i)) === message.length) return message
+  }
+  return prefixed
+}
+
+function hbarToString(tinybars: string): string {
+  return Hbar.fromTinybars(tinybars).toString()
+}
+
+function transactionSummaryToLines(summary: TransactionSummary): string[] {
+  const lines = [
+    summary.transactionId ? `${summary.type} ${summary.transactionId}` : summary.type,
+  ]
+  if (summary.payer) lines.push(`Payer: ${summary.payer}`)
+  if (summary.nodeAccountId) lines.push(`Node: ${summary.nodeAccountId}`)
+  lines.push(`Max fee: ${hbarToString(summary.maxFee)}`)
+  if (summary.memo) lines.push(`Memo: ${summary.memo}`)
+  if (summary.hbarTransfers.length) {
+    lines.push('HBAR transfers:')
+    summary.hbarTransfers.forEach(({ accountId, amount, isApproved }) =>
+      lines.push(`  ${accountId} ${hbarToString(amount)}${isApproved ? ' (approved)' : ''}`),
+    )
+  }
+  if (summary.tokenTransfers.length) {
+    lines.push('Token transfers:')
+    summary.tokenTransfers.forEach(({ tokenId, accountId, amount, decimals, isApproved }) =>
+      lines.push(
+        `  ${tokenId} ${accountId} ${amount}${
+          decimals != null ? ` (${decimals} decimals)` : ''
+        }` + (isApproved ? ' (approved)' : ''),
+      ),
+    )
+  }
+  if (summary.nftTransfers.length) {
+    lines.push('NFT transfers:')
+    summary.nftTransfers.forEach(({ tokenId, serial, sender, receiver, isApproved }) =>
+      lines.push(
+        `  ${tokenId} #${serial} ${sender} -> ${receiver}${isApproved ? ' (approved)' : ''}`,
+      ),
+    )
+  }
+  if (summary.contractCall) {
+    const { contractId, functionSelector, gas, amount } = summary.contractCall
+    lines.push(
+      `Contract call: ${contractId} function ${functionSelector ?? 'none'}, gas ${gas}, ` +
+        hbarToString(amount),
+    )
+  }
+  if (summary.scheduled) {
+    lines.push('Scheduled transaction:')
+    transactionSummaryToLines(summary.scheduled).forEach((line) => lines.push(`  ${line}`))
+  }
+
+  return lines
+}
+
+/**
+ * Renders summaries returned by `decodeSessionRequestBody` as plain text.
+ * @param summaries - `SessionRequestSummary[]`
+ * @returns Plain text, summaries are separated by an empty line
+ */
+export function sessionRequestSummaryToText(summaries: SessionRequestSummary[]): string {
+  return summaries
+    .map((summary) => {
+      switch (summary.kind) {
+        case 'transaction':
+          return transactionSummaryToLines(summary).join('\n')
+        case 'query':
+          return `Query: ${summary.type}`
+        case 'message':
+          return `Message: ${summary.message}`
+      }
+    })
+    .join('\n\n')
+}
@@ -1,42 +1,73 @@
 import { Core } from '@walletconnect/core'
 import { Web3Wallet, Web3WalletTypes } from '@walletconnect/web3wallet'
 import { SessionTypes } from '@walletconnect/types'
-import { buildApprovedNamespaces, getSdkError } from '@walletconnect/utils'
+import { buildApprovedNamespaces } from '@walletconnect/utils'
 import {
   Wallet as HederaWallet,
   Client,
   AccountId,
   Transaction,
   Query,
+  PublicKey,
   PrecheckStatusError,
+  ReceiptStatusError,
+  Status,
+  TransactionResponse,
+  type Provider as HederaWalletProvider,
 } from '@hashgraph/sdk'
 import {
   HederaChainId,
   HederaSessionEvent,
   HederaJsonRpcMethod,
-  base64StringToTransaction,
-  base64StringToQuery,
-  base64StringToMessage,
+  HederaExecutionMode,
   Uint8ArrayToBase64String,
   signatureMapToBase64,
+  signerSignaturesToSignatureMap,
+  transactionToSignatureMap,
+  transactionReceiptToJSON,
   getHederaError,
+  getHederaErrorKeyFromStatus,
+  parseSignerAccountId,
+  parseGetNodeAddressesParams,
+  parseExecuteTransactionParams,
+  parseSignMessageParams,
+  parseSignQueryAndSendParams,
+  parseSignAndExecuteTransactionParams,
+  parseSignTransactionParams,
   GetNodeAddresesResponse,
   ExecuteTransactionResponse,
   SignMessageResponse,
   SignQueryAndSendResponse,
   SignAndExecuteTransactionResponse,
   SignTransactionResponse,
-  ExecuteTransactionParams,
-  SignMessageParams,
-  SignQueryAndSendParams,
-  SignAndExecuteTransactionParams,
-  SignTransactionParams,
+  TransactionExecutionOptions,
+  TransactionExecutionResult,
 } from '../shared'
 import Provider from './provider'
-import type { HederaNativeWallet } from './types'
+import { ApprovalPolicy } from './policy'
+import { Keystore } from './keystore'
+import { ExternalSigner, SigningBackend } from './signer'
+import type {
+  HederaNativeWallet,
+  HederaJsonRpcHandlers,
+  ParsedHederaSessionRequest,
+  HederaSessionRequestTypes,
+  UnparsedHederaSessionRequest,
+} from './types'
 
 // https://github.com/WalletConnect/walletconnect-monorepo/blob/v2.0/packages/web3wallet/src/client.ts
 export default class Wallet extends Web3Wallet implements HederaNativeWallet {
+  /*
+   * Reviews session requests before they are executed, all requests are executed without it
+   */
+  public approvalPolicy?: ApprovalPolicy
+
+  /*
+   * Holds the private keys of the wallet accounts, used by `executeSessionRequest` to resolve
+   * the signer of requests which are executed without a `HederaWallet`
+   */
+  public keystore?: Keystore
+
   /*
    * Set default values for chains, methods, events
    */
@@ -85,14 +116,29 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
     chainId: HederaChainId,
     accountId: AccountId | string,
     privateKey: string,
-    _provider?: Provider,
+    _provider?: HederaWalletProvider,
   ): HederaWallet {
     const network = chainId.split(':')[1]
-    const client = Client.forName(network)
-    const provider = _provider ?? new Provider(client)
+    const provider = _provider ?? new Provider(Client.forName(network))
     return new HederaWallet(accountId, privateKey, provider)
   }
 
+  /*
+   * Hedera Wallet Signer which signs with an external signing backend, the private key is
+   * never inside the wallet process
+   */
+  public getExternalSigner(
+    chainId: HederaChainId,
+    accountId: AccountId | string,
+    publicKey: PublicKey,
+    backend: SigningBackend,
+    _provider?: HederaWalletProvider,
+  ): HederaWallet {
+    const network = chainId.split(':')[1]
+    const provider = _provider ?? new Provider(Client.forName(network))
+    return new ExternalSigner(accountId, publicKey, backend, provider)
+  }
+
   /*
    * Session proposal
    */
@@ -121,6 +167,102 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
     })
   }
 
+  /*
+   * Session updates
+   */
+
+  /**
+   * Replaces the accounts of a session, e.g. when the user adds or removes an account, and
+   * emits the `accountsChanged` session event with the new accounts.
+   *
+   * WalletConnect requires the session to keep at least one account for each of the chains
+   * required by the dApp.
+   * @param topic - The topic of the session
+   * @param accounts - Hedera accounts in CAIP-10 (`hedera:<network>:<shard>.<realm>.<num>`) form
+   * @returns Promise\<SessionTypes.Struct\> - the updated session
+   */
+  public async updateSessionAccounts(
+    topic: string,
+    accounts: string[],
+  ): Promise<SessionTypes.Struct> {
+    if (!accounts.length) throw new Error('At least one account is required')
+
+    const chainId = accounts[0].split(':').slice(0, 2).join(':')
+    await this.updateSessionNamespace(topic, accounts)
+    await this.emitSessionEvent({
+      topic,
+      event: { name: HederaSessionEvent.AccountsChanged, data: accounts },
+      chainId,
+    })
+
+    return this.getActiveSessions()[topic]
+  }
+
+  /**
+   * Switches a session to another network and emits the `chainChanged` session event.
+   *
+   * The accounts are added to the session on the new chain, in front of the existing accounts.
+   * Accounts of other chains are kept, as WalletConnect requires the session to keep accounts
+   * for the chains required by the dApp.
+   * @param topic - The topic of the session
+   * @param chainId - The CAIP-2 chain id of the network to switch to
+   * @param accountIds - Account IDs on the new chain, defaults to the accounts of the session
+   * @returns Promise\<SessionTypes.Struct\> - the updated session
+   */
+  public async updateSessionChain(
+    topic: string,
+    chainId: HederaChainId,
+    accountIds?: (AccountId | string)[],
+  ): Promise<SessionTypes.Struct> {
+    const session = this.getActiveSessions()[topic]
+    if (!session) throw new Error(`There is no active session with topic ${topic}`)
+
+    const sessionAccounts = session.namespaces.hedera?.accounts ?? []
+    const chainAccounts = (
+      accountIds?.map((accountId) => accountId.toString()) ??
+      sessionAccounts.map((account) => account.split(':')[2])
+    )
+      .map((accountId) => `${chainId}:${accountId}`)
+      .filter((x, i, a) => a.indexOf(x) == i)
+    const otherAccounts = sessionAccounts.filter(
+      (account) => !account.startsWith(`${chainId}:`),
+    )
+
+    await this.updateSessionNamespace(topic, [...chainAccounts, ...otherAccounts])
+    await this.emitSessionEvent({
+      topic,
+      event: { name: HederaSessionEvent.ChainChanged, data: chainId },
+      chainId,
+    })
+
+    return this.getActiveSessions()[topic]
+  }
+
+  /**
+   * Updates the accounts and chains of the `hedera` namespace of a session.
+   */
+  private async updateSessionNamespace(topic: string, accounts: string[]): Promise<void> {
+    const session = this.getActiveSessions()[topic]
+    if (!session) throw new Error(`There is no active session with topic ${topic}`)
+
+    // filter to get unique chains
+    const chains = accounts
+      .map((account) => account.split(':').slice(0, 2).join(':'))
+      .filter((x, i, a) => a.indexOf(x) == i)
+
+    await this.updateSession({
+      topic,
+      namespaces: {
+        ...session.namespaces,
+        hedera: {
+          ...session.namespaces.hedera,
+          chains,
+          accounts,
+        },
+      },
+    })
+  }
+
   /*
    *  Session Requests
    */
@@ -134,127 +276,175 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
     )
   }
 
+  /*
+   * Parses `signerAccountId` in HIP-30 (`<network>:<shard>.<realm>.<num>`) or CAIP-10
+   * (`hedera:<network>:<shard>.<realm>.<num>`) form, a plain account ID is accepted as well
+   */
+  public parseSignerAccountId(signerAccountId: string): AccountId {
+    return parseSignerAccountId(signerAccountId)
+  }
+
+  public parseSessionRequest(
+    event: Web3WalletTypes.SessionRequest,
+    shouldThrow?: true,
+  ): ParsedHederaSessionRequest
+  public parseSessionRequest(
+    event: Web3WalletTypes.SessionRequest,
+    // call with shouldThrow = false when calling from rejectSessionRequest as we only need id and topic to send reject response
+    shouldThrow: boolean,
+  ): ParsedHederaSessionRequest | UnparsedHederaSessionRequest
   public parseSessionRequest(
     event: Web3WalletTypes.SessionRequest,
-    // optional arg to throw error if request is invalid, call with shouldThrow = false when calling from rejectSessionRequest as we only need id and top to send reject response
     shouldThrow = true,
-  ): {
-    method: HederaJsonRpcMethod
-    chainId: HederaChainId
-    id: number // session request id
-    topic: string // session topic
-    body?: Transaction | Transaction[] | Query<any> | Uint8Array[] | undefined
-    accountId?: AccountId
-  } {
+  ): ParsedHederaSessionRequest | UnparsedHederaSessionRequest {
     const { id, topic } = event
     const {
       request: { method, params },
       chainId,
     } = event.params
 
-    let body: Transaction | Transaction[] | Query<any> | Uint8Array[] | undefined
-    // get account id from optional second param for transactions and queries or from transaction id
-    // this allows for the case where the requested signer is not the payer, but defaults to the payer if a second param is not provided
-    let signerAccountId: AccountId | undefined
     // First test for valid params for each method
     // then convert params to a body that the respective function expects
     try {
-      switch (method) {
-        case HederaJsonRpcMethod.GetNodeAddresses: {
-          // 1
-          if (params) throw getHederaError('INVALID_PARAMS')
-          break
-        }
-        case HederaJsonRpcMethod.ExecuteTransaction: {
-          // 2
-          const _params = params as ExecuteTransactionParams
-          this.validateParam('signedTransaction', _params?.signedTransaction, 'array')
-          _params.signedTransaction.forEach((base64StringTransaction, index) =>
-            this.validateParam(
-              `signedTransaction[${index}]`,
-              base64StringTransaction,
-              'string',
-            ),
-          )
-
-          body = _params.signedTransaction.map((base64StringTransaction) =>
-            base64StringToTransaction(base64StringTransaction),
-          )
-          break
-        }
-        case HederaJsonRpcMethod.SignMessage: {
-          // 3
-          const _params = params as SignMessageParams
-          this.validateParam('signerAccountId', _params?.signerAccountId, 'string')
-          this.validateParam('message', _params?.message, 'string')
-          signerAccountId = AccountId.fromString(_params.signerAccountId)
-          body = base64StringToMessage(_params.message)
-          break
-        }
-        case HederaJsonRpcMethod.SignQueryAndSend: {
-          // 4
-          const _params = params as SignQueryAndSendParams
-          this.validateParam('signerAccountId', _params?.signerAccountId, 'string')
-          this.validateParam('query', _params?.query, 'string')
-          signerAccountId = AccountId.fromString(_params.signerAccountId)
-          body = base64StringToQuery(_params.query)
-          break
-        }
-        case HederaJsonRpcMethod.SignAndExecuteTransaction: {
-          // 5
-          const _params = params as SignAndExecuteTransactionParams
-          this.validateParam('signerAccountId', _params?.signerAccountId, 'string')
-          this.validateParam('transaction', _params?.transaction, 'array')
-          _params.transaction.forEach((base64StringTransaction, index) =>
-            this.validateParam(`transaction[${index}]`, base64StringTransaction, 'string'),
-          )
-
-          signerAccountId = AccountId.fromString(_params.signerAccountId)
-          body = _params.transaction.map((base64StringTransaction) =>
-            base64StringToTransaction(base64StringTransaction),
-          )
-          break
-        }
-        case HederaJsonRpcMethod.SignTransaction: {
-          // 6
-          const _params = params as SignTransactionParams
-          this.validateParam('signerAccountId', _params?.signerAccountId, 'string')
-          this.validateParam('transaction', _params?.transaction, 'array')
-          _params.transaction.forEach((base64StringTransaction, index) =>
-            this.validateParam(`transaction[${index}]`, base64StringTransaction, 'string'),
-          )
-
-          signerAccountId = AccountId.fromString(_params.signerAccountId)
-          body = _params.transaction.map((base64StringTransaction) =>
-            base64StringToTransaction(base64StringTransaction),
-          )
-          break
-        }
-        default:
-          throw getSdkError('INVALID_METHOD')
-      }
+      return this.parseSessionRequestParams(method, params, {
+        chainId: chainId as HederaChainId,
+        id,
+        topic,
+      })
       // error parsing request params
     } catch (e) {
       if (shouldThrow) throw e
+      return { method, chainId, id, topic }
+    }
+  }
+
+  private parseSessionRequestParams(
+    method: string,
+    params: any,
+    request: Pick<ParsedHederaSessionRequest, 'chainId' | 'id' | 'topic'>,
+  ): ParsedHederaSessionRequest {
+    // the network of a HIP-30 or CAIP-10 signerAccountId must be the chain of the request
+    const network =
+      typeof params?.signerAccountId === 'string'
+        ? params.signerAccountId.split(':').slice(-2, -1)[0]
+        : undefined
+    if (network && `hedera:${network}` !== request.chainId) {
+      throw getHederaError(
+        'CHAIN_MISMATCH',
+        `Signer ${params.signerAccountId} is not on chain ${request.chainId}`,
+      )
     }
 
-    return {
-      method: method as HederaJsonRpcMethod,
-      chainId: chainId as HederaChainId,
-      id,
-      topic,
-      body,
-      accountId: signerAccountId,
+    // get account id from the signerAccountId param for transactions and queries
+    // this allows for the case where the requested signer is not the payer
+    switch (method) {
+      case HederaJsonRpcMethod.GetNodeAddresses:
+        // 1
+        return { ...request, method, params, ...parseGetNodeAddressesParams(params) }
+      case HederaJsonRpcMethod.ExecuteTransaction:
+        // 2
+        return { ...request, method, params, ...parseExecuteTransactionParams(params) }
+      case HederaJsonRpcMethod.SignMessage:
+        // 3
+        return { ...request, method, params, ...parseSignMessageParams(params) }
+      case HederaJsonRpcMethod.SignQueryAndSend:
+        // 4
+        return { ...request, method, params, ...parseSignQueryAndSendParams(params) }
+      case HederaJsonRpcMethod.SignAndExecuteTransaction:
+        // 5
+        return { ...request, method, params, ...parseSignAndExecuteTransactionParams(params) }
+      case HederaJsonRpcMethod.SignTransaction:
+        // 6
+        return { ...request, method, params, ...parseSignTransactionParams(params) }
+      default:
+        throw getHederaError('UNSUPPORTED_METHOD', method)
+    }
+  }
+
+  /*
+   * Resolves the signer of a session request from the keystore, the signer account of the
+   * request or else the first account of the session held by the keystore. Only accounts the
+   * session was approved for are resolved
+   */
+  public resolveHederaWallet(
+    { chainId, topic, accountId }: ParsedHederaSessionRequest,
+    provider?: HederaWalletProvider,
+  ): HederaWallet {
+    const keystore = this.keystore
+    if (!keystore) throw new Error('No keystore to resolve the signer of the request')
+    if (keystore.isLocked()) throw getHederaError('UNAUTHORIZED_ACCOUNT', 'Keystore is locked')
+
+    const sessionAccountIds = (
+      this.getActiveSessions()[topic]?.namespaces.hedera?.accounts ?? []
+    )
+      .filter((account) => account.startsWith(`${chainId}:`))
+      .map((account) => AccountId.fromString(account.split(':').pop()!).toString())
+    if (accountId && !sessionAccountIds.includes(accountId.toString())) {
+      throw getHederaError(
+        'UNAUTHORIZED_ACCOUNT',
+        `Account ${accountId.toString()} is not approved for session ${topic}`,
+      )
     }
+
+    const signerAccountId =
+      accountId?.toString() ?? sessionAccountIds.find((id) => keystore.hasAccount(id))
+    if (!signerAccountId || !keystore.hasAccount(signerAccountId)) {
+      throw getHederaError(
+        'UNAUTHORIZED_ACCOUNT',
+        signerAccountId
+          ? `Account ${signerAccountId} is not in the keystore`
+          : 'No account of the session is in the keystore',
+      )
+    }
+
+    return this.getHederaWallet(
+      chainId,
+      signerAccountId,
+      keystore.getPrivateKey(signerAccountId).toStringDer(),
+      provider,
+    )
   }
 
   public async executeSessionRequest(
     event: Web3WalletTypes.SessionRequest,
-    hederaWallet: HederaWallet,
+    hederaWallet?: HederaWallet,
   ): Promise<void> {
-    const { method, id, topic, body } = this.parseSessionRequest(event)
+    const request = this.parseSessionRequest(event)
+    const session = this.getActiveSessions()[request.topic]
+    if (!session) throw getHederaError('SESSION_EXPIRED', `No active session ${request.topic}`)
+
+    if (this.approvalPolicy) {
+      const approvalRequest = this.approvalPolicy.buildRequest(event, request, session)
+      const { decision, reasons } = await this.approvalPolicy.review(approvalRequest)
+      if (decision !== 'approve') throw getHederaError('USER_REJECTED', reasons.join(', '))
+    }
+
+    try {
+      return await this.dispatchSessionRequest(
+        request,
+        hederaWallet ?? this.resolveHederaWallet(request),
+      )
+    } catch (err: unknown) {
+      // failed queries and transactions are rejected with the error of their status
+      if (err instanceof PrecheckStatusError || err instanceof ReceiptStatusError) {
+        const stage = err instanceof ReceiptStatusError ? 'receipt' : 'precheck'
+        throw getHederaError(getHederaErrorKeyFromStatus(err.status, stage)!, `${err.status}`, {
+          status: err.status._code,
+          transactionId: err.transactionId?.toString(),
+        })
+      }
+      throw err
+    }
+  }
 
-    return await this[method](id, topic, body, hederaWallet)
+  private dispatchSessionRequest<M extends HederaJsonRpcMethod>(
+    request: HederaSessionRequestTypes[M] & { method: M; id: number; topic: string },
+    hederaWallet: HederaWallet,
+  ): Promise<void> {
+    const { method, id, topic, body } = request
+    const options = 'options' in request ? request.options : undefined
+    const handlers: HederaJsonRpcHandlers = this
+    return handlers[method](id, topic, body, hederaWallet, options)
   }
 
   // https://docs.walletconnect.com/web3wallet/wallet-usage#responding-to-session-requests
@@ -277,7 +467,7 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
   public async hedera_getNodeAddresses(
     id: number,
     topic: string,
-    _: any, // ignore this param to be consistent call signature with other functions
+    _: unknown, // ignore this param to be consistent call signature with other functions
     signer: HederaWallet,
   ): Promise<void> {
     const nodesAccountIds = signer.getNetwork()
@@ -306,32 +496,9 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
     topic: string,
     body: Transaction[], // must be signedTransactions
     signer: HederaWallet,
+    options: TransactionExecutionOptions = {},
   ): Promise<void> {
-    const resultPromises = body.map(async (transaction) => {
-      const transactionId = transaction.transactionId!.toString()
-      const nodeId = transaction.nodeAccountIds![0].toString()
-      const transactionHash = Uint8ArrayToBase64String(await transaction.getTransactionHash())
-      let precheckCode = 0
-
-      try {
-        await signer.call(transaction)
-      } catch (err: unknown) {
-        console.log(err)
-
-        if (err instanceof PrecheckStatusError) {
-          precheckCode = err.status._code
-        }
-      }
-
-      return {
-        transactionId,
-        nodeId,
-        transactionHash,
-        precheckCode,
-      }
-    })
-
-    const result = await Promise.all(resultPromises)
+    const result = await this.executeTransactions(body, signer, options)
 
     const response: ExecuteTransactionResponse = {
       topic,
@@ -346,7 +513,6 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
   }
   // 3. hedera_signMessage
   // TODO: PR/ discussion into HIP for array of messages
-  // TODO: HIP-820 suggested change
   public async hedera_signMessage(
     id: number,
     topic: string,
@@ -354,22 +520,7 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
     signer: HederaWallet,
   ): Promise<void> {
     const signerSignatures = await signer.sign(body)
-    console.log(signerSignatures)
-    const signatureMap = Uint8ArrayToBase64String(signerSignatures[0].signature)
-    // =======
-    //     const ECDSASecp256k1 = signerSignatures[0].signature
-    //     const pubKeyPrefix = signerSignatures[0].publicKey.toBytes().slice(0, 33)
-
-    //     const signatureMap: hashgraphNamespace.proto.ISignatureMap = {
-    //       sigPair: [
-    //         {
-    //           ECDSASecp256k1,
-    //           pubKeyPrefix,
-    //         },
-    //       ],
-    //     }
-    //     const base64SignatureMap = signatureMapToBase64(signatureMap)
-    // >>>>>>> origin/feature/hip820-methods
+    const signatureMap = signatureMapToBase64(signerSignaturesToSignatureMap(signerSignatures))
 
     const response: SignMessageResponse = {
       topic,
@@ -382,12 +533,6 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
       },
     }
     return await this.respondSessionRequest(response)
-    // =======
-    //           signatureMap: base64SignatureMap,
-    //         },
-    //       },
-    //     })
-    // >>>>>>> origin/feature/hip820-methods
   }
 
   // 4. hedera_signQueryAndSend
@@ -419,39 +564,14 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
     topic: string,
     body: Transaction[],
     signer: HederaWallet,
+    options: TransactionExecutionOptions = {},
   ): Promise<void> {
     const signedTransactionsPromises = body.map((transaction) =>
       signer.signTransaction(transaction),
     )
     const signedTransactions = await Promise.all(signedTransactionsPromises)
 
-    const resultPromises = signedTransactions.map(async (signedTransaction) => {
-      const transactionId = signedTransaction.transactionId!.toString()
-      const nodeId = signedTransaction.nodeAccountIds![0].toString()
-      const transactionHash = Uint8ArrayToBase64String(
-        await signedTransaction.getTransactionHash(),
-      )
-      let precheckCode = 0
-
-      try {
-        await signer.call(signedTransaction)
-      } catch (err: unknown) {
-        console.log(err)
-
-        if (err instanceof PrecheckStatusError) {
-          precheckCode = err.status._code
-        }
-      }
-
-      return {
-        transactionId,
-        nodeId,
-        transactionHash,
-        precheckCode,
-      }
-    })
-
-    const result = await Promise.all(resultPromises)
+    const result = await this.executeTransactions(signedTransactions, signer, options)
 
     const response: SignAndExecuteTransactionResponse = {
       topic,
@@ -466,21 +586,35 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
   }
 
   // 6. hedera_signTransaction
-  // TODO: HIP-820 suggested change
   public async hedera_signTransaction(
     id: number,
     topic: string,
-    body: Transaction[], // The HIP calls for this to be a TransactionBody not a transaction
+    body: Uint8Array | Transaction[], // HIP-820 `TransactionBody` bytes or legacy transactions
     signer: HederaWallet,
   ): Promise<void> {
+    if (body instanceof Uint8Array) {
+      const signerSignatures = await signer.sign([body])
+      const signatureMap = signatureMapToBase64(
+        signerSignaturesToSignatureMap(signerSignatures),
+      )
+
+      const response: SignTransactionResponse = {
+        topic,
+        response: {
+          jsonrpc: '2.0',
+          id,
+          result: { signatureMap },
+        },
+      }
+
+      return await this.respondSessionRequest(response)
+    }
+
     const transactionsPromises = body.map((transaction) => signer.signTransaction(transaction))
     const transactions = await Promise.all(transactionsPromises)
-    const result = transactions.map((transaction) => {
-      const signatureMap = transaction.getSignatures()
-      const base64SignatureMap = signatureMapToBase64(signatureMap)
-
-      return base64SignatureMap
-    })
+    const result = transactions.map((transaction) =>
+      signatureMapToBase64(transactionToSignatureMap(transaction)),
+    )
 
     const response: SignTransactionResponse = {
       topic,
@@ -493,4 +627,97 @@ export default class Wallet extends Web3Wallet implements HederaNativeWallet {
 
     return await this.respondSessionRequest(response)
   }
+
+  /*
+   * Executes signed transactions with the given options, returns a result per transaction in
+   * order. The sequential modes wait for the receipt of each transaction before submitting the next
+   */
+  private async executeTransactions(
+    transactions: Transaction[],
+    signer: HederaWallet,
+    {
+      executionMode = HederaExecutionMode.Parallel,
+      waitForReceipt,
+    }: TransactionExecutionOptions,
+  ): Promise<TransactionExecutionResult[]> {
+    if (executionMode === HederaExecutionMode.Parallel) {
+      return await Promise.all(
+        transactions.map((transaction) =>
+          this.executeTransaction(transaction, signer, false, waitForReceipt),
+        ),
+      )
+    }
+
+    const results: TransactionExecutionResult[] = []
+    for (const transaction of transactions) {
+      const shouldSkip =
+        executionMode === HederaExecutionMode.SequentialStopOnFailure &&
+        results.some(({ status }) => status === 'failed')
+
+      results.push(
+        shouldSkip
+          ? { ...(await this.toTransactionResponseJSON(transaction)), status: 'skipped' }
+          : await this.executeTransaction(transaction, signer, true, waitForReceipt),
+      )
+    }
+    return results
+  }
+
+  private async executeTransaction(
+    transaction: Transaction,
+    signer: HederaWallet,
+    isSequential: boolean,
+    waitForReceipt = false,
+  ): Promise<TransactionExecutionResult> {
+    const transactionJSON = await this.toTransactionResponseJSON(transaction)
+
+    // no precheck code is reported when the transaction failed before its precheck
+    let response: TransactionResponse
+    try {
+      response = await signer.call(transaction)
+    } catch (err: unknown) {
+      if (err instanceof PrecheckStatusError) {
+        return { ...transactionJSON, status: 'failed', precheckCode: err.status._code }
+      }
+      return {
+        ...transactionJSON,
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+      }
+    }
+    const result = { ...transactionJSON, precheckCode: Status.Ok._code }
+    if (!isSequential && !waitForReceipt) return { ...result, status: 'submitted' }
+
+    try {
+      const receipt = await signer.getProvider()!.waitForReceipt(response)
+      return {
+        ...result,
+        status: 'success',
+        receiptCode: receipt.status._code,
+        ...(waitForReceipt && { receipt: transactionReceiptToJSON(receipt) }),
+      }
+    } catch (err: unknown) {
+      if (err instanceof ReceiptStatusError) {
+        return {
+          ...result,
+          status: 'failed',
+          receiptCode: err.status._code,
+          ...(waitForReceipt && { receipt: transactionReceiptToJSON(err.transactionReceipt) }),
+        }
+      }
+      return {
+        ...result,
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+      }
+    }
+  }
+
+  private async toTransactionResponseJSON(transaction: Transaction) {
+    return {
+      transactionId: transaction.transactionId!.toString(),
+      nodeId: transaction.nodeAccountIds![0].toString(),
+      transactionHash: Uint8ArrayToBase64String(await transaction.getTransactionHash()),
+    }
+  }
 }
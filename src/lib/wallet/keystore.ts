@@ -0,0 +1,281 @@
+import { AccountId, PrivateKey, PublicKey } from '@hashgraph/sdk'
+import { Uint8ArrayToBase64String, base64StringToUint8Array } from '../shared'
+
+/**
+ * Storage backend of a `Keystore`. The `IKeyValueStorage` of WalletConnect, e.g.
+ * `wallet.core.storage`, can be used as is.
+ */
+export interface KeystoreStorage {
+  getItem<T = any>(key: string): Promise<T | undefined>
+  setItem<T = any>(key: string, value: T): Promise<void>
+}
+
+/**
+ * `KeystoreStorage` kept in memory, the default backend of a `Keystore`.
+ */
+export class MemoryKeystoreStorage implements KeystoreStorage {
+  private items = new Map<string, any>()
+
+  async getItem<T = any>(key: string): Promise<T | undefined> {
+    return this.items.get(key)
+  }
+
+  async setItem<T = any>(key: string, value: T): Promise<void> {
+    this.items.set(key, value)
+  }
+}
+
+/**
+ * Options of a `Keystore`.
+ * `storageKey` - the key of the keystore in the storage (default: `hedera-keystore`).
+ * `iterations` - PBKDF2 iterations of new keystores (default: 210,000).
+ */
+export type KeystoreOptions = {
+  storageKey?: string
+  iterations?: number
+}
+
+/**
+ * Account held by a `Keystore`, readable while the keystore is locked.
+ */
+export type KeystoreAccount = {
+  accountId: AccountId
+  keyType: 'ED25519' | 'ECDSA'
+  publicKey: PublicKey
+}
+
+type EncryptedValue = { iv: string; ciphertext: string }
+
+/*
+ * Persisted keystore, private keys are encrypted with AES-GCM under a key derived from the
+ * passphrase with PBKDF2-SHA256. `check` is a known value to verify the passphrase
+ */
+type KeystoreData = {
+  version: 1
+  salt: string
+  iterations: number
+  check: EncryptedValue
+  accounts: {
+    [accountId: string]: {
+      keyType: KeystoreAccount['keyType']
+      publicKey: string
+      privateKey: EncryptedValue
+    }
+  }
+}
+
+const CHECK_VALUE = 'hedera-keystore'
+
+// the same account spelled differently, e.g. `0.0.012345`, resolves to one entry
+function toKeystoreId(accountId: AccountId | string): string {
+  return AccountId.fromString(accountId.toString()).toString()
+}
+
+/**
+ * Holds the private keys of several Hedera accounts, encrypted at rest with a passphrase.
+ * Set it as `Wallet.keystore` to resolve the `HederaWallet` of session requests.
+ *
+ * Private keys can only be added and read while the keystore is unlocked. A new keystore is
+ * set up with `create`, `unlock` opens an existing one.
+ */
+export class Keystore {
+  private encryptionKey?: CryptoKey
+  private privateKeys = new Map<string, PrivateKey>()
+
+  constructor(
+    private storage: KeystoreStorage = new MemoryKeystoreStorage(),
+    private options: KeystoreOptions = {},
+  ) {}
+
+  private get storageKey(): string {
+    return this.options.storageKey ?? 'hedera-keystore'
+  }
+
+  isLocked(): boolean {
+    return !this.encryptionKey
+  }
+
+  /**
+   * Checks whether the storage holds a keystore.
+   * @returns Promise\<boolean\>
+   */
+  async exists(): Promise<boolean> {
+    return !!(await this.storage.getItem<KeystoreData>(this.storageKey))
+  }
+
+  /**
+   * Creates an empty keystore encrypted with the passphrase and unlocks it, throws when the
+   * storage already holds a keystore.
+   * @param passphrase - The passphrase of the new keystore
+   */
+  async create(passphrase: string): Promise<void> {
+    if (await this.exists()) throw new Error('Keystore already exists')
+
+    const data: Omit<KeystoreData, 'check'> = {
+      version: 1,
+      salt: Uint8ArrayToBase64String(crypto.getRandomValues(new Uint8Array(16))),
+      iterations: this.options.iterations ?? 210_000,
+      accounts: {},
+    }
+    const encryptionKey = await deriveKey(passphrase, data)
+    await this.storage.setItem<KeystoreData>(this.storageKey, {
+      ...data,
+      check: await encrypt(encryptionKey, CHECK_VALUE),
+    })
+
+    this.encryptionKey = encryptionKey
+    this.privateKeys = new Map()
+  }
+
+  /**
+   * Derives the encryption key from the passphrase and decrypts the private keys, throws when
+   * the storage holds no keystore.
+   * @param passphrase - The passphrase of the keystore
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const data = await this.storage.getItem<KeystoreData>(this.storageKey)
+    if (!data) throw new Error('Keystore does not exist, create it with `create`')
+
+    const encryptionKey = await deriveKey(passphrase, data)
+    if ((await decrypt(encryptionKey, data.check).catch(() => undefined)) !== CHECK_VALUE) {
+      throw new Error('Invalid keystore passphrase')
+    }
+
+    const privateKeys = new Map<string, PrivateKey>()
+    for (const [accountId, { privateKey }] of Object.entries(data.accounts)) {
+      privateKeys.set(
+        accountId,
+        PrivateKey.fromStringDer(await decrypt(encryptionKey, privateKey)),
+      )
+    }
+    this.encryptionKey = encryptionKey
+    this.privateKeys = privateKeys
+  }
+
+  /**
+   * Forgets the encryption key and the decrypted private keys.
+   */
+  lock(): void {
+    this.encryptionKey = undefined
+    this.privateKeys = new Map()
+  }
+
+  /**
+   * Lists the accounts of the keystore, also while it is locked.
+   * @returns Promise\<KeystoreAccount[]\>
+   */
+  async getAccounts(): Promise<KeystoreAccount[]> {
+    const data = await this.storage.getItem<KeystoreData>(this.storageKey)
+
+    return Object.entries(data?.accounts ?? {}).map(([accountId, { keyType, publicKey }]) => ({
+      accountId: AccountId.fromString(accountId),
+      keyType,
+      publicKey: PublicKey.fromString(publicKey),
+    }))
+  }
+
+  /**
+   * Adds an account to the keystore or replaces its private key.
+   * @param accountId - The account ID
+   * @param privateKey - The ED25519 or ECDSA private key, a DER encoded string or `PrivateKey`
+   */
+  async addAccount(
+    accountId: AccountId | string,
+    privateKey: PrivateKey | string,
+  ): Promise<void> {
+    const encryptionKey = this.getEncryptionKey()
+    const key =
+      typeof privateKey === 'string' ? PrivateKey.fromStringDer(privateKey) : privateKey
+    const data = (await this.storage.getItem<KeystoreData>(this.storageKey))!
+
+    data.accounts[toKeystoreId(accountId)] = {
+      keyType: key.type === 'ED25519' ? 'ED25519' : 'ECDSA',
+      publicKey: key.publicKey.toStringDer(),
+      privateKey: await encrypt(encryptionKey, key.toStringDer()),
+    }
+    await this.storage.setItem(this.storageKey, data)
+    this.privateKeys.set(toKeystoreId(accountId), key)
+  }
+
+  /**
+   * Removes an account and its private key from the keystore.
+   * @param accountId - The account ID
+   */
+  async removeAccount(accountId: AccountId | string): Promise<void> {
+    this.getEncryptionKey()
+    const data = (await this.storage.getItem<KeystoreData>(this.storageKey))!
+
+    delete data.accounts[toKeystoreId(accountId)]
+    await this.storage.setItem(this.storageKey, data)
+    this.privateKeys.delete(toKeystoreId(accountId))
+  }
+
+  /**
+   * Checks whether the unlocked keystore holds the private key of an account.
+   * @param accountId - The account ID
+   */
+  hasAccount(accountId: AccountId | string): boolean {
+    return this.privateKeys.has(toKeystoreId(accountId))
+  }
+
+  /**
+   * Gets the private key of an account, throws when the keystore is locked or does not hold
+   * the account.
+   * @param accountId - The account ID
+   * @returns `PrivateKey`
+   */
+  getPrivateKey(accountId: AccountId | string): PrivateKey {
+    this.getEncryptionKey()
+    const privateKey = this.privateKeys.get(toKeystoreId(accountId))
+    if (!privateKey) throw new Error(`Account ${accountId.toString()} is not in the keystore`)
+
+    return privateKey
+  }
+
+  private getEncryptionKey(): CryptoKey {
+    if (!this.encryptionKey) throw new Error('Keystore is locked')
+    return this.encryptionKey
+  }
+}
+
+async function deriveKey(
+  passphrase: string,
+  { salt, iterations }: Pick<KeystoreData, 'salt' | 'iterations'>,
+): Promise<CryptoKey> {
+  const passphraseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64StringToUint8Array(salt), iterations },
+    passphraseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+async function encrypt(key: CryptoKey, value: string): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(value),
+  )
+  return {
+    iv: Uint8ArrayToBase64String(iv),
+    ciphertext: Uint8ArrayToBase64String(new Uint8Array(ciphertext)),
+  }
+}
+
+async function decrypt(key: CryptoKey, { iv, ciphertext }: EncryptedValue): Promise<string> {
+  const value = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64StringToUint8Array(iv) },
+    key,
+    base64StringToUint8Array(ciphertext),
+  )
+  return new TextDecoder().decode(value)
+}
@@ -0,0 +1,391 @@
+import type { Web3WalletTypes } from '@walletconnect/web3wallet'
+import type { SessionTypes } from '@walletconnect/types'
+import {
+  AccountId,
+  ContractId,
+  Hbar,
+  Query,
+  Transaction,
+  TransferTransaction,
+} from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+import type { HederaJsonRpcMethod } from '../shared'
+import type { ParsedHederaSessionRequest } from './types'
+
+/**
+ * Outcome of an `ApprovalPolicy` rule evaluation.
+ * `approve` - the request is executed without review.
+ * `deny` - the request is rejected.
+ * `escalate` - the request needs a manual review by `ApprovalPolicyOptions.onEscalate`.
+ */
+export type ApprovalDecision = 'approve' | 'deny' | 'escalate'
+
+/**
+ * Session request as seen by an `ApprovalPolicy`.
+ * `event` - the WalletConnect session request event.
+ * `method` - the JSON-RPC method of the request.
+ * `topic` - the session topic.
+ * `origin` - the origin of the dApp verified by the Verify API, or the origin of its metadata URL
+ * when `ApprovalPolicyOptions.allowUnverifiedOrigin` is set. Unknown otherwise.
+ * `accountId` - the account ID of the signer, if the method has one.
+ * `transactions` - the transactions of the request with their `TransactionBody` data case, e.g.
+ * `cryptoTransfer` (empty for queries and messages).
+ * `query` - the query of a `hedera_signQueryAndSend` request.
+ * `hbarSpent` - the hbar debited from the signer by the transactions of the request.
+ */
+export type ApprovalRequest = {
+  event: Web3WalletTypes.SessionRequest
+  method: HederaJsonRpcMethod
+  topic: string
+  origin?: string
+  accountId?: AccountId
+  transactions: { type: string; transaction: Transaction }[]
+  query?: Query<any>
+  hbarSpent: Hbar
+}
+
+/**
+ * Result of `ApprovalPolicy.evaluate`, with the reasons of a `deny` or `escalate` decision.
+ */
+export type ApprovalResult = {
+  decision: ApprovalDecision
+  reasons: string[]
+}
+
+/**
+ * Rules of an `ApprovalPolicy`. All rules are optional, a policy without rules approves every
+ * request. Hbar amounts given as numbers are in hbar, token amounts are in the smallest
+ * denomination of the token.
+ *
+ * Denied (the request is rejected):
+ * `deniedMethods` - JSON-RPC methods which are always rejected.
+ * `allowedOrigins` - dApp origins allowed to send requests, e.g. `https://dapp.hedera.app`.
+ * `deniedOrigins` - dApp origins which are always rejected.
+ * `allowUnverifiedOrigin` - use the self-reported metadata URL of the dApp as its origin when
+ * the Verify API did not validate it. Requests flagged as scam are always rejected.
+ * `deniedTransactionTypes` - `TransactionBody` data cases which are always rejected, e.g.
+ * `cryptoDelete`.
+ *
+ * Escalated (the request is reviewed by `onEscalate`):
+ * `approvedMethods` - JSON-RPC methods approved without review.
+ * `approvedTransactionTypes` - `TransactionBody` data cases approved without review, e.g.
+ * `cryptoTransfer` or `consensusSubmitMessage`.
+ * `maxHbarTransfer` - hbar debited from the signer per transaction.
+ * `maxTokenTransfer` - amount of a token debited from the signer per transaction, by token ID.
+ * `allowedRecipients` - accounts which may receive hbar, tokens or NFTs from the signer.
+ * `sessionSpendLimit` - hbar debited from the signers by all approved requests of a session.
+ * The spend is counted when a request is approved, as signed transactions may be executed
+ * outside of the wallet, so transactions which fail later still count towards the limit.
+ *
+ * The hbar of transfers, contract calls and the initial balance of new accounts and contracts
+ * is priced. With any of the transfer rules above set, transactions which move value the policy
+ * can't price, e.g. allowances or scheduled transactions, are escalated.
+ *
+ * `onEscalate` - reviews escalated requests, e.g. by prompting the user. Without it, escalated
+ * requests are rejected.
+ */
+export type ApprovalPolicyOptions = {
+  deniedMethods?: HederaJsonRpcMethod[]
+  allowedOrigins?: string[]
+  deniedOrigins?: string[]
+  allowUnverifiedOrigin?: boolean
+  deniedTransactionTypes?: string[]
+  approvedMethods?: HederaJsonRpcMethod[]
+  approvedTransactionTypes?: string[]
+  maxHbarTransfer?: Hbar | number
+  maxTokenTransfer?: { [tokenId: string]: number | string }
+  allowedRecipients?: (AccountId | string)[]
+  sessionSpendLimit?: Hbar | number
+  onEscalate?: (request: ApprovalRequest, reasons: string[]) => boolean | Promise<boolean>
+}
+
+// `TransactionBody` data cases which move value that `ApprovalPolicy` can't price
+const UNPRICED_TRANSACTION_TYPES = [
+  'contractDeleteInstance',
+  'cryptoApproveAllowance',
+  'cryptoDelete',
+  'ethereumTransaction',
+  'scheduleCreate',
+]
+
+function toHbar(amount: Hbar | number): Hbar {
+  return typeof amount === 'number' ? new Hbar(amount) : amount
+}
+
+function toOrigin(url: string): string {
+  try {
+    return new URL(url).origin
+  } catch (e) {
+    return url
+  }
+}
+
+/**
+ * Wraps HIP-820 `TransactionBody` bytes in an unsigned `Transaction`.
+ * @param bodyBytes - `TransactionBody` protobuf bytes
+ * @returns `Transaction`
+ */
+function transactionBodyBytesToTransaction(bodyBytes: Uint8Array): Transaction {
+  const signedTransactionBytes = proto.SignedTransaction.encode({ bodyBytes }).finish()
+  return Transaction.fromBytes(
+    proto.TransactionList.encode({ transactionList: [{ signedTransactionBytes }] }).finish(),
+  )
+}
+
+/**
+ * Decides whether a wallet executes a session request, before `Wallet.executeSessionRequest`
+ * signs or submits anything. Set it as `Wallet.approvalPolicy`.
+ *
+ * Denying rules are checked first, so a denied request is never escalated. The hbar debited by
+ * approved requests is counted towards the `sessionSpendLimit` of their session.
+ */
+export class ApprovalPolicy {
+  private sessionSpend = new Map<string, Hbar>()
+
+  constructor(private options: ApprovalPolicyOptions = {}) {}
+
+  /**
+   * Builds the `ApprovalRequest` of a parsed session request.
+   * @param event - The WalletConnect session request event
+   * @param request - The session request parsed by `Wallet.parseSessionRequest`
+   * @param session - The session of the request (optional)
+   * @returns `ApprovalRequest`
+   */
+  buildRequest(
+    event: Web3WalletTypes.SessionRequest,
+    { method, topic, body, accountId }: ParsedHederaSessionRequest,
+    session?: SessionTypes.Struct,
+  ): ApprovalRequest {
+    const transactions = (
+      body instanceof Uint8Array
+        ? [transactionBodyBytesToTransaction(body)]
+        : Array.isArray(body)
+          ? body.filter((item): item is Transaction => item instanceof Transaction)
+          : []
+    ).map((transaction) => ({
+      type: proto.TransactionBody.decode(transaction._signedTransactions.get(0).bodyBytes!)
+        .data!,
+      transaction,
+    }))
+    const verified = event.verifyContext?.verified
+    const origin =
+      verified?.validation === 'VALID' && !verified.isScam
+        ? verified.origin
+        : this.options.allowUnverifiedOrigin && !verified?.isScam
+          ? session?.peer.metadata.url
+          : undefined
+
+    return {
+      event,
+      method,
+      topic,
+      origin: origin ? toOrigin(origin) : undefined,
+      accountId,
+      transactions,
+      query: body instanceof Query ? body : undefined,
+      hbarSpent: transactions.reduce(
+        (spent, { transaction }) =>
+          Hbar.fromTinybars(
+            spent.toTinybars().add(this.debits(transaction, accountId).hbar.toTinybars()),
+          ),
+        new Hbar(0),
+      ),
+    }
+  }
+
+  /**
+   * Evaluates the rules of the policy, without escalating.
+   * @param request - `ApprovalRequest` object
+   * @returns `ApprovalResult`
+   */
+  evaluate(request: ApprovalRequest): ApprovalResult {
+    const {
+      deniedMethods,
+      allowedOrigins,
+      deniedOrigins,
+      deniedTransactionTypes,
+      approvedMethods,
+      approvedTransactionTypes,
+      maxHbarTransfer,
+      maxTokenTransfer,
+      allowedRecipients,
+      sessionSpendLimit,
+    } = this.options
+    const { event, method, origin, accountId, transactions } = request
+
+    const denied: string[] = []
+    if (event.verifyContext?.verified.isScam) {
+      denied.push(`Origin ${event.verifyContext.verified.origin} is flagged as scam`)
+    }
+    if (deniedMethods?.includes(method)) denied.push(`Method ${method} is denied`)
+    const origins = (urls?: string[]) => urls?.map(toOrigin) ?? []
+    if (
+      (allowedOrigins && (!origin || !origins(allowedOrigins).includes(origin))) ||
+      (origin && origins(deniedOrigins).includes(origin))
+    ) {
+      denied.push(`Origin ${origin ?? 'unknown'} is not allowed`)
+    }
+    for (const { type } of transactions) {
+      if (deniedTransactionTypes?.includes(type))
+        denied.push(`Transaction type ${type} is denied`)
+    }
+    if (denied.length) return { decision: 'deny', reasons: denied }
+
+    const escalated: string[] = []
+    if (approvedMethods && !approvedMethods.includes(method)) {
+      escalated.push(`Method ${method} requires review`)
+    }
+    const hasTransferRules =
+      maxHbarTransfer != null ||
+      maxTokenTransfer != null ||
+      allowedRecipients != null ||
+      sessionSpendLimit != null
+    for (const { type, transaction } of transactions) {
+      if (approvedTransactionTypes && !approvedTransactionTypes.includes(type)) {
+        escalated.push(`Transaction type ${type} requires review`)
+      }
+
+      const { hbar, tokens, recipients } = this.debits(transaction, accountId)
+      const transactionId = transaction.transactionId?.toString() ?? type
+      if (hasTransferRules && UNPRICED_TRANSACTION_TYPES.includes(type)) {
+        escalated.push(`Transaction ${transactionId} of type ${type} can't be priced`)
+      }
+      if (maxHbarTransfer != null) {
+        const max = toHbar(maxHbarTransfer)
+        if (hbar.toTinybars().greaterThan(max.toTinybars())) {
+          escalated.push(`Transaction ${transactionId} transfers ${hbar}, more than ${max}`)
+        }
+      }
+      for (const [tokenId, amount] of tokens) {
+        const max = maxTokenTransfer?.[tokenId]
+        if (max != null && amount.greaterThan(max)) {
+          escalated.push(
+            `Transaction ${transactionId} transfers ${amount} of token ${tokenId}, more than ${max}`,
+          )
+        }
+      }
+      const allowed = allowedRecipients?.map((recipient) => recipient.toString())
+      for (const recipient of recipients) {
+        if (allowed && !allowed.includes(recipient)) {
+          escalated.push(`Recipient ${recipient} is not allowed`)
+        }
+      }
+    }
+    if (sessionSpendLimit != null) {
+      const limit = toHbar(sessionSpendLimit)
+      const spent = this.getSessionSpend(request.topic)
+        .toTinybars()
+        .add(request.hbarSpent.toTinybars())
+      if (spent.greaterThan(limit.toTinybars())) {
+        escalated.push(`Session spend of ${Hbar.fromTinybars(spent)} exceeds ${limit}`)
+      }
+    }
+    if (escalated.length) return { decision: 'escalate', reasons: escalated }
+
+    return { decision: 'approve', reasons: [] }
+  }
+
+  /**
+   * Evaluates the rules of the policy and escalates the request to `onEscalate` if needed.
+   * Approved requests are counted towards the session spend.
+   * @param request - `ApprovalRequest` object
+   * @returns `ApprovalResult` with a decision of `approve` or `deny`
+   */
+  async review(request: ApprovalRequest): Promise<ApprovalResult> {
+    const result = this.evaluate(request)
+    if (result.decision === 'escalate') {
+      const { onEscalate } = this.options
+      const approved = onEscalate ? await onEscalate(request, result.reasons) : false
+      if (!approved) return { decision: 'deny', reasons: result.reasons }
+    }
+    if (result.decision === 'deny') return result
+
+    this.sessionSpend.set(
+      request.topic,
+      Hbar.fromTinybars(
+        this.getSessionSpend(request.topic).toTinybars().add(request.hbarSpent.toTinybars()),
+      ),
+    )
+    return { decision: 'approve', reasons: [] }
+  }
+
+  /**
+   * Gets the hbar debited from the signers by the approved requests of a session.
+   * @param topic - The session topic
+   * @returns `Hbar`
+   */
+  getSessionSpend(topic: string): Hbar {
+    return this.sessionSpend.get(topic) ?? new Hbar(0)
+  }
+
+  /**
+   * Resets the session spend, e.g. when the session is deleted.
+   * @param topic - The session topic
+   */
+  resetSessionSpend(topic: string) {
+    this.sessionSpend.delete(topic)
+  }
+
+  /**
+   * Collects the amounts debited from the signer by a transaction, or from the payer of the
+   * transaction when there is no signer, and the accounts credited by these transfers. The
+   * transfers of a `TransferTransaction`, the payable amount of a contract call and the initial
+   * balance of a new account or contract are counted.
+   */
+  private debits(transaction: Transaction, signerAccountId?: AccountId) {
+    const payer = transaction.transactionId?.accountId?.toString()
+    const signer = signerAccountId?.toString() ?? payer
+    const debits = {
+      hbar: new Hbar(0),
+      tokens: [] as [string, ReturnType<Hbar['toTinybars']>][],
+      recipients: new Set<string>(),
+    }
+    // paid by the payer of the transaction, read from the body as the SDK decodes the initial
+    // balance of a new account as hbar instead of tinybar
+    const { contractCall, contractCreateInstance, cryptoCreateAccount } =
+      proto.TransactionBody.decode(transaction._signedTransactions.get(0).bodyBytes!)
+    const value = Hbar.fromTinybars(
+      contractCall?.amount ??
+        contractCreateInstance?.initialBalance ??
+        cryptoCreateAccount?.initialBalance ??
+        0,
+    )
+    if (signer === payer && value.toTinybars().greaterThan(0)) {
+      debits.hbar = value
+      if (contractCall?.contractID) {
+        debits.recipients.add(ContractId._fromProtobuf(contractCall.contractID).toString())
+      }
+    }
+    if (!(transaction instanceof TransferTransaction)) return debits
+
+    const hbarTransfers = [...transaction.hbarTransfers]
+    const hbar = hbarTransfers.find(([accountId]) => accountId.toString() === signer)?.[1]
+    if (hbar?.isNegative()) {
+      debits.hbar = hbar.negated()
+      hbarTransfers
+        .filter(
+          ([accountId, amount]) => accountId.toString() !== signer && !amount.isNegative(),
+        )
+        .forEach(([accountId]) => debits.recipients.add(accountId.toString()))
+    }
+    for (const [tokenId, transfers] of transaction.tokenTransfers) {
+      const tokenTransfers = [...transfers]
+      const amount = tokenTransfers.find(([accountId]) => accountId.toString() === signer)?.[1]
+      if (!amount?.isNegative()) continue
+
+      debits.tokens.push([tokenId.toString(), amount.negate()])
+      tokenTransfers
+        .filter(
+          ([accountId, amount]) => accountId.toString() !== signer && !amount.isNegative(),
+        )
+        .forEach(([accountId]) => debits.recipients.add(accountId.toString()))
+    }
+    for (const [, transfers] of transaction.nftTransfers) {
+      transfers
+        .filter(({ sender }) => sender.toString() === signer)
+        .forEach(({ recipient }) => debits.recipients.add(recipient.toString()))
+    }
+
+    return debits
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  AccountBalance,
+  AccountBalanceQuery,
+  AccountId,
+  AccountInfo,
+  AccountInfoQuery,
+  AccountRecordsQuery,
+  Executable,
+  Key,
+  LedgerId,
+  PublicKey,
+  SignerSignature,
+  Transaction,
+  TransactionId,
+  TransactionRecord,
+  type Provider as HederaWalletProvider,
+  type Wallet as HederaWallet,
+} from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+import {
+  Uint8ArrayToBase64String,
+  base64StringToSignatureMap,
+  signatureMapToPublicKeySignatures,
+} from '../shared'
+
+/**
+ * Signs with keys kept outside of the wallet process, e.g. by a custody service, an HSM or a
+ * separate signing process. Used by `ExternalSigner` to sign transactions, messages and query
+ * payments.
+ */
+export interface SigningBackend {
+  /**
+   * Signs bytes on behalf of an account.
+   * @param bodyBytes - The `TransactionBody` bytes of a transaction or the bytes of a message
+   * @param accountId - The account the bytes are signed for
+   * @returns Promise\<proto.ISignatureMap\> - the signatures of the keys of the account, the
+   * `pubKeyPrefix` of every sigPair must be the full raw public key
+   */
+  sign(bodyBytes: Uint8Array, accountId: AccountId): Promise<proto.ISignatureMap>
+}
+
+/**
+ * `SigningBackend` which sends the bytes to sign to an HTTP endpoint.
+ *
+ * The endpoint receives a POST request with a JSON body `{ bodyBytes, accountId }`, where
+ * `bodyBytes` is base64 encoded, and responds with `{ signatureMap }`, the base64 encoded
+ * `proto.SignatureMap` bytes as returned by `hedera_signTransaction`.
+ * `scripts/examples/signer.mjs` is a stand-in for such an endpoint, it expects a token in the
+ * `Authorization` header passed with `headers`.
+ */
+export class HttpSigningBackend implements SigningBackend {
+  /**
+   * @param url - The URL of the signing endpoint
+   * @param headers - Headers sent with every request, e.g. to authenticate the wallet (optional)
+   */
+  constructor(
+    private readonly url: string,
+    private readonly headers: { [name: string]: string } = {},
+  ) {}
+
+  async sign(bodyBytes: Uint8Array, accountId: AccountId): Promise<proto.ISignatureMap> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        bodyBytes: Uint8ArrayToBase64String(bodyBytes),
+        accountId: accountId.toString(),
+      }),
+    })
+    if (!response.ok) {
+      throw new Error(
+        `Signing backend responded with ${response.status} ${response.statusText}`,
+      )
+    }
+
+    const { signatureMap } = await response.json()
+    return base64StringToSignatureMap(signatureMap)
+  }
+}
+
+/**
+ * Hedera `Wallet` which signs with a `SigningBackend` instead of a private key, so the key
+ * never is inside the wallet process. Can be passed to `Wallet.executeSessionRequest` and the
+ * JSON-RPC handlers in place of the `Wallet` of the Hedera SDK.
+ *
+ * Transactions and messages are signed with every key in the signature maps of the backend.
+ * Queries are paid by the account and signed with `publicKey`.
+ */
+export class ExternalSigner implements HederaWallet {
+  readonly accountId: AccountId
+  readonly provider: HederaWalletProvider | undefined
+
+  /**
+   * Signs bytes with `publicKey`, used to sign the payment of queries.
+   */
+  readonly signer = async (message: Uint8Array): Promise<Uint8Array> => {
+    const publicKeySignature = (await this.signBytes(message)).find(([publicKey]) =>
+      publicKey.equals(this.publicKey),
+    )
+    if (!publicKeySignature) {
+      throw new Error(
+        `Signing backend did not sign with the key ${this.publicKey.toStringDer()}`,
+      )
+    }
+    return publicKeySignature[1]
+  }
+
+  /**
+   * @param accountId - The account ID of the signer
+   * @param publicKey - The public key of the account held by the backend
+   * @param backend - The `SigningBackend` holding the private keys of the account
+   * @param provider - The provider to send transactions and queries (optional)
+   */
+  constructor(
+    accountId: AccountId | string,
+    public readonly publicKey: PublicKey,
+    private readonly backend: SigningBackend,
+    provider?: HederaWalletProvider,
+  ) {
+    this.accountId = typeof accountId === 'string' ? AccountId.fromString(accountId) : accountId
+    this.provider = provider
+  }
+
+  getProvider(): HederaWalletProvider | undefined {
+    return this.provider
+  }
+
+  getAccountId(): AccountId {
+    return this.accountId
+  }
+
+  getAccountKey(): Key {
+    return this.publicKey
+  }
+
+  getLedgerId(): LedgerId | null {
+    return this.provider?.getLedgerId() ?? null
+  }
+
+  getNetwork(): { [key: string]: string | AccountId } {
+    return this.provider?.getNetwork() ?? {}
+  }
+
+  getMirrorNetwork(): string[] {
+    return this.provider?.getMirrorNetwork() ?? []
+  }
+
+  async sign(messages: Uint8Array[]): Promise<SignerSignature[]> {
+    const signatures: SignerSignature[] = []
+    for (const message of messages) {
+      for (const [publicKey, signature] of await this.signBytes(message)) {
+        signatures.push(
+          new SignerSignature({ publicKey, signature, accountId: this.accountId }),
+        )
+      }
+    }
+    return signatures
+  }
+
+  getAccountBalance(): Promise<AccountBalance> {
+    return this.call(new AccountBalanceQuery().setAccountId(this.accountId))
+  }
+
+  getAccountInfo(): Promise<AccountInfo> {
+    return this.call(new AccountInfoQuery().setAccountId(this.accountId))
+  }
+
+  getAccountRecords(): Promise<TransactionRecord[]> {
+    return this.call(new AccountRecordsQuery().setAccountId(this.accountId))
+  }
+
+  /**
+   * Signs the body of the transaction for each node with the backend, the transaction must
+   * be frozen.
+   */
+  async signTransaction<T extends Transaction>(transaction: T): Promise<T> {
+    if (!transaction.isFrozen()) throw new Error('Transaction must be frozen to be signed')
+
+    const signatures = new Map<string, [PublicKey, Uint8Array][]>()
+    for (const { bodyBytes } of transaction._signedTransactions.list) {
+      signatures.set(Uint8ArrayToBase64String(bodyBytes!), await this.signBytes(bodyBytes!))
+    }
+
+    // every body is signed with the same keys
+    const publicKeys = [...signatures.values()][0]?.map(([publicKey]) => publicKey) ?? []
+    for (const publicKey of publicKeys) {
+      await transaction.signWith(publicKey, async (bodyBytes) => {
+        const publicKeySignature = signatures
+          .get(Uint8ArrayToBase64String(bodyBytes))
+          ?.find(([key]) => key.equals(publicKey))
+        if (!publicKeySignature) {
+          throw new Error(
+            `Signing backend did not sign with the key ${publicKey.toStringDer()}`,
+          )
+        }
+        return publicKeySignature[1]
+      })
+    }
+    return transaction
+  }
+
+  async checkTransaction<T extends Transaction>(transaction: T): Promise<T> {
+    const transactionId = transaction.transactionId
+    if (transactionId?.accountId && transactionId.accountId.compare(this.accountId) !== 0) {
+      throw new Error("transaction's ID constructed with a different account ID")
+    }
+    return transaction
+  }
+
+  async populateTransaction<T extends Transaction>(transaction: T): Promise<T> {
+    transaction._freezeWithAccountId(this.accountId)
+    if (!transaction.transactionId) {
+      transaction.setTransactionId(TransactionId.generate(this.accountId))
+    }
+    if (!transaction.nodeAccountIds?.length) {
+      if (!this.provider) return transaction
+      transaction.setNodeAccountIds(
+        Object.values(this.provider.getNetwork()).map((nodeAccountId) =>
+          typeof nodeAccountId === 'string'
+            ? AccountId.fromString(nodeAccountId)
+            : nodeAccountId,
+        ),
+      )
+    }
+    return transaction.freeze()
+  }
+
+  call<RequestT, ResponseT, OutputT>(
+    request: Executable<RequestT, ResponseT, OutputT>,
+  ): Promise<OutputT> {
+    if (!this.provider) {
+      throw new Error("cannot send request with an wallet that doesn't contain a provider")
+    }
+    return this.provider.call(
+      request._setOperatorWith(this.accountId, this.publicKey, this.signer),
+    )
+  }
+
+  private async signBytes(bytes: Uint8Array): Promise<[PublicKey, Uint8Array][]> {
+    return signatureMapToPublicKeySignatures(await this.backend.sign(bytes, this.accountId))
+  }
+}
@@ -1,10 +1,100 @@
 import type { Web3WalletTypes } from '@walletconnect/web3wallet'
 import type { SessionTypes } from '@walletconnect/types'
-import type { Transaction, Query, AccountId, Wallet as HederaWallet } from '@hashgraph/sdk'
-import type { HederaJsonRpcMethod, HederaChainId } from '../shared'
-import type Provider from './provider'
+import type {
+  Transaction,
+  Query,
+  AccountId,
+  PublicKey,
+  Provider as HederaWalletProvider,
+  Wallet as HederaWallet,
+} from '@hashgraph/sdk'
+import type {
+  HederaJsonRpcMethod,
+  HederaChainId,
+  GetNodeAddressesParams,
+  ExecuteTransactionParams,
+  SignMessageParams,
+  SignQueryAndSendParams,
+  SignAndExecuteTransactionParams,
+  SignTransactionParams,
+  LegacySignTransactionParams,
+  TransactionExecutionOptions,
+} from '../shared'
+import type { SigningBackend } from './signer'
 
-export interface HederaNativeWallet {
+/*
+ * Params of each JSON-RPC method, with the body and signer account ID they are parsed to
+ */
+export interface HederaSessionRequestTypes {
+  [HederaJsonRpcMethod.GetNodeAddresses]: {
+    params: GetNodeAddressesParams
+    body: undefined
+    accountId: undefined
+  }
+  [HederaJsonRpcMethod.ExecuteTransaction]: {
+    params: ExecuteTransactionParams
+    body: Transaction[] // signed transactions
+    accountId: undefined
+    options: Required<TransactionExecutionOptions>
+  }
+  [HederaJsonRpcMethod.SignMessage]: {
+    params: SignMessageParams
+    body: Uint8Array[]
+    accountId: AccountId
+  }
+  [HederaJsonRpcMethod.SignQueryAndSend]: {
+    params: SignQueryAndSendParams
+    body: Query<any>
+    accountId: AccountId
+  }
+  [HederaJsonRpcMethod.SignAndExecuteTransaction]: {
+    params: SignAndExecuteTransactionParams
+    body: Transaction[]
+    accountId: AccountId
+    options: Required<TransactionExecutionOptions>
+  }
+  [HederaJsonRpcMethod.SignTransaction]: {
+    params: SignTransactionParams | LegacySignTransactionParams
+    body: Uint8Array | Transaction[] // HIP-820 `TransactionBody` bytes or legacy transactions
+    accountId: AccountId
+  }
+}
+
+/*
+ * Session request parsed by `parseSessionRequest`, discriminated by `method`
+ */
+export type ParsedHederaSessionRequest<M extends HederaJsonRpcMethod = HederaJsonRpcMethod> = {
+  [K in M]: {
+    method: K
+    chainId: HederaChainId
+    id: number // session request id
+    topic: string // session topic
+  } & HederaSessionRequestTypes[K]
+}[M]
+
+/*
+ * Session request which failed to parse, returned by `parseSessionRequest` with
+ * `shouldThrow = false`. Only the id and topic are needed to reject it
+ */
+export type UnparsedHederaSessionRequest = {
+  method: string
+  chainId: string
+  id: number
+  topic: string
+}
+
+export type HederaJsonRpcHandlers = {
+  [M in HederaJsonRpcMethod]: (
+    id: number,
+    topic: string,
+    body: HederaSessionRequestTypes[M]['body'],
+    signer: HederaWallet,
+    // only used by the methods which execute transactions
+    options?: TransactionExecutionOptions,
+  ) => Promise<void>
+}
+
+export interface HederaNativeWallet extends HederaJsonRpcHandlers {
   /*
    * Session helpers
    */
@@ -13,21 +103,31 @@ export interface HederaNativeWallet {
     { id, params }: Web3WalletTypes.SessionProposal,
   ): Promise<SessionTypes.Struct>
 
+  updateSessionAccounts(topic: string, accounts: string[]): Promise<SessionTypes.Struct>
+
+  updateSessionChain(
+    topic: string,
+    chainId: HederaChainId,
+    accountIds?: (AccountId | string)[],
+  ): Promise<SessionTypes.Struct>
+
+  parseSessionRequest(
+    event: Web3WalletTypes.SessionRequest,
+    shouldThrow?: true,
+  ): ParsedHederaSessionRequest
   parseSessionRequest(
     event: Web3WalletTypes.SessionRequest,
     shouldThrow: boolean,
-  ): {
-    method: HederaJsonRpcMethod
-    chainId: HederaChainId
-    id: number // session request id
-    topic: string // session topic
-    body?: Transaction | Transaction[] | Query<any> | Uint8Array[] | undefined
-    accountId?: AccountId
-  }
+  ): ParsedHederaSessionRequest | UnparsedHederaSessionRequest
+
+  resolveHederaWallet(
+    request: ParsedHederaSessionRequest,
+    provider?: HederaWalletProvider,
+  ): HederaWallet
 
   executeSessionRequest(
     event: Web3WalletTypes.SessionRequest,
-    hederaWallet: HederaWallet,
+    hederaWallet?: HederaWallet,
   ): Promise<void>
 
   rejectSessionRequest(
@@ -42,53 +142,16 @@ export interface HederaNativeWallet {
     chainId: HederaChainId,
     accountId: AccountId | string,
     privateKey: string,
-    _provider?: Provider,
+    _provider?: HederaWalletProvider,
   ): HederaWallet
 
-  /*
-   * JSON-RPC methods
-   */
-  [HederaJsonRpcMethod.GetNodeAddresses](
-    id: number,
-    topic: string,
-    _: any, // ignore this param to be consistent call signature with other functions
-    signer: HederaWallet,
-  ): Promise<void>
-
-  [HederaJsonRpcMethod.ExecuteTransaction](
-    id: number,
-    topic: string,
-    body: Transaction[],
-    signer: HederaWallet,
-  ): Promise<void>
-
-  [HederaJsonRpcMethod.SignMessage](
-    id: number,
-    topic: string,
-    body: Uint8Array[],
-    signer: HederaWallet,
-  ): Promise<void>
-
-  [HederaJsonRpcMethod.SignQueryAndSend](
-    id: number,
-    topic: string,
-    body: Query<any>,
-    signer: HederaWallet,
-  ): Promise<void>
-
-  [HederaJsonRpcMethod.SignAndExecuteTransaction](
-    id: number,
-    topic: string,
-    body: Transaction[],
-    signer: HederaWallet,
-  ): Promise<void>
-
-  [HederaJsonRpcMethod.SignTransaction](
-    id: number,
-    topic: string,
-    body: Transaction[],
-    signer: HederaWallet,
-  ): Promise<void>
+  getExternalSigner(
+    chainId: HederaChainId,
+    accountId: AccountId | string,
+    publicKey: PublicKey,
+    backend: SigningBackend,
+    _provider?: HederaWalletProvider,
+  ): HederaWallet
 }
 
 // placeholder for EIP:155 support
@@ -0,0 +1,135 @@
+import { Client, LedgerId, PrivateKey, TopicCreateTransaction } from '@hashgraph/sdk'
+import { Web3WalletTypes } from '@walletconnect/web3wallet'
+import {
+  DAppConnector,
+  DAppConnectorEvent,
+  HederaChainId,
+  HederaSessionEvent,
+  Wallet,
+  messageToBase64String,
+  verifyMessageSignature,
+} from '../src'
+import Provider from '../src/lib/wallet/provider'
+import {
+  LoopbackRelay,
+  MemoryKeyValueStorage,
+  closeLoopbackClient,
+  createLoopbackWallet,
+} from './_relay'
+import { dAppMetadata, projectId, testPrivateKeyECDSA, testUserAccountId } from './_helpers'
+
+describe('dApp and wallet over the loopback relay', () => {
+  const privateKey = PrivateKey.fromStringDer(testPrivateKeyECDSA)
+  const account = `${HederaChainId.Testnet}:${testUserAccountId.toString()}`
+  // no address book updates, the client is only used for the node account IDs
+  const client = Client.forTestnet({ scheduleNetworkUpdate: false })
+  let relay: LoopbackRelay
+  let wallet: Wallet
+  let connector: DAppConnector
+  let sessionApproved: Promise<unknown>
+
+  beforeAll(async () => {
+    jest.useRealTimers()
+    relay = await LoopbackRelay.start()
+  })
+
+  beforeEach(async () => {
+    wallet = await createLoopbackWallet(relay)
+    wallet.on('session_proposal', (proposal: Web3WalletTypes.SessionProposal) => {
+      sessionApproved = wallet.buildAndApproveSession([account], proposal)
+    })
+    wallet.on('session_request', async (event: Web3WalletTypes.SessionRequest) => {
+      const { chainId } = wallet.parseSessionRequest(event)
+      const hederaWallet = wallet.getHederaWallet(
+        chainId,
+        testUserAccountId.toString(),
+        testPrivateKeyECDSA,
+        new Provider(client),
+      )
+      await wallet.executeSessionRequest(event, hederaWallet)
+    })
+
+    connector = new DAppConnector(dAppMetadata, LedgerId.TESTNET, projectId, undefined, [
+      HederaSessionEvent.AccountsChanged,
+      HederaSessionEvent.ChainChanged,
+    ])
+    await connector.init({
+      logger: 'error',
+      relayUrl: relay.url,
+      storage: new MemoryKeyValueStorage(),
+    })
+    await connector.connect((uri) => wallet.core.pairing.pair({ uri }))
+    // the wallet waits for the acknowledgement of the session
+    await sessionApproved
+  }, 15_000)
+
+  afterEach(async () => {
+    await closeLoopbackClient(connector)
+    await closeLoopbackClient(wallet)
+  })
+
+  afterAll(async () => {
+    await relay.close()
+    client.close()
+  })
+
+  it('should pair and settle a session with a signer for the wallet account', () => {
+    const [signer] = connector.signers
+    const [session] = Object.values(wallet.getActiveSessions())
+
+    expect(connector.signers).toHaveLength(1)
+    expect(signer.getAccountId().toString()).toBe(testUserAccountId.toString())
+    expect(signer.getLedgerId()).toBe(LedgerId.TESTNET)
+    expect(signer.topic).toBe(session.topic)
+    expect(relay.getMessages(session.topic).length).toBeGreaterThan(0)
+  })
+
+  it('should sign a message in the wallet', async () => {
+    const { signatureMap } = await connector.signMessage({
+      signerAccountId: account,
+      message: messageToBase64String('Hello Hedera'),
+    })
+
+    expect(verifyMessageSignature('Hello Hedera', signatureMap, privateKey.publicKey)).toBe(
+      true,
+    )
+  }, 15_000)
+
+  it('should sign a transaction with the DAppSigner', async () => {
+    const transaction = new TopicCreateTransaction()
+
+    await transaction.signWithSigner(connector.getSigner(testUserAccountId))
+
+    expect(transaction.nodeAccountIds).toHaveLength(1)
+    expect(privateKey.publicKey.verifyTransaction(transaction)).toBe(true)
+  }, 15_000)
+
+  it('should rebuild the signers when the wallet changes the session accounts', async () => {
+    const [signer] = connector.signers
+    const accountsChanged = new Promise((resolve) =>
+      connector.once(DAppConnectorEvent.AccountsChanged, resolve),
+    )
+
+    await wallet.updateSessionAccounts(signer.topic, [
+      account,
+      `${HederaChainId.Testnet}:0.0.54321`,
+    ])
+    await accountsChanged
+
+    expect(connector.signers.map((signer) => signer.getAccountId().toString())).toEqual([
+      testUserAccountId.toString(),
+      '0.0.54321',
+    ])
+  }, 15_000)
+
+  it('should delete the session in the wallet when the dApp disconnects', async () => {
+    const [signer] = connector.signers
+    const sessionDeleted = new Promise((resolve) => wallet.once('session_delete', resolve))
+
+    await connector.disconnect(signer.topic)
+    await sessionDeleted
+
+    expect(connector.signers).toEqual([])
+    expect(wallet.getActiveSessions()).toEqual({})
+  }, 15_000)
+})
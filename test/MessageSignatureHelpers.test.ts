@@ -0,0 +1,112 @@
+import { AccountId, KeyList, PrivateKey, SignerSignature } from '@hashgraph/sdk'
+import {
+  base64StringToMessage,
+  messageToBase64String,
+  signatureMapToBase64,
+  signerSignaturesToSignatureMap,
+  verifyAccountMessageSignature,
+  verifyMessageSignature,
+} from '../src'
+import { testPrivateKeyECDSA, testPrivateKeyED25519, testUserAccountId } from './_helpers'
+
+describe('Message signature helpers', () => {
+  const message = 'Hello World'
+  const ed25519PrivateKey = PrivateKey.fromStringDer(testPrivateKeyED25519)
+  const ecdsaPrivateKey = PrivateKey.fromStringDer(testPrivateKeyECDSA)
+  const otherPrivateKey = PrivateKey.fromStringED25519(
+    '302e020100300506032b657004220420' + '11'.repeat(32),
+  )
+
+  // signs the message the same way as the wallet does for `hedera_signMessage`
+  function signMessage(privateKeys: PrivateKey[], text = message): string {
+    const [messageBytes] = base64StringToMessage(messageToBase64String(text))
+    return signatureMapToBase64(
+      signerSignaturesToSignatureMap(
+        privateKeys.map(
+          (privateKey) =>
+            new SignerSignature({
+              publicKey: privateKey.publicKey,
+              signature: privateKey.sign(messageBytes),
+              accountId: testUserAccountId,
+            }),
+        ),
+      ),
+    )
+  }
+
+  describe(verifyMessageSignature.name, () => {
+    it.each([
+      ['ED25519', ed25519PrivateKey],
+      ['ECDSA', ecdsaPrivateKey],
+    ])('should verify a message signed with %s key', (_, privateKey) => {
+      const signatureMap = signMessage([privateKey])
+
+      expect(verifyMessageSignature(message, signatureMap, privateKey.publicKey)).toBe(true)
+    })
+
+    it('should not verify a signature of another message', () => {
+      const signatureMap = signMessage([ed25519PrivateKey], 'Goodbye World')
+
+      expect(verifyMessageSignature(message, signatureMap, ed25519PrivateKey.publicKey)).toBe(
+        false,
+      )
+    })
+
+    it('should not verify a signature of another key', () => {
+      const signatureMap = signMessage([otherPrivateKey])
+
+      expect(verifyMessageSignature(message, signatureMap, ed25519PrivateKey.publicKey)).toBe(
+        false,
+      )
+    })
+
+    it('should not verify the message without the signed message prefix', () => {
+      const signature = ed25519PrivateKey.sign(Buffer.from(message))
+      const signatureMap = {
+        sigPair: [ed25519PrivateKey.publicKey._toProtobufSignature(signature)],
+      }
+
+      expect(verifyMessageSignature(message, signatureMap, ed25519PrivateKey.publicKey)).toBe(
+        false,
+      )
+    })
+  })
+
+  describe(verifyAccountMessageSignature.name, () => {
+    it('should verify a message with the resolved account key', async () => {
+      const signatureMap = signMessage([ecdsaPrivateKey])
+      const resolveKey = jest.fn(() => ecdsaPrivateKey.publicKey)
+
+      await expect(
+        verifyAccountMessageSignature(message, signatureMap, '0.0.12345', resolveKey),
+      ).resolves.toBe(true)
+      expect(resolveKey).toHaveBeenCalledWith(AccountId.fromString('0.0.12345'))
+    })
+
+    it('should verify a threshold key with an async resolver', async () => {
+      const keyList = KeyList.of(
+        ed25519PrivateKey.publicKey,
+        ecdsaPrivateKey.publicKey,
+        otherPrivateKey.publicKey,
+      ).setThreshold(2)
+      const resolveKey = async () => keyList
+
+      await expect(
+        verifyAccountMessageSignature(
+          message,
+          signMessage([ed25519PrivateKey, ecdsaPrivateKey]),
+          testUserAccountId,
+          resolveKey,
+        ),
+      ).resolves.toBe(true)
+      await expect(
+        verifyAccountMessageSignature(
+          message,
+          signMessage([ed25519PrivateKey]),
+          testUserAccountId,
+          resolveKey,
+        ),
+      ).resolves.toBe(false)
+    })
+  })
+})
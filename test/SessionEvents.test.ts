@@ -0,0 +1,135 @@
+import { LedgerId } from '@hashgraph/sdk'
+import { Core } from '@walletconnect/core'
+import Client, { SignClient } from '@walletconnect/sign-client'
+import { SessionTypes } from '@walletconnect/types'
+import {
+  DAppConnector,
+  DAppConnectorEvent,
+  DAppSigner,
+  HederaChainId,
+  HederaSessionEvent,
+  Wallet,
+} from '../src'
+import { dAppMetadata, projectId, useJsonFixture, walletMetadata } from './_helpers'
+
+describe('session events', () => {
+  const fakeSession = useJsonFixture('fakeSession') as SessionTypes.Struct
+  let session: SessionTypes.Struct
+  let wallet: Wallet
+  let connector: DAppConnector
+  let dAppHandlers: { [event: string]: (...args: any[]) => void }
+
+  const signerAccounts = (signers: DAppSigner[]) =>
+    signers.map((signer) => `${signer.getLedgerId().toString()}:${signer.getAccountId()}`)
+
+  beforeEach(async () => {
+    session = {
+      ...fakeSession,
+      namespaces: {
+        hedera: { ...fakeSession.namespaces.hedera, accounts: ['hedera:testnet:0.0.12345'] },
+      },
+    }
+
+    // dApp side: SignClient which stores the session synced by the relay
+    dAppHandlers = {}
+    const register = (event: string, handler: (...args: any[]) => void) => {
+      dAppHandlers[event] = handler
+    }
+    const client = {
+      on: register,
+      session: {
+        get: () => session,
+        get keys() {
+          return [session.topic]
+        },
+      },
+      core: { pairing: { events: { on: register } } },
+    } as unknown as Client
+    jest.spyOn(SignClient, 'init').mockResolvedValue(client)
+    connector = new DAppConnector(dAppMetadata, LedgerId.TESTNET, projectId)
+    jest.spyOn(connector as any, 'checkPersistedState').mockReturnValue([session])
+    await connector.init({ logger: 'error' })
+
+    // wallet side: relay session updates and events to the dApp
+    wallet = new Wallet({ core: new Core({ projectId }), metadata: walletMetadata })
+    jest
+      .spyOn(wallet, 'getActiveSessions')
+      .mockImplementation(() => ({ [session.topic]: session }))
+    jest.spyOn(wallet, 'updateSession').mockImplementation(async ({ topic, namespaces }) => {
+      session = { ...session, namespaces }
+      dAppHandlers.session_update({ id: 1, topic, params: { namespaces } })
+    })
+    jest
+      .spyOn(wallet, 'emitSessionEvent')
+      .mockImplementation(async ({ topic, event, chainId }) => {
+        dAppHandlers.session_event({ id: 2, topic, params: { event, chainId } })
+      })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it(`should rebuild the dApp signers on ${HederaSessionEvent.AccountsChanged}`, async () => {
+    const accountsChanged = jest.fn()
+    connector.on(DAppConnectorEvent.AccountsChanged, accountsChanged)
+    const accounts = ['hedera:testnet:0.0.12345', 'hedera:testnet:0.0.54321']
+
+    const updatedSession = await wallet.updateSessionAccounts(session.topic, accounts)
+
+    expect(updatedSession.namespaces.hedera.accounts).toEqual(accounts)
+    expect(updatedSession.namespaces.hedera.chains).toEqual([HederaChainId.Testnet])
+    expect(wallet.emitSessionEvent).toHaveBeenCalledWith({
+      topic: session.topic,
+      event: { name: HederaSessionEvent.AccountsChanged, data: accounts },
+      chainId: HederaChainId.Testnet,
+    })
+    expect(accountsChanged).toHaveBeenCalledWith({
+      topic: session.topic,
+      accounts,
+      signers: connector.signers,
+    })
+    expect(signerAccounts(connector.signers)).toEqual([
+      'testnet:0.0.12345',
+      'testnet:0.0.54321',
+    ])
+  })
+
+  it(`should rebuild the dApp signers on ${HederaSessionEvent.ChainChanged}`, async () => {
+    const chainChanged = jest.fn()
+    connector.on(DAppConnectorEvent.ChainChanged, chainChanged)
+
+    const updatedSession = await wallet.updateSessionChain(session.topic, HederaChainId.Mainnet)
+
+    expect(updatedSession.namespaces.hedera.accounts).toEqual([
+      'hedera:mainnet:0.0.12345',
+      'hedera:testnet:0.0.12345',
+    ])
+    expect(updatedSession.namespaces.hedera.chains).toEqual([
+      HederaChainId.Mainnet,
+      HederaChainId.Testnet,
+    ])
+    expect(chainChanged).toHaveBeenCalledWith({
+      topic: session.topic,
+      chainId: HederaChainId.Mainnet,
+      signers: connector.signers,
+    })
+    expect(signerAccounts(connector.signers)).toEqual([
+      'mainnet:0.0.12345',
+      'testnet:0.0.12345',
+    ])
+    expect(connector.getSigner('0.0.12345', LedgerId.MAINNET).getLedgerId()).toBe(
+      LedgerId.MAINNET,
+    )
+  })
+
+  it('should reject updates of unknown sessions', async () => {
+    await expect(
+      wallet.updateSessionAccounts('unknown', ['hedera:testnet:0.0.12345']),
+    ).rejects.toThrow('There is no active session with topic unknown')
+    await expect(wallet.updateSessionChain('unknown', HederaChainId.Mainnet)).rejects.toThrow(
+      'There is no active session with topic unknown',
+    )
+    expect(wallet.updateSession).not.toHaveBeenCalled()
+  })
+})
@@ -1,45 +1,140 @@
-import { TopicCreateTransaction } from '@hashgraph/sdk'
-import { HederaChainId, base64StringToSignatureMap, signatureMapToBase64 } from '../src'
+import { PrivateKey, PublicKey, SignerSignature, TopicCreateTransaction } from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+import {
+  Uint8ArrayToBase64String,
+  addSignatureMapToTransaction,
+  base64StringToSignatureMap,
+  signatureMapToBase64,
+  signatureMapToPublicKeySignatures,
+  signerSignaturesToSignatureMap,
+  transactionToSignatureMap,
+} from '../src'
 import {
   prepareTestTransaction,
-  projectId,
   testPrivateKeyECDSA,
+  testPrivateKeyED25519,
   testUserAccountId,
-  walletMetadata,
 } from './_helpers'
-import { Wallet } from '../src'
 
-// TODO: remake it after fixes
 describe('SignatureMap helpers', () => {
-  let base64SignatureMap: string
+  const ed25519PrivateKey = PrivateKey.fromStringDer(testPrivateKeyED25519)
+  const ecdsaPrivateKey = PrivateKey.fromStringDer(testPrivateKeyECDSA)
+  const bodyBytes = new Uint8Array([1, 2, 3, 4, 5])
+  const signerSignatures = [ed25519PrivateKey, ecdsaPrivateKey].map(
+    (privateKey) =>
+      new SignerSignature({
+        publicKey: privateKey.publicKey,
+        signature: privateKey.sign(bodyBytes),
+        accountId: testUserAccountId,
+      }),
+  )
+
+  describe(signerSignaturesToSignatureMap.name, () => {
+    it('should create ed25519 and ECDSASecp256k1 sigPairs with the raw public key as prefix', () => {
+      const signatureMap = signerSignaturesToSignatureMap(signerSignatures)
+
+      expect(signatureMap.sigPair).toHaveLength(2)
+      const [ed25519Pair, ecdsaPair] = signatureMap.sigPair!
+      expect(ed25519Pair.pubKeyPrefix).toEqual(ed25519PrivateKey.publicKey.toBytesRaw())
+      expect(ed25519Pair.ed25519).toEqual(signerSignatures[0].signature)
+      expect(ecdsaPair.pubKeyPrefix).toEqual(ecdsaPrivateKey.publicKey.toBytesRaw())
+      expect(ecdsaPair.ECDSASecp256k1).toEqual(signerSignatures[1].signature)
+    })
+  })
 
   describe(signatureMapToBase64.name, () => {
-    it('should encode SignatureMap to base64 string', async () => {
-      const txn = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
-      const wallet = await Wallet.create(projectId, walletMetadata)
-      const hederaWallet = wallet!.getHederaWallet(
-        HederaChainId.Testnet,
-        testUserAccountId,
-        testPrivateKeyECDSA,
-      )
+    it('should encode SignatureMap as base64 protobuf bytes', () => {
+      const signatureMap = signerSignaturesToSignatureMap(signerSignatures)
 
-      const signedTxn = await hederaWallet.signTransaction(txn)
-      const signatureMap = signedTxn.getSignatures()
-      console.log(signatureMap)
-      base64SignatureMap = signatureMapToBase64(signatureMap)
+      const base64SignatureMap = signatureMapToBase64(signatureMap)
 
-      expect(typeof base64SignatureMap).toBe('string')
       expect(base64SignatureMap).toBe(
-        'eyIwLjAuMyI6eyIzMDJkMzAwNzA2MDUyYjgxMDQwMDBhMDMyMjAwMDI3ODI3OWRmMjFhZTNjZDMwNjEwNjI3YjFlNDIzZWJiNzQwNWM1NGI4MDM5YWY1NTJjNGI0NThmYjYzYWE4ZDMzIjp7IjAiOjE0MywiMSI6MjUxLCIyIjoyNCwiMyI6MTQwLCI0IjoyNTEsIjUiOjEwNywiNiI6MTQsIjciOjY3LCI4Ijo5MiwiOSI6MTI0LCIxMCI6MTM1LCIxMSI6NjMsIjEyIjoxMDksIjEzIjoyNCwiMTQiOjEsIjE1IjowLCIxNiI6MTgsIjE3IjoyMjQsIjE4IjoyMiwiMTkiOjI4LCIyMCI6MzcsIjIxIjo4MywiMjIiOjI5LCIyMyI6MTkxLCIyNCI6MjEzLCIyNSI6MTc2LCIyNiI6MjA4LCIyNyI6MTcwLCIyOCI6MTIsIjI5IjoxMzMsIjMwIjoyMjcsIjMxIjo3NiwiMzIiOjE3NywiMzMiOjEzNSwiMzQiOjIwLCIzNSI6NzksIjM2IjoxODYsIjM3IjoxNTAsIjM4IjoxLCIzOSI6MjEzLCI0MCI6ODQsIjQxIjoxMTMsIjQyIjoyNTMsIjQzIjo1OCwiNDQiOjI0OSwiNDUiOjE4MCwiNDYiOjIxNSwiNDciOjg1LCI0OCI6MTg4LCI0OSI6MTU3LCI1MCI6MTk5LCI1MSI6MjIwLCI1MiI6MTM1LCI1MyI6MjMxLCI1NCI6MjEzLCI1NSI6MTA4LCI1NiI6MTg0LCI1NyI6MjM5LCI1OCI6MTUyLCI1OSI6MjM2LCI2MCI6MTI1LCI2MSI6MjI2LCI2MiI6MjQ2LCI2MyI6MjUyfX19',
+        Uint8ArrayToBase64String(proto.SignatureMap.encode(signatureMap).finish()),
       )
     })
   })
 
   describe(base64StringToSignatureMap.name, () => {
-    it('should decode base64 string to SignatureMap', async () => {
-      const signatureMap = base64StringToSignatureMap(base64SignatureMap)
-      console.log(JSON.stringify(signatureMap, null, 2))
-      // expect(signatureMap).toBe(???)
+    it('should decode base64 string to SignatureMap', () => {
+      const signatureMap = signerSignaturesToSignatureMap(signerSignatures)
+
+      const decoded = base64StringToSignatureMap(signatureMapToBase64(signatureMap))
+
+      expect(decoded.sigPair).toHaveLength(2)
+      decoded.sigPair!.forEach((sigPair, i) => {
+        expect(new Uint8Array(sigPair.pubKeyPrefix!)).toEqual(
+          signatureMap.sigPair![i].pubKeyPrefix,
+        )
+      })
+      expect(new Uint8Array(decoded.sigPair![0].ed25519!)).toEqual(
+        signerSignatures[0].signature,
+      )
+      expect(new Uint8Array(decoded.sigPair![1].ECDSASecp256k1!)).toEqual(
+        signerSignatures[1].signature,
+      )
+    })
+  })
+
+  describe(signatureMapToPublicKeySignatures.name, () => {
+    it('should restore the public keys of the signatures', () => {
+      const signatureMap = base64StringToSignatureMap(
+        signatureMapToBase64(signerSignaturesToSignatureMap(signerSignatures)),
+      )
+
+      const publicKeySignatures = signatureMapToPublicKeySignatures(signatureMap)
+
+      publicKeySignatures.forEach(([publicKey, signature]) => {
+        expect(publicKey).toBeInstanceOf(PublicKey)
+        expect(publicKey.verify(bodyBytes, signature)).toBe(true)
+      })
+      expect(publicKeySignatures.map(([publicKey]) => publicKey.toStringDer())).toEqual([
+        ed25519PrivateKey.publicKey.toStringDer(),
+        ecdsaPrivateKey.publicKey.toStringDer(),
+      ])
+    })
+
+    it('should throw an error when the public key prefix is missing', () => {
+      const signatureMap = { sigPair: [{ ed25519: signerSignatures[0].signature }] }
+
+      expect(() => signatureMapToPublicKeySignatures(signatureMap)).toThrow(
+        'Signature pair is missing the public key prefix',
+      )
+    })
+
+    it('should throw an error for unsupported signature types', () => {
+      const signatureMap = {
+        sigPair: [
+          {
+            pubKeyPrefix: ed25519PrivateKey.publicKey.toBytesRaw(),
+            contract: signerSignatures[0].signature,
+          },
+        ],
+      }
+
+      expect(() => signatureMapToPublicKeySignatures(signatureMap)).toThrow(
+        'Only ed25519 and ECDSASecp256k1 signature pairs are supported',
+      )
+    })
+  })
+
+  describe(addSignatureMapToTransaction.name, () => {
+    it.each([
+      ['ed25519', ed25519PrivateKey],
+      ['ECDSASecp256k1', ecdsaPrivateKey],
+    ])('should add %s signatures returned by the wallet to the transaction', async (_, key) => {
+      const walletTransaction = prepareTestTransaction(new TopicCreateTransaction(), {
+        freeze: true,
+      })
+      await walletTransaction.sign(key)
+      const base64SignatureMap = signatureMapToBase64(
+        transactionToSignatureMap(walletTransaction),
+      )
+      const transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
+
+      addSignatureMapToTransaction(transaction, base64StringToSignatureMap(base64SignatureMap))
+
+      expect(key.publicKey.verifyTransaction(transaction)).toBe(true)
+      expect(transaction.toBytes()).toEqual(walletTransaction.toBytes())
     })
   })
 })
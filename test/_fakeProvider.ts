@@ -0,0 +1,411 @@
+import {
+  AccountBalance,
+  AccountBalanceQuery,
+  AccountCreateTransaction,
+  AccountId,
+  AccountInfo,
+  AccountInfoQuery,
+  AccountRecordsQuery,
+  Hbar,
+  LedgerId,
+  PrecheckStatusError,
+  ReceiptStatusError,
+  Status,
+  TopicCreateTransaction,
+  TopicId,
+  Transaction,
+  TransactionId,
+  TransactionReceipt,
+  TransactionReceiptQuery,
+  TransactionRecord,
+  TransactionRecordQuery,
+  TransactionResponse,
+  TransferTransaction,
+  type Executable,
+  type Key,
+  type Provider as HederaWalletProvider,
+} from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+import { verifyKeySignature } from '../src'
+
+/**
+ * Account known to a `FakeProvider`.
+ * `accountId` - the account ID.
+ * `balance` - the hbar balance, numbers are in hbar (default: 0).
+ * `key` - the account key. Without it, signatures of the account are not checked and
+ * `getAccountInfo` throws.
+ */
+export type FakeAccount = {
+  accountId: AccountId | string
+  balance?: Hbar | number
+  key?: Key
+}
+
+/**
+ * Options of `FakeProvider`.
+ * `ledgerId` - the ledger the provider pretends to be (default: `LedgerId.TESTNET`).
+ * `network` - the node addresses and account IDs (default: `{ '127.0.0.1:50211': '0.0.3' }`).
+ * `accounts` - the accounts and balances of the ledger (default: none).
+ * `transactionFee` - the fee charged to the payer of every transaction (default: 100,000 tinybar).
+ */
+export type FakeProviderOptions = {
+  ledgerId?: LedgerId
+  network?: { [key: string]: string | AccountId }
+  accounts?: FakeAccount[]
+  transactionFee?: Hbar
+}
+
+type FakeAccountState = { accountId: AccountId; balance: Hbar; key: Key | null }
+
+/**
+ * In-memory `Provider` which keeps balances, receipts and records instead of sending requests to
+ * the Hedera network, e.g. to test a wallet offline.
+ *
+ * Transactions are checked like by a node: failed prechecks throw a `PrecheckStatusError`, the
+ * other transactions get a receipt and a record. Hbar transfers, account and topic creations are
+ * applied to the ledger, the other transactions succeed without changing it. Entity IDs and
+ * consensus timestamps are derived from the ledger state and the transaction ID, so the results
+ * are deterministic.
+ */
+export class FakeProvider implements HederaWalletProvider {
+  private ledgerId: LedgerId
+  private network: { [key: string]: string | AccountId }
+  private transactionFee: Hbar
+  private accounts = new Map<string, FakeAccountState>()
+  private records = new Map<string, TransactionRecord>()
+  private nextEntityNum: number
+
+  /**
+   * Creates a new FakeProvider instance.
+   * @param options - `FakeProviderOptions` (optional)
+   */
+  constructor({
+    ledgerId = LedgerId.TESTNET,
+    network = { '127.0.0.1:50211': '0.0.3' },
+    accounts = [],
+    transactionFee = Hbar.fromTinybars(100_000),
+  }: FakeProviderOptions = {}) {
+    this.ledgerId = ledgerId
+    this.network = network
+    this.transactionFee = transactionFee
+    accounts.forEach((account) => this.setAccount(account))
+    this.nextEntityNum =
+      Math.max(
+        1000,
+        ...[...this.accounts.values()].map(({ accountId }) => accountId.num.toNumber()),
+      ) + 1
+  }
+
+  /**
+   * Adds an account to the ledger or replaces it.
+   * @param account - `FakeAccount` object
+   */
+  setAccount({ accountId, balance = 0, key }: FakeAccount) {
+    const id = typeof accountId === 'string' ? AccountId.fromString(accountId) : accountId
+    this.accounts.set(id.toString(), {
+      accountId: id,
+      balance: typeof balance === 'number' ? new Hbar(balance) : balance,
+      key: key ?? null,
+    })
+  }
+
+  /**
+   * Gets the ledger ID of the provider.
+   * @returns The ledger ID.
+   */
+  getLedgerId() {
+    return this.ledgerId
+  }
+
+  /**
+   * Gets the network of the provider.
+   * @returns The network information.
+   */
+  getNetwork() {
+    return this.network
+  }
+
+  /**
+   * Gets the mirror network of the provider, which is always empty.
+   * @returns The mirror network information.
+   */
+  getMirrorNetwork(): string[] {
+    return []
+  }
+
+  /**
+   * Retrieves the account balance for a given account ID.
+   * @param accountId - The account ID for which to retrieve the balance.
+   * @returns Promise\<AccountBalance\>
+   */
+  async getAccountBalance(accountId: AccountId | string): Promise<AccountBalance> {
+    const account = this.getAccount(accountId)
+
+    return AccountBalance._fromProtobuf({
+      accountID: account.accountId._toProtobuf(),
+      balance: account.balance.toTinybars(),
+    })
+  }
+
+  /**
+   * Retrieves the account information for a given account ID.
+   * @param accountId - The account ID for which to retrieve the information.
+   * @returns Promise\<AccountInfo\>
+   */
+  async getAccountInfo(accountId: AccountId | string): Promise<AccountInfo> {
+    const account = this.getAccount(accountId)
+    if (!account.key) throw new Error(`Account ${account.accountId.toString()} has no key`)
+
+    return AccountInfo._fromProtobuf({
+      accountID: account.accountId._toProtobuf(),
+      key: account.key._toProtobufKey(),
+      balance: account.balance.toTinybars(),
+      expirationTime: { seconds: 0, nanos: 0 },
+      ledgerId: this.ledgerId.toBytes(),
+    })
+  }
+
+  /**
+   * Retrieves the records of the transactions paid by or transferring hbar of a given account ID.
+   * @param accountId - The account ID for which to retrieve the records.
+   * @returns Promise\<TransactionRecord[]\>
+   */
+  async getAccountRecords(accountId: AccountId | string): Promise<TransactionRecord[]> {
+    const account = this.getAccount(accountId).accountId.toString()
+
+    return [...this.records.values()].filter(
+      (record) =>
+        record.transactionId.accountId?.toString() === account ||
+        record.transfers.some((transfer) => transfer.accountId.toString() === account),
+    )
+  }
+
+  /**
+   * Retrieves the transaction receipt for a given transaction ID.
+   *
+   * Throws `ReceiptStatusError` when the transaction failed, like `TransactionReceiptQuery`.
+   * @param transactionId - The transaction ID for which to retrieve the receipt.
+   * @returns Promise\<TransactionReceipt\>
+   */
+  async getTransactionReceipt(
+    transactionId: TransactionId | string,
+  ): Promise<TransactionReceipt> {
+    const { receipt } = this.getRecord(transactionId)
+    if (receipt.status._code !== Status.Success._code) {
+      throw new ReceiptStatusError({
+        status: receipt.status,
+        transactionId:
+          typeof transactionId === 'string'
+            ? TransactionId.fromString(transactionId)
+            : transactionId,
+        transactionReceipt: receipt,
+      })
+    }
+
+    return receipt
+  }
+
+  /**
+   * Waits for the transaction receipt based on the provided TransactionResponse.
+   * @param response - The TransactionResponse object containing transaction details.
+   * @returns Promise\<TransactionReceipt\>
+   */
+  waitForReceipt(response: TransactionResponse): Promise<TransactionReceipt> {
+    return this.getTransactionReceipt(response.transactionId)
+  }
+
+  /**
+   * Executes a transaction or answers a query against the in-memory ledger.
+   *
+   * Supports transactions and the balance, info, records, receipt and record queries.
+   * @typeparam Request - The type of request being made.
+   * @typeparam Response - The type of response expected.
+   * @typeparam Output - The output type of the execution.
+   * @param request - The executable request to be executed.
+   * @returns Promise<Output> - promise resolving to the output of the request execution.
+   */
+  async call<Request, Response, Output>(
+    request: Executable<Request, Response, Output>,
+  ): Promise<Output> {
+    if (request instanceof Transaction) {
+      return (await this.submitTransaction(request)) as Output
+    }
+    if (request instanceof AccountBalanceQuery) {
+      return (await this.getAccountBalance(request.accountId!)) as Output
+    }
+    if (request instanceof AccountInfoQuery) {
+      return (await this.getAccountInfo(request.accountId!)) as Output
+    }
+    if (request instanceof AccountRecordsQuery) {
+      return (await this.getAccountRecords(request.accountId!)) as Output
+    }
+    if (request instanceof TransactionReceiptQuery) {
+      return (await this.getTransactionReceipt(request.transactionId!)) as Output
+    }
+    if (request instanceof TransactionRecordQuery) {
+      return this.getRecord(request.transactionId!) as Output
+    }
+
+    throw new Error(`FakeProvider does not support ${request.constructor.name}`)
+  }
+
+  private getAccount(accountId: AccountId | string): FakeAccountState {
+    const account = this.accounts.get(accountId.toString())
+    if (!account) throw new Error(`Account ${accountId.toString()} does not exist`)
+
+    return account
+  }
+
+  private getRecord(transactionId: TransactionId | string): TransactionRecord {
+    const record = this.records.get(transactionId.toString())
+    if (!record) throw new Error(`Transaction ${transactionId.toString()} was not found`)
+
+    return record
+  }
+
+  private isSignedBy(transaction: Transaction, key: Key | null): boolean {
+    // the body of every node must satisfy the key, e.g. the threshold of a `KeyList`
+    return (
+      !key ||
+      transaction._signedTransactions.list.every(({ bodyBytes, sigMap }) =>
+        verifyKeySignature(bodyBytes ?? new Uint8Array(), sigMap?.sigPair ?? [], key),
+      )
+    )
+  }
+
+  private credit(account: FakeAccountState, amount: Hbar) {
+    account.balance = Hbar.fromTinybars(account.balance.toTinybars().add(amount.toTinybars()))
+  }
+
+  private precheck(transaction: Transaction): Status {
+    const transactionId = transaction.transactionId
+    if (!transactionId?.accountId || !transactionId.validStart) {
+      return Status.InvalidTransactionId
+    }
+
+    const network = Object.values(this.network).map((nodeId) => nodeId.toString())
+    const nodeIds = transaction.nodeAccountIds ?? []
+    if (!nodeIds.length || !nodeIds.every((nodeId) => network.includes(nodeId.toString()))) {
+      return Status.InvalidNodeAccount
+    }
+    if (this.records.has(transactionId.toString())) return Status.DuplicateTransaction
+
+    const payer = this.accounts.get(transactionId.accountId.toString())
+    if (!payer) return Status.PayerAccountNotFound
+    if (!this.isSignedBy(transaction, payer.key)) return Status.InvalidSignature
+
+    const fee = this.transactionFee.toTinybars()
+    if (transaction.maxTransactionFee?.toTinybars().lessThan(fee)) {
+      return Status.InsufficientTxFee
+    }
+    if (payer.balance.toTinybars().lessThan(fee)) return Status.InsufficientPayerBalance
+
+    if (transaction instanceof TransferTransaction) {
+      const sum = [...transaction.hbarTransfers.values()].reduce(
+        (sum, amount) => Hbar.fromTinybars(sum.toTinybars().add(amount.toTinybars())),
+        new Hbar(0),
+      )
+      if (!sum.toTinybars().isZero()) return Status.InvalidAccountAmounts
+    }
+
+    return Status.Success
+  }
+
+  private execute(
+    transaction: Transaction,
+    payer: FakeAccountState,
+  ): proto.ITransactionReceipt {
+    if (transaction instanceof TransferTransaction) {
+      const transfers = [...transaction.hbarTransfers]
+      const accounts = transfers.map(([accountId]) => this.accounts.get(accountId.toString()))
+      for (const [index, [, amount]] of transfers.entries()) {
+        const account = accounts[index]
+        if (!account) return { status: Status.InvalidAccountId._code }
+        if (!amount.isNegative()) continue
+        if (!this.isSignedBy(transaction, account.key)) {
+          return { status: Status.InvalidSignature._code }
+        }
+        if (account.balance.toTinybars().lessThan(amount.negated().toTinybars())) {
+          return { status: Status.InsufficientAccountBalance._code }
+        }
+      }
+      transfers.forEach(([, amount], index) => this.credit(accounts[index]!, amount))
+
+      return { status: Status.Success._code }
+    }
+
+    if (transaction instanceof AccountCreateTransaction) {
+      const initialBalance = transaction.initialBalance ?? new Hbar(0)
+      if (payer.balance.toTinybars().lessThan(initialBalance.toTinybars())) {
+        return { status: Status.InsufficientPayerBalance._code }
+      }
+
+      const accountId = new AccountId(this.nextEntityNum++)
+      this.credit(payer, initialBalance.negated())
+      this.setAccount({
+        accountId,
+        balance: initialBalance,
+        key: transaction.key ?? undefined,
+      })
+
+      return { status: Status.Success._code, accountID: accountId._toProtobuf() }
+    }
+
+    if (transaction instanceof TopicCreateTransaction) {
+      const topicId = new TopicId(this.nextEntityNum++)
+
+      return { status: Status.Success._code, topicID: topicId._toProtobuf() }
+    }
+
+    return { status: Status.Success._code }
+  }
+
+  private async submitTransaction(transaction: Transaction): Promise<TransactionResponse> {
+    const status = this.precheck(transaction)
+    const transactionId = transaction.transactionId!
+    if (status !== Status.Success) {
+      throw new PrecheckStatusError({ status, transactionId, contractFunctionResult: null })
+    }
+
+    const transactionHash = await transaction.getTransactionHash()
+    const payer = this.accounts.get(transactionId.accountId!.toString())!
+    const node = this.accounts.get(transaction.nodeAccountIds![0].toString())
+    const balances = new Map(
+      [...this.accounts.values()].map((account) => [account, account.balance]),
+    )
+
+    this.credit(payer, this.transactionFee.negated())
+    if (node) this.credit(node, this.transactionFee)
+    const receipt = this.execute(transaction, payer)
+
+    this.records.set(
+      transactionId.toString(),
+      TransactionRecord._fromProtobuf({
+        transactionRecord: {
+          receipt,
+          transactionHash,
+          consensusTimestamp: transactionId.validStart!.plusNanos(1)._toProtobuf(),
+          transactionID: transactionId._toProtobuf(),
+          memo: transaction.transactionMemo,
+          transactionFee: this.transactionFee.toTinybars(),
+          transferList: {
+            accountAmounts: [...this.accounts.values()]
+              .map((account) => ({
+                accountID: account.accountId._toProtobuf(),
+                amount: account.balance
+                  .toTinybars()
+                  .subtract(balances.get(account)?.toTinybars() ?? 0),
+              }))
+              .filter(({ amount }) => !amount.isZero()),
+          },
+        },
+      }),
+    )
+
+    return new TransactionResponse({
+      nodeId: transaction.nodeAccountIds![0],
+      transactionHash,
+      transactionId,
+    })
+  }
+}
@@ -0,0 +1,181 @@
+import { AddressInfo } from 'net'
+import WebSocket, { Server } from 'ws'
+import { Core } from '@walletconnect/core'
+import { CoreTypes } from '@walletconnect/types'
+import { DAppConnector, Wallet } from '../src'
+import { walletMetadata, projectId } from './_helpers'
+
+type RelayMessage = { topic: string; message: string; publishedAt: number; sender: WebSocket }
+
+/**
+ * In-process WalletConnect relay on a loopback WebSocket server. It implements the `irn_*`
+ * JSON-RPC methods used by `@walletconnect/core`, so a `DAppConnector` and a `Wallet` created
+ * with its `url` can pair and exchange messages without the network.
+ *
+ * Published messages are kept per topic and delivered to clients that subscribe later, like the
+ * mailbox of the WalletConnect relay.
+ */
+export class LoopbackRelay {
+  private subscriptions = new Map<WebSocket, Map<string, string>>()
+  private messages = new Map<string, RelayMessage[]>()
+  private subscriptionCount = 0
+
+  private constructor(private server: Server) {
+    server.on('connection', (socket) => {
+      this.subscriptions.set(socket, new Map())
+      socket.on('message', (data) => this.onMessage(socket, JSON.parse(data.toString())))
+      socket.on('close', () => this.subscriptions.delete(socket))
+    })
+  }
+
+  static async start(): Promise<LoopbackRelay> {
+    const server = new Server({ host: '127.0.0.1', port: 0 })
+    await new Promise((resolve) => server.once('listening', resolve))
+    return new LoopbackRelay(server)
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo
+    return `ws://127.0.0.1:${port}`
+  }
+
+  /**
+   * Messages published to a topic, e.g. to assert that a payload went through the relay.
+   */
+  getMessages(topic: string): string[] {
+    return (this.messages.get(topic) ?? []).map(({ message }) => message)
+  }
+
+  async close(): Promise<void> {
+    this.server.clients.forEach((socket) => socket.terminate())
+    await new Promise((resolve) => this.server.close(resolve))
+  }
+
+  private onMessage(socket: WebSocket, payload: any) {
+    // acknowledgements of `irn_subscription` requests
+    if (!payload.method) return
+
+    const { id, method, params } = payload
+    switch (method) {
+      case 'irn_subscribe':
+        return this.respond(socket, id, this.subscribe(socket, params.topic))
+      case 'irn_batchSubscribe':
+        return this.respond(
+          socket,
+          id,
+          params.topics.map((topic: string) => this.subscribe(socket, topic)),
+        )
+      case 'irn_unsubscribe':
+        this.subscriptions.get(socket)?.delete(params.topic)
+        return this.respond(socket, id, true)
+      case 'irn_publish':
+        this.publish({
+          topic: params.topic,
+          message: params.message,
+          publishedAt: Date.now(),
+          sender: socket,
+        })
+        return this.respond(socket, id, true)
+      default:
+        socket.send(
+          JSON.stringify({
+            id,
+            jsonrpc: '2.0',
+            error: { code: -32601, message: `Method ${method} is not supported` },
+          }),
+        )
+    }
+  }
+
+  private subscribe(socket: WebSocket, topic: string): string {
+    const subscriptions = this.subscriptions.get(socket)!
+    const existing = subscriptions.get(topic)
+    if (existing) return existing
+
+    const subscriptionId = `subscription-${++this.subscriptionCount}`
+    subscriptions.set(topic, subscriptionId)
+    this.messages
+      .get(topic)
+      ?.filter(({ sender }) => sender !== socket)
+      .forEach((message) => this.deliver(socket, subscriptionId, message))
+    return subscriptionId
+  }
+
+  private publish(message: RelayMessage) {
+    this.messages.set(message.topic, [...(this.messages.get(message.topic) ?? []), message])
+    this.subscriptions.forEach((subscriptions, socket) => {
+      const subscriptionId = subscriptions.get(message.topic)
+      if (subscriptionId && socket !== message.sender) {
+        this.deliver(socket, subscriptionId, message)
+      }
+    })
+  }
+
+  private deliver(socket: WebSocket, subscriptionId: string, message: RelayMessage) {
+    const { topic, publishedAt } = message
+    socket.send(
+      JSON.stringify({
+        id: Date.now() * 1000 + ++this.subscriptionCount,
+        jsonrpc: '2.0',
+        method: 'irn_subscription',
+        params: { id: subscriptionId, data: { topic, message: message.message, publishedAt } },
+      }),
+    )
+  }
+
+  private respond(socket: WebSocket, id: number, result: unknown) {
+    socket.send(JSON.stringify({ id, jsonrpc: '2.0', result }))
+  }
+}
+
+/**
+ * `IKeyValueStorage` kept in memory, so that WalletConnect clients of a test do not share or
+ * persist state.
+ */
+export class MemoryKeyValueStorage implements NonNullable<CoreTypes.Options['storage']> {
+  private entries = new Map<string, any>()
+
+  async getKeys() {
+    return [...this.entries.keys()]
+  }
+
+  async getEntries<T = any>(): Promise<[string, T][]> {
+    return [...this.entries.entries()]
+  }
+
+  async getItem<T = any>(key: string): Promise<T | undefined> {
+    return this.entries.get(key)
+  }
+
+  async setItem<T = any>(key: string, value: T) {
+    this.entries.set(key, value)
+  }
+
+  async removeItem(key: string) {
+    this.entries.delete(key)
+  }
+}
+
+/**
+ * Creates a `Wallet` like `Wallet.create`, connected to the loopback relay.
+ */
+export async function createLoopbackWallet(relay: LoopbackRelay): Promise<Wallet> {
+  const core = new Core({
+    projectId,
+    relayUrl: relay.url,
+    storage: new MemoryKeyValueStorage(),
+  })
+  const wallet = new Wallet({ core, metadata: walletMetadata })
+  await wallet.engine.init()
+  return wallet
+}
+
+/**
+ * Stops the timers and closes the transport of the WalletConnect core of a `Wallet` or a
+ * `DAppConnector`.
+ */
+export async function closeLoopbackClient(client: Wallet | DAppConnector) {
+  const core = client instanceof Wallet ? client.core : client.walletConnectClient!.core
+  core.heartbeat.stop()
+  await core.relayer.transportClose()
+}
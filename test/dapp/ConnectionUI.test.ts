@@ -0,0 +1,137 @@
+import { DefaultConnectionUI } from '../../src'
+
+class ElementStub {
+  id = ''
+  href = ''
+  src = ''
+  value = ''
+  readOnly = false
+  textContent: string | null = null
+  style = { cssText: '' }
+  attributes: { [name: string]: string } = {}
+  children: ElementStub[] = []
+  parentNode: ElementStub | null = null
+  listeners: { [event: string]: (() => void)[] } = {}
+
+  constructor(public tagName: string) {}
+
+  setAttribute(name: string, value: string) {
+    this.attributes[name] = value
+  }
+
+  addEventListener(event: string, listener: () => void) {
+    this.listeners[event] = [...(this.listeners[event] ?? []), listener]
+  }
+
+  appendChild(child: ElementStub) {
+    child.parentNode = this
+    this.children.push(child)
+    return child
+  }
+
+  removeChild(child: ElementStub) {
+    child.parentNode = null
+    this.children = this.children.filter((element) => element !== child)
+    return child
+  }
+
+  find(tagName: string): ElementStub | undefined {
+    return this.children.find((element) => element.tagName === tagName)
+  }
+}
+
+describe(DefaultConnectionUI.name, () => {
+  const uri = 'wc:pairing-topic@2?relay-protocol=irn&symKey=abc'
+  let body: ElementStub
+  let document: Document
+
+  beforeEach(() => {
+    body = new ElementStub('body')
+    document = {
+      body,
+      createElement: (tagName: string) => new ElementStub(tagName),
+    } as unknown as Document
+  })
+
+  it('should render the pairing URI, a wallet link and a close button', () => {
+    const ui = new DefaultConnectionUI({ document })
+
+    ui.open(uri)
+
+    const [element] = body.children
+    expect(element.id).toBe(DefaultConnectionUI.elementId)
+    expect(element.attributes.role).toBe('dialog')
+    expect(element.find('a')?.href).toBe(uri)
+    expect(element.find('input')?.value).toBe(uri)
+    expect(element.find('button')?.textContent).toBe('Close')
+    expect(element.find('img')?.attributes.alt).toBe('WalletConnect QR code')
+  })
+
+  it('should draw the QR code of the pairing URI by default', async () => {
+    const ui = new DefaultConnectionUI({ document })
+
+    ui.open(uri)
+    await jest.runAllTimersAsync()
+
+    const src = body.children[0].find('img')!.src
+    expect(src).toMatch(/^data:image\/svg\+xml;charset=utf-8,/)
+    expect(decodeURIComponent(src)).toContain('<svg')
+  })
+
+  it('should render the QR code image source', async () => {
+    const qrCode = jest.fn(async (uri: string) => `data:image/png;base64,${uri.length}`)
+    const ui = new DefaultConnectionUI({ document, qrCode })
+
+    ui.open(uri)
+    await Promise.resolve()
+
+    expect(qrCode).toHaveBeenCalledWith(uri)
+    expect(body.children[0].find('img')?.src).toBe(`data:image/png;base64,${uri.length}`)
+  })
+
+  it('should replace the rendered URI when opened again and remove it on close', () => {
+    const ui = new DefaultConnectionUI({ document })
+
+    ui.open(uri)
+    ui.open('wc:second-topic@2')
+
+    expect(body.children).toHaveLength(1)
+    expect(body.children[0].find('a')?.href).toBe('wc:second-topic@2')
+
+    ui.close()
+
+    expect(body.children).toEqual([])
+  })
+
+  it('should call onClose listeners when the user clicks the close button', () => {
+    const ui = new DefaultConnectionUI({ document })
+    const listener = jest.fn()
+    const removedListener = jest.fn()
+    ui.onClose(listener)
+    ui.onClose(removedListener)()
+
+    ui.open(uri)
+    body.children[0].find('button')!.listeners.click.forEach((click) => click())
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(removedListener).not.toHaveBeenCalled()
+    expect(body.children).toEqual([])
+  })
+
+  it('should not call onClose listeners when closed programmatically', () => {
+    const ui = new DefaultConnectionUI({ document })
+    const listener = jest.fn()
+    ui.onClose(listener)
+
+    ui.open(uri)
+    ui.close()
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should throw an error without a DOM document', () => {
+    expect(() => new DefaultConnectionUI().open(uri)).toThrow(
+      'DefaultConnectionUI requires a DOM document',
+    )
+  })
+})
@@ -1,6 +1,17 @@
-import { AccountInfoQuery, LedgerId, TopicCreateTransaction } from '@hashgraph/sdk'
 import {
+  AccountId,
+  AccountInfoQuery,
+  LedgerId,
+  Status,
+  TopicCreateTransaction,
+  TransactionReceipt,
+} from '@hashgraph/sdk'
+import {
+  ConnectionCancelledError,
   DAppConnector,
+  DAppConnectorEvent,
+  DAppSigner,
+  MirrorNodeClient,
   ExecuteTransactionParams,
   HederaJsonRpcMethod,
   HederaSessionEvent,
@@ -8,7 +19,9 @@ import {
   SignMessageParams,
   SignQueryAndSendParams,
   SignTransactionParams,
+  LegacySignTransactionParams,
   queryToBase64String,
+  transactionBodyToBase64String,
   transactionToBase64String,
 } from '../../src'
 import {
@@ -18,12 +31,28 @@ import {
   prepareTestTransaction,
   testUserAccountId,
 } from '../_helpers'
-import Client from '@walletconnect/sign-client'
-import { SessionTypes } from '@walletconnect/types'
+import Client, { SignClient } from '@walletconnect/sign-client'
+import { ISignClient, SessionTypes } from '@walletconnect/types'
 
 describe('DAppConnector', () => {
   let connector: DAppConnector
   const fakeSession = useJsonFixture('fakeSession') as SessionTypes.Struct
+  const results: { [method: string]: any } = {
+    [HederaJsonRpcMethod.GetNodeAddresses]: useJsonFixture('methods/getNodeAddressesSuccess')
+      .response.result,
+    [HederaJsonRpcMethod.ExecuteTransaction]: useJsonFixture(
+      'methods/executeTransactionSuccess',
+    ).response.result,
+    [HederaJsonRpcMethod.SignMessage]: useJsonFixture('methods/signTransactionBodySuccess')
+      .response.result,
+    [HederaJsonRpcMethod.SignQueryAndSend]: useJsonFixture('methods/signQueryAndSendSuccess')
+      .response.result,
+    [HederaJsonRpcMethod.SignAndExecuteTransaction]: useJsonFixture(
+      'methods/signAndExecuteTransactionSuccess',
+    ).response.result,
+    [HederaJsonRpcMethod.SignTransaction]: useJsonFixture('methods/signTransactionBodySuccess')
+      .response.result,
+  }
 
   beforeEach(() => {
     connector = new DAppConnector(dAppMetadata, LedgerId.TESTNET, projectId)
@@ -91,6 +120,328 @@ describe('DAppConnector', () => {
 
       checkPersistedStateSpy.mockRestore()
     })
+
+    it('should keep signers of all persisted sessions', async () => {
+      const checkPersistedStateSpy = jest.spyOn(connector as any, 'checkPersistedState')
+      const secondSession = { ...fakeSession, topic: 'second-topic' }
+      checkPersistedStateSpy.mockReturnValue([fakeSession, secondSession])
+      const disconnectSpy = jest.spyOn(connector, 'disconnect')
+
+      await connector.init({ logger: 'error' })
+
+      expect(connector.signers.map((signer) => signer.topic)).toEqual([
+        fakeSession.topic,
+        secondSession.topic,
+      ])
+      expect(disconnectSpy).not.toHaveBeenCalled()
+
+      checkPersistedStateSpy.mockRestore()
+    })
+  })
+
+  describe('init options', () => {
+    let client: jest.Mocked<Pick<Client, 'ping' | 'disconnect'>>
+    let logger: { warn: jest.Mock; error: jest.Mock }
+    let initSpy: jest.SpyInstance
+
+    beforeEach(() => {
+      const sessions = [fakeSession, { ...fakeSession, topic: 'second-topic' }]
+      client = {
+        ping: jest.fn(),
+        disconnect: jest.fn(),
+      }
+      logger = { warn: jest.fn(), error: jest.fn() }
+      initSpy = jest.spyOn(SignClient, 'init').mockResolvedValue({
+        ...client,
+        logger,
+        on: jest.fn(),
+        session: { length: sessions.length, getAll: () => sessions },
+        core: { pairing: { events: { on: jest.fn() } } },
+      } as unknown as Client)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should pass relayUrl, storage and logger to SignClient', async () => {
+      const storage = {} as any
+      const logger = { level: 'error' } as any
+
+      await connector.init({ logger, relayUrl: 'wss://relay.example.com', storage })
+
+      expect(initSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ logger, relayUrl: 'wss://relay.example.com', storage }),
+      )
+    })
+
+    it('should disconnect persisted sessions that do not respond to a ping', async () => {
+      client.ping.mockRejectedValueOnce(new Error('No response')).mockResolvedValue()
+
+      await connector.init({ logger: 'error', pingRetries: 0 })
+
+      expect(client.ping).toHaveBeenCalledTimes(2)
+      expect(client.disconnect).toHaveBeenCalledTimes(1)
+      expect(client.disconnect).toHaveBeenCalledWith(
+        expect.objectContaining({ topic: fakeSession.topic }),
+      )
+      expect(connector.signers.map((signer) => signer.topic)).toEqual(['second-topic'])
+      expect(logger.error).toHaveBeenCalledWith(
+        {
+          errors: [
+            {
+              status: 'rejected',
+              reason: `Ping failed, disconnecting from session. Topic: ${fakeSession.topic}`,
+            },
+          ],
+        },
+        'Errors while checking persisted state',
+      )
+    })
+
+    it('should retry failed pings after pingRetryDelayMs and log to the logger', async () => {
+      jest.useFakeTimers()
+      client.ping.mockRejectedValueOnce(new Error('No response')).mockResolvedValue()
+
+      const init = connector.init({ logger: 'error', pingRetries: 1, pingRetryDelayMs: 5_000 })
+      await jest.advanceTimersByTimeAsync(4_999)
+      expect(client.ping).toHaveBeenCalledTimes(2)
+      await jest.advanceTimersByTimeAsync(1)
+      await init
+      jest.useRealTimers()
+
+      expect(client.ping).toHaveBeenCalledTimes(3)
+      expect(client.disconnect).not.toHaveBeenCalled()
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Ping failed, 1 retries left. Retrying in 5000(ms)...',
+      )
+      expect(connector.signers).toHaveLength(2)
+    })
+
+    it(`should restore persisted sessions without a ping with 'restore' policy`, async () => {
+      await connector.init({ logger: 'error', sessionRestore: 'restore' })
+
+      expect(client.ping).not.toHaveBeenCalled()
+      expect(connector.signers.map((signer) => signer.topic)).toEqual([
+        fakeSession.topic,
+        'second-topic',
+      ])
+    })
+
+    it(`should disconnect persisted sessions with 'discard' policy`, async () => {
+      await connector.init({ logger: 'error', sessionRestore: 'discard' })
+
+      expect(client.ping).not.toHaveBeenCalled()
+      expect(client.disconnect).toHaveBeenCalledTimes(2)
+      expect(connector.signers).toEqual([])
+    })
+  })
+
+  describe('connect', () => {
+    const uri = 'wc:pairing-topic@2?relay-protocol=irn&symKey=abc'
+    let client: { connect: jest.Mock; core: { pairing: { disconnect: jest.Mock } } }
+    let approve: (session: SessionTypes.Struct) => void
+
+    beforeEach(async () => {
+      client = {
+        connect: jest.fn().mockResolvedValue({
+          uri,
+          approval: () => new Promise((resolve) => (approve = resolve)),
+        }),
+        core: { pairing: { disconnect: jest.fn().mockResolvedValue(undefined) } },
+      }
+      jest.spyOn(SignClient, 'init').mockResolvedValue({
+        ...client,
+        on: jest.fn(),
+        core: { pairing: { ...client.core.pairing, events: { on: jest.fn() } } },
+      } as unknown as Client)
+      jest.spyOn(connector as any, 'checkPersistedState').mockResolvedValue([])
+
+      await connector.init({ logger: 'error', connectTimeoutMs: 1_000 })
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should create signers when the wallet approves the session', async () => {
+      const launchCallback = jest.fn(() => approve(fakeSession))
+
+      await connector.connect(launchCallback)
+
+      expect(launchCallback).toHaveBeenCalledWith(uri)
+      expect(connector.signers.map((signer) => signer.topic)).toEqual([fakeSession.topic])
+      expect(client.core.pairing.disconnect).not.toHaveBeenCalled()
+    })
+
+    it(`should reject with ${ConnectionCancelledError.name} when the signal is aborted`, async () => {
+      const controller = new AbortController()
+
+      const result = connector.connect(() => controller.abort(), undefined, controller.signal)
+
+      await expect(result).rejects.toBeInstanceOf(ConnectionCancelledError)
+      expect(client.core.pairing.disconnect).toHaveBeenCalledWith({ topic: 'pairing-topic' })
+      expect(connector.signers).toEqual([])
+    })
+
+    it('should not create a pairing when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(
+        connector.connect(jest.fn(), undefined, controller.signal),
+      ).rejects.toBeInstanceOf(ConnectionCancelledError)
+      expect(client.connect).not.toHaveBeenCalled()
+    })
+
+    it(`should reject with ${ConnectionCancelledError.name} when the user closes the connection UI`, async () => {
+      let userClose = () => {}
+      const connectionUI = {
+        open: jest.fn(() => userClose()),
+        close: jest.fn(),
+        onClose: jest.fn((listener: () => void) => {
+          userClose = listener
+          return jest.fn()
+        }),
+      }
+      connector.connectionUI = connectionUI
+
+      const result = connector.connectQR()
+
+      await expect(result).rejects.toBeInstanceOf(ConnectionCancelledError)
+      await expect(result).rejects.toThrow('User closed the connection UI')
+      expect(connectionUI.open).toHaveBeenCalledWith(uri)
+      expect(connectionUI.close).toHaveBeenCalled()
+      expect(connectionUI.onClose.mock.results[0].value).toHaveBeenCalled()
+      expect(client.core.pairing.disconnect).toHaveBeenCalledWith({ topic: 'pairing-topic' })
+    })
+
+    it('should time out after connectTimeoutMs', async () => {
+      let launched: () => void
+      const launch = new Promise<void>((resolve) => (launched = resolve))
+
+      const result = connector.connect(() => launched())
+      await launch
+      jest.advanceTimersByTime(1_000)
+
+      await expect(result).rejects.toThrow('Connect timed out after 1000(ms)')
+      expect(client.core.pairing.disconnect).toHaveBeenCalledWith({ topic: 'pairing-topic' })
+    })
+  })
+
+  describe('events', () => {
+    let handlers: { [event: string]: (...args: any[]) => void }
+    let sessions: { [topic: string]: SessionTypes.Struct }
+
+    beforeEach(async () => {
+      handlers = {}
+      sessions = { [fakeSession.topic]: fakeSession }
+      const register = (event: string, handler: (...args: any[]) => void) => {
+        handlers[event] = handler
+      }
+      const client = {
+        on: register,
+        session: {
+          get: (topic: string) => sessions[topic],
+          get keys() {
+            return Object.keys(sessions)
+          },
+        },
+        core: { pairing: { events: { on: register } } },
+        disconnect: jest.fn(),
+      } as unknown as Client
+      jest.spyOn(SignClient, 'init').mockResolvedValue(client)
+      jest.spyOn(connector as any, 'checkPersistedState').mockReturnValue([])
+
+      await connector.init({ logger: 'error' })
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it(`should emit ${DAppConnectorEvent.SessionConnected} and ${DAppConnectorEvent.SignersChanged} for persisted sessions`, async () => {
+      connector = new DAppConnector(dAppMetadata, LedgerId.TESTNET, projectId)
+      jest.spyOn(connector as any, 'checkPersistedState').mockReturnValue([fakeSession])
+      const sessionConnected = jest.fn()
+      const signersChanged = jest.fn()
+      connector.on(DAppConnectorEvent.SessionConnected, sessionConnected)
+      connector.on(DAppConnectorEvent.SignersChanged, signersChanged)
+
+      await connector.init({ logger: 'error' })
+
+      expect(sessionConnected).toHaveBeenCalledWith({
+        session: fakeSession,
+        signers: connector.signers,
+      })
+      expect(signersChanged).toHaveBeenCalledWith({ signers: connector.signers })
+      expect(connector.signers).toHaveLength(1)
+    })
+
+    it(`should emit ${DAppConnectorEvent.SessionUpdated} with rebuilt signers`, () => {
+      const sessionUpdated = jest.fn()
+      connector.on(DAppConnectorEvent.SessionUpdated, sessionUpdated)
+      const namespaces = {
+        hedera: {
+          ...fakeSession.namespaces.hedera,
+          accounts: ['hedera:testnet:0.0.12345', 'hedera:mainnet:0.0.54321'],
+        },
+      }
+
+      handlers.session_update({ topic: fakeSession.topic, params: { namespaces } })
+
+      const [{ session, signers }] = sessionUpdated.mock.calls[0]
+      expect(session.namespaces).toBe(namespaces)
+      expect(signers.map((signer: DAppSigner) => signer.getAccountId().toString())).toEqual([
+        '0.0.12345',
+        '0.0.54321',
+      ])
+      expect(connector.signers).toBe(signers)
+    })
+
+    it(`should emit ${DAppConnectorEvent.SessionDeleted} without the signers of the session`, () => {
+      handlers.session_update({ topic: fakeSession.topic, params: fakeSession })
+      const sessionDeleted = jest.fn()
+      const signersChanged = jest.fn()
+      connector.on(DAppConnectorEvent.SessionDeleted, sessionDeleted)
+      connector.once(DAppConnectorEvent.SignersChanged, signersChanged)
+
+      handlers.session_delete({ id: 1, topic: fakeSession.topic })
+
+      expect(sessionDeleted).toHaveBeenCalledWith({ topic: fakeSession.topic, signers: [] })
+      expect(signersChanged).toHaveBeenCalledWith({ signers: [] })
+      expect(connector.signers).toEqual([])
+    })
+
+    it.each([
+      [DAppConnectorEvent.AccountsChanged, ['hedera:testnet:0.0.12345'], 'accounts'],
+      [DAppConnectorEvent.ChainChanged, 'hedera:mainnet', 'chainId'],
+    ])('should emit %s for session events', (event, data, key) => {
+      const listener = jest.fn()
+      connector.on(event, listener)
+
+      handlers.session_event({
+        id: 1,
+        topic: fakeSession.topic,
+        params: { event: { name: event, data }, chainId: 'hedera:testnet' },
+      })
+
+      expect(listener).toHaveBeenCalledWith({
+        topic: fakeSession.topic,
+        [key]: data,
+        signers: connector.signers,
+      })
+    })
+
+    it('should remove listeners with off', () => {
+      const listener = jest.fn()
+      connector.on(DAppConnectorEvent.SessionDeleted, listener)
+      connector.off(DAppConnectorEvent.SessionDeleted, listener)
+
+      handlers.session_delete({ id: 1, topic: fakeSession.topic })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
   })
 
   describe('disconnect', () => {
@@ -122,19 +473,166 @@ describe('DAppConnector', () => {
     })
   })
 
+  describe(DAppConnector.prototype.getSigner, () => {
+    const otherAccountId = AccountId.fromString('0.0.54321')
+    const mainnetTopic = 'mainnet-topic'
+    let requestMocks: { [topic: string]: jest.Mock }
+
+    function createSigner(accountId: AccountId, topic: string, ledgerId: LedgerId) {
+      const client = { request: requestMocks[topic] } as unknown as ISignClient
+      return new DAppSigner(accountId, client, topic, ledgerId, {} as MirrorNodeClient)
+    }
+
+    beforeEach(() => {
+      const respond = async ({ request }: { request: { method: HederaJsonRpcMethod } }) =>
+        results[request.method]
+      requestMocks = { [fakeSession.topic]: jest.fn(respond), [mainnetTopic]: jest.fn(respond) }
+      connector.signers = [
+        createSigner(testUserAccountId, fakeSession.topic, LedgerId.TESTNET),
+        createSigner(otherAccountId, fakeSession.topic, LedgerId.TESTNET),
+        createSigner(testUserAccountId, mainnetTopic, LedgerId.MAINNET),
+      ]
+    })
+
+    it('should return the signer of the connector network by default', () => {
+      const signer = connector.getSigner(testUserAccountId)
+
+      expect(signer).toBe(connector.signers[0])
+    })
+
+    it('should return the signer of the ledger and session', () => {
+      expect(connector.getSigner(testUserAccountId.toString(), LedgerId.MAINNET)).toBe(
+        connector.signers[2],
+      )
+      expect(connector.getSigner(testUserAccountId, undefined, mainnetTopic)).toBe(
+        connector.signers[2],
+      )
+    })
+
+    it('should throw an error if there is no matching signer', () => {
+      expect(() => connector.getSigner('0.0.1')).toThrow('There is no signer for account 0.0.1')
+      expect(() => connector.getSigner(otherAccountId, LedgerId.MAINNET)).toThrow(
+        'There is no signer for account 0.0.54321 on ledger mainnet',
+      )
+      expect(() => connector.getSigner(otherAccountId, undefined, mainnetTopic)).toThrow(
+        `There is no signer for account 0.0.54321 in session ${mainnetTopic}`,
+      )
+    })
+
+    it('should route requests to the session of the signer account', async () => {
+      const params: SignMessageParams = {
+        signerAccountId: testUserAccountId.toString(),
+        message: 'Hello World',
+      }
+
+      await connector.signMessage(params, { topic: mainnetTopic })
+
+      expect(requestMocks[fakeSession.topic]).not.toHaveBeenCalled()
+      expect(requestMocks[mainnetTopic]).toHaveBeenCalledWith(
+        expect.objectContaining({
+          topic: mainnetTopic,
+          request: { method: HederaJsonRpcMethod.SignMessage, params },
+        }),
+      )
+    })
+
+    it('should route requests without a signer account to the session', async () => {
+      await connector.getNodeAddresses({ topic: fakeSession.topic })
+
+      expect(requestMocks[fakeSession.topic]).toHaveBeenCalledTimes(1)
+      expect(requestMocks[mainnetTopic]).not.toHaveBeenCalled()
+    })
+
+    it('should return the result of the wallet', async () => {
+      await expect(connector.getNodeAddresses({ topic: fakeSession.topic })).resolves.toEqual(
+        results[HederaJsonRpcMethod.GetNodeAddresses],
+      )
+    })
+
+    it('should decode the receipts of executed transactions', async () => {
+      const [response] = results[HederaJsonRpcMethod.SignAndExecuteTransaction]
+      const receipt = {
+        status: Status.Success._code,
+        accountId: null,
+        tokenId: null,
+        topicId: '0.0.1001',
+        contractId: null,
+        fileId: null,
+        serials: [],
+        exchangeRate: null,
+      }
+      requestMocks[fakeSession.topic].mockResolvedValueOnce([
+        { ...response, status: 'success', receipt },
+        { ...response, status: 'skipped' },
+      ])
+
+      const [executed, skipped] = await connector.signAndExecuteTransaction({
+        signerAccountId: testUserAccountId.toString(),
+        transaction: [
+          transactionToBase64String(prepareTestTransaction(new TopicCreateTransaction())),
+        ],
+        waitForReceipt: true,
+      })
+
+      expect(executed.receipt).toBeInstanceOf(TransactionReceipt)
+      expect(executed.receipt?.status).toBe(Status.Success)
+      expect(executed.receipt?.topicId?.toString()).toBe('0.0.1001')
+      expect(skipped).toEqual({ ...response, status: 'skipped' })
+    })
+
+    it('should reject malformed results of the wallet', async () => {
+      requestMocks[fakeSession.topic].mockResolvedValueOnce({ nodes: ['0.0.3', 3] })
+      await expect(connector.getNodeAddresses({ topic: fakeSession.topic })).rejects.toThrow(
+        'Invalid hedera_getNodeAddresses response from the wallet: ' +
+          'Invalid value for result.nodes[1], expected account ID but got number',
+      )
+
+      requestMocks[fakeSession.topic].mockResolvedValueOnce({ signatureMap: 'not base64' })
+      await expect(
+        connector.signTransaction({
+          signerAccountId: testUserAccountId.toString(),
+          transactionBody: 'AA==',
+        }),
+      ).rejects.toThrow(
+        'Invalid hedera_signTransaction response from the wallet: ' +
+          'Invalid value for result.signatureMap, expected base64 string but got "not base64"',
+      )
+    })
+
+    it('should throw an error if there is no signer for the request', async () => {
+      await expect(connector.getNodeAddresses({ topic: 'unknown-topic' })).rejects.toThrow(
+        'There is no signer in session unknown-topic',
+      )
+      await expect(
+        connector.signMessage({ signerAccountId: '0.0.1', message: 'Hello World' }),
+      ).rejects.toThrow('There is no signer for account 0.0.1')
+    })
+  })
+
   describe('requests', () => {
     let lastSignerRequestMock: jest.SpyInstance
 
     beforeEach(async () => {
       const checkPersistedStateSpy = jest.spyOn(connector as any, 'checkPersistedState')
-      checkPersistedStateSpy.mockReturnValue([fakeSession])
+      const session: SessionTypes.Struct = {
+        ...fakeSession,
+        namespaces: {
+          hedera: {
+            ...fakeSession.namespaces.hedera,
+            accounts: [`hedera:testnet:${testUserAccountId.toString()}`],
+          },
+        },
+      }
+      checkPersistedStateSpy.mockReturnValue([session])
 
       await connector.init({ logger: 'error' })
 
       checkPersistedStateSpy.mockRestore()
 
       lastSignerRequestMock = jest.spyOn(connector.signers[0] as any, 'request')
-      lastSignerRequestMock.mockImplementation(() => {})
+      lastSignerRequestMock.mockImplementation(
+        async ({ method }: { method: HederaJsonRpcMethod }) => results[method],
+      )
     })
 
     afterEach(() => {
@@ -279,7 +777,7 @@ describe('DAppConnector', () => {
       const transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
       const params: SignTransactionParams = {
         signerAccountId: testUserAccountId.toString(),
-        transaction: [transactionToBase64String(transaction)],
+        transactionBody: transactionBodyToBase64String(transaction),
       }
 
       it('should throw an error if there is no any signer', async () => {
@@ -300,6 +798,46 @@ describe('DAppConnector', () => {
           params,
         })
       })
+
+      it('should invoke last signer request with legacy params', async () => {
+        const legacyParams: LegacySignTransactionParams = {
+          signerAccountId: testUserAccountId.toString(),
+          transaction: [transactionToBase64String(transaction)],
+        }
+
+        await connector.signTransaction(legacyParams)
+
+        expect(lastSignerRequestMock).toHaveBeenCalledWith({
+          method: HederaJsonRpcMethod.SignTransaction,
+          params: legacyParams,
+        })
+      })
+    })
+
+    describe(DAppConnector.prototype.signAndReturnTransaction, () => {
+      it('should throw an error if there is no signer for the account', async () => {
+        const transaction = prepareTestTransaction(new TopicCreateTransaction())
+
+        await expect(
+          connector.signAndReturnTransaction('0.0.54321', transaction),
+        ).rejects.toThrow('There is no signer for account 0.0.54321')
+      })
+
+      it('should sign the transaction with the signer of the account', async () => {
+        const signer = connector.signers[0]
+        const transaction = prepareTestTransaction(new TopicCreateTransaction())
+        const signTransactionSpy = jest
+          .spyOn(signer, 'signTransaction')
+          .mockImplementation(async (transaction) => transaction)
+
+        const result = await connector.signAndReturnTransaction(
+          signer.getAccountId().toString(),
+          transaction,
+        )
+
+        expect(result).toBe(transaction)
+        expect(signTransactionSpy).toHaveBeenCalledWith(transaction)
+      })
     })
   })
 
@@ -0,0 +1,476 @@
+import {
+  AccountBalance,
+  AccountId,
+  AccountBalanceQuery,
+  LedgerId,
+  PrecheckStatusError,
+  PrivateKey,
+  Status,
+  TopicCreateTransaction,
+  TransactionResponse,
+} from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+import { ISignClient, SessionTypes } from '@walletconnect/types'
+import { getSdkError } from '@walletconnect/utils'
+import {
+  DAppSigner,
+  HEDERA_ERRORS,
+  HederaChainId,
+  HederaJsonRpcError,
+  HederaRequestError,
+  HederaJsonRpcMethod,
+  MirrorNodeClient,
+  Uint8ArrayToBase64String,
+  base64StringToUint8Array,
+  messageToBase64String,
+  mirrorNodeAccountToAccountInfo,
+  signatureMapToBase64,
+  transactionBodyToBase64String,
+  transactionToSignatureMap,
+  UnsupportedMethodError,
+  UserRejectedError,
+} from '../../src'
+import {
+  prepareTestTransaction,
+  requestTopic,
+  testNodeAccountId,
+  testPrivateKeyED25519,
+  testTransactionId,
+  testUserAccountId,
+  useJsonFixture,
+} from '../_helpers'
+
+describe(DAppSigner.name, () => {
+  let signer: DAppSigner
+  let requestMock: jest.Mock
+  let walletResults: { [method: string]: any }
+  let mirrorNodeClient: jest.Mocked<MirrorNodeClient>
+  let session: SessionTypes.Struct
+  const nodes = ['0.0.3', '0.0.4', '0.0.5', '0.0.6']
+
+  beforeEach(() => {
+    walletResults = { [HederaJsonRpcMethod.GetNodeAddresses]: { nodes } }
+    requestMock = jest.fn(async ({ request }) => walletResults[request.method])
+    mirrorNodeClient = {
+      getAccountBalance: jest.fn(),
+      getAccountInfo: jest.fn(),
+      getAccountRecords: jest.fn(),
+      getAccountKey: jest.fn(),
+    }
+    session = useJsonFixture('fakeSession')
+    session.namespaces.hedera.accounts = [`hedera:testnet:${testUserAccountId.toString()}`]
+    const client = {
+      request: requestMock,
+      session: { get: () => session },
+    } as unknown as ISignClient
+    signer = new DAppSigner(
+      testUserAccountId,
+      client,
+      requestTopic,
+      LedgerId.TESTNET,
+      mirrorNodeClient,
+    )
+  })
+
+  describe('account reads', () => {
+    const accountInfo = mirrorNodeAccountToAccountInfo(
+      useJsonFixture('mirrorNode/account'),
+      LedgerId.TESTNET,
+    )
+
+    it('should read the account balance, info and records from the mirror node', async () => {
+      mirrorNodeClient.getAccountInfo.mockResolvedValue(accountInfo)
+      mirrorNodeClient.getAccountRecords.mockResolvedValue([])
+
+      await expect(signer.getAccountInfo()).resolves.toBe(accountInfo)
+      await expect(signer.getAccountRecords()).resolves.toEqual([])
+      await signer.getAccountBalance()
+
+      expect(mirrorNodeClient.getAccountInfo).toHaveBeenCalledWith(testUserAccountId)
+      expect(mirrorNodeClient.getAccountRecords).toHaveBeenCalledWith(testUserAccountId)
+      expect(mirrorNodeClient.getAccountBalance).toHaveBeenCalledWith(testUserAccountId)
+      expect(requestMock).not.toHaveBeenCalled()
+    })
+
+    it('should create the mirror node client of a factory on first use', async () => {
+      const mirrorNodeClientFactory = jest.fn(() => mirrorNodeClient)
+      mirrorNodeClient.getAccountRecords.mockResolvedValue([])
+      signer = new DAppSigner(
+        testUserAccountId,
+        {} as ISignClient,
+        requestTopic,
+        LedgerId.TESTNET,
+        mirrorNodeClientFactory,
+      )
+
+      expect(mirrorNodeClientFactory).not.toHaveBeenCalled()
+
+      await signer.getAccountRecords()
+      await signer.getAccountBalance()
+
+      expect(mirrorNodeClientFactory).toHaveBeenCalledTimes(1)
+      expect(mirrorNodeClientFactory).toHaveBeenCalledWith(LedgerId.TESTNET)
+    })
+
+    it('should return the account key loaded with the account info', async () => {
+      mirrorNodeClient.getAccountInfo.mockResolvedValue(accountInfo)
+
+      expect(() => signer.getAccountKey()).toThrow('Account key is not loaded')
+
+      await signer.getAccountInfo()
+
+      expect(signer.getAccountKey()).toBe(accountInfo.key)
+    })
+
+    it('should return the network of the signer ledger', () => {
+      expect(Object.values(signer.getNetwork()).map(String)).toContain('0.0.3')
+      expect(signer.getMirrorNetwork()).toEqual(['testnet.mirrornode.hedera.com:443'])
+    })
+  })
+
+  describe('populateTransaction', () => {
+    it('should set transaction id, node account ids from the wallet and freeze', async () => {
+      const transaction = new TopicCreateTransaction()
+
+      await transaction.freezeWithSigner(signer)
+
+      expect(transaction.isFrozen()).toBe(true)
+      expect(transaction.transactionId?.accountId?.toString()).toBe(
+        testUserAccountId.toString(),
+      )
+      expect(transaction.nodeAccountIds).toHaveLength(2)
+      transaction.nodeAccountIds!.forEach((nodeAccountId) =>
+        expect(nodes).toContain(nodeAccountId.toString()),
+      )
+    })
+
+    it(`should request ${HederaJsonRpcMethod.GetNodeAddresses} once per session`, async () => {
+      await signer.populateTransaction(new TopicCreateTransaction())
+      await signer.populateTransaction(new TopicCreateTransaction())
+
+      expect(requestMock).toHaveBeenCalledTimes(1)
+      expect(requestMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          request: { method: HederaJsonRpcMethod.GetNodeAddresses, params: undefined },
+        }),
+      )
+    })
+
+    it('should not modify values that are already set', async () => {
+      const transaction = prepareTestTransaction(new TopicCreateTransaction())
+
+      await signer.populateTransaction(transaction)
+
+      expect(transaction.isFrozen()).toBe(true)
+      expect(transaction.transactionId?.toString()).toBe(testTransactionId.toString())
+      expect(transaction.nodeAccountIds?.map(String)).toEqual([testNodeAccountId.toString()])
+    })
+  })
+
+  describe('checkTransaction', () => {
+    it('should resolve with a transaction that matches the session', async () => {
+      const transaction = prepareTestTransaction(new TopicCreateTransaction())
+
+      await expect(signer.checkTransaction(transaction)).resolves.toBe(transaction)
+    })
+
+    it('should reject a transaction paid by a different account', async () => {
+      const transaction = prepareTestTransaction(new TopicCreateTransaction(), {
+        operatorAccountId: 54321,
+      })
+
+      await expect(signer.checkTransaction(transaction)).rejects.toThrow(
+        'Transaction payer 0.0.54321 does not match signer account 0.0.12345',
+      )
+    })
+
+    it('should reject a transaction with node account ids outside of the wallet network', async () => {
+      const transaction = prepareTestTransaction(new TopicCreateTransaction(), {
+        setNodeAccountIds: false,
+      })
+      transaction.setNodeAccountIds([AccountId.fromString('0.0.30')])
+
+      await expect(signer.checkTransaction(transaction)).rejects.toThrow(
+        'Transaction node account IDs 0.0.30 are not within the wallet network',
+      )
+    })
+
+    it('should reject a transaction when the signer ledger is not within the session', async () => {
+      const transaction = prepareTestTransaction(new TopicCreateTransaction())
+      session.namespaces.hedera.accounts = [`hedera:mainnet:${testUserAccountId.toString()}`]
+
+      await expect(signer.checkTransaction(transaction)).rejects.toThrow(
+        'Signer account 0.0.12345 on ledger testnet is not within the session',
+      )
+    })
+  })
+
+  describe('signMessages', () => {
+    it(`should send a ${HederaJsonRpcMethod.SignMessage} request per message`, async () => {
+      const { signatureMap } = useJsonFixture('methods/signTransactionBodySuccess').response
+        .result
+      walletResults[HederaJsonRpcMethod.SignMessage] = { signatureMap }
+
+      const signatureMaps = await signer.signMessages(['Hello', Buffer.from('Hedera')])
+
+      expect(signatureMaps).toEqual([
+        base64StringToUint8Array(signatureMap),
+        base64StringToUint8Array(signatureMap),
+      ])
+      expect(requestMock.mock.calls.map(([{ request }]) => request.params)).toEqual([
+        {
+          signerAccountId: testUserAccountId.toString(),
+          message: messageToBase64String('Hello'),
+          version: 1,
+        },
+        {
+          signerAccountId: testUserAccountId.toString(),
+          message: messageToBase64String('Hedera'),
+          version: 1,
+        },
+      ])
+    })
+  })
+
+  describe('signTransaction', () => {
+    const privateKey = PrivateKey.fromStringDer(testPrivateKeyED25519)
+    let signatureMap: string
+
+    beforeEach(async () => {
+      const walletTransaction = prepareTestTransaction(new TopicCreateTransaction(), {
+        freeze: true,
+      })
+      await walletTransaction.sign(privateKey)
+      signatureMap = signatureMapToBase64(transactionToSignatureMap(walletTransaction))
+    })
+
+    it('should send the transaction body and add the returned signatures', async () => {
+      walletResults[HederaJsonRpcMethod.SignTransaction] = { signatureMap }
+      const transaction = prepareTestTransaction(new TopicCreateTransaction())
+
+      const signedTransaction = await transaction.signWithSigner(signer)
+
+      expect(signedTransaction).toBe(transaction)
+      expect(privateKey.publicKey.verifyTransaction(transaction)).toBe(true)
+      expect(requestMock).toHaveBeenCalledWith({
+        topic: requestTopic,
+        chainId: HederaChainId.Testnet,
+        request: {
+          method: HederaJsonRpcMethod.SignTransaction,
+          params: {
+            signerAccountId: testUserAccountId.toString(),
+            transactionBody: transactionBodyToBase64String(transaction),
+            version: 1,
+          },
+        },
+      })
+    })
+
+    it('should send the legacy array of transactions when enabled', async () => {
+      walletResults[HederaJsonRpcMethod.SignTransaction] = [signatureMap]
+      signer.useLegacySignTransaction = true
+      const transaction = prepareTestTransaction(new TopicCreateTransaction())
+
+      await signer.signTransaction(transaction)
+
+      expect(privateKey.publicKey.verifyTransaction(transaction)).toBe(true)
+      expect(requestMock).toHaveBeenCalledWith({
+        topic: requestTopic,
+        chainId: HederaChainId.Testnet,
+        request: {
+          method: HederaJsonRpcMethod.SignTransaction,
+          params: {
+            signerAccountId: testUserAccountId.toString(),
+            transaction: [expect.any(String)],
+            version: 1,
+          },
+        },
+      })
+    })
+
+    it('should pick a single node account id from the wallet network', async () => {
+      walletResults[HederaJsonRpcMethod.SignTransaction] = { signatureMap }
+      const transaction = new TopicCreateTransaction()
+
+      await signer.signTransaction(transaction)
+
+      expect(transaction.nodeAccountIds).toHaveLength(1)
+      expect(nodes).toContain(transaction.nodeAccountIds![0].toString())
+    })
+  })
+
+  describe('call', () => {
+    const transactionHash = Uint8ArrayToBase64String(new Uint8Array([1, 2, 3, 4]))
+
+    it(`should send a Transaction with ${HederaJsonRpcMethod.SignAndExecuteTransaction}`, async () => {
+      const transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
+      walletResults[HederaJsonRpcMethod.SignAndExecuteTransaction] = [
+        {
+          nodeId: testNodeAccountId.toString(),
+          transactionHash,
+          transactionId: testTransactionId.toString(),
+          precheckCode: 0,
+        },
+      ]
+
+      const response = await transaction.executeWithSigner(signer)
+
+      expect(requestMock).toHaveBeenCalledWith({
+        topic: requestTopic,
+        chainId: HederaChainId.Testnet,
+        request: {
+          method: HederaJsonRpcMethod.SignAndExecuteTransaction,
+          params: {
+            signerAccountId: testUserAccountId.toString(),
+            transaction: [expect.any(String)],
+            version: 1,
+          },
+        },
+      })
+      expect(response).toBeInstanceOf(TransactionResponse)
+      expect(response.nodeId.toString()).toBe(testNodeAccountId.toString())
+      expect(response.transactionId.toString()).toBe(testTransactionId.toString())
+      expect(Uint8ArrayToBase64String(response.transactionHash)).toBe(transactionHash)
+    })
+
+    it('should throw PrecheckStatusError when the wallet returns a failed precheck code', async () => {
+      const transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
+      walletResults[HederaJsonRpcMethod.SignAndExecuteTransaction] = [
+        {
+          nodeId: testNodeAccountId.toString(),
+          transactionHash,
+          transactionId: testTransactionId.toString(),
+          precheckCode: Status.InsufficientPayerBalance._code,
+        },
+      ]
+
+      const result = transaction.executeWithSigner(signer)
+
+      await expect(result).rejects.toBeInstanceOf(PrecheckStatusError)
+      await expect(result).rejects.toMatchObject({ status: Status.InsufficientPayerBalance })
+    })
+
+    it.each([
+      ['an error', { status: 'failed', error: 'Connection lost' }, 'Connection lost'],
+      ['no precheck code', { status: 'failed' }, 'status failed'],
+      ['a skipped status', { status: 'skipped' }, 'status skipped'],
+    ])('should throw when the wallet returns %s', async (_, executionResult, reason) => {
+      const transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
+      walletResults[HederaJsonRpcMethod.SignAndExecuteTransaction] = [
+        {
+          nodeId: testNodeAccountId.toString(),
+          transactionHash,
+          transactionId: testTransactionId.toString(),
+          ...executionResult,
+        },
+      ]
+
+      await expect(transaction.executeWithSigner(signer)).rejects.toThrow(
+        `Transaction ${testTransactionId.toString()} was not executed by the wallet: ${reason}`,
+      )
+    })
+
+    it(`should send a Query with ${HederaJsonRpcMethod.SignQueryAndSend}`, async () => {
+      const query = new AccountBalanceQuery().setAccountId(testUserAccountId)
+      const balanceBytes = proto.CryptoGetAccountBalanceResponse.encode({
+        balance: 1_000,
+      }).finish()
+      walletResults[HederaJsonRpcMethod.SignQueryAndSend] = {
+        response: Uint8ArrayToBase64String(balanceBytes),
+      }
+
+      const balance = await query.executeWithSigner(signer)
+
+      expect(requestMock).toHaveBeenCalledWith({
+        topic: requestTopic,
+        chainId: HederaChainId.Testnet,
+        request: {
+          method: HederaJsonRpcMethod.SignQueryAndSend,
+          params: {
+            signerAccountId: testUserAccountId.toString(),
+            query: expect.any(String),
+            version: 1,
+          },
+        },
+      })
+      expect(balance).toBeInstanceOf(AccountBalance)
+      expect(balance.hbars.toTinybars().toNumber()).toBe(1_000)
+    })
+  })
+
+  describe('request', () => {
+    const getNodeAddresses = () =>
+      signer.request({ method: HederaJsonRpcMethod.GetNodeAddresses, params: undefined })
+
+    it('should reject error responses of the wallet as typed errors', async () => {
+      requestMock.mockRejectedValueOnce({
+        code: HEDERA_ERRORS.USER_REJECTED.code,
+        message: 'USER_REJECTED Method hedera_signMessage requires review',
+        data: { reasons: ['Method hedera_signMessage requires review'] },
+      })
+
+      const error = await getNodeAddresses().catch((e) => e)
+
+      expect(error).toBeInstanceOf(UserRejectedError)
+      expect(error).toBeInstanceOf(HederaRequestError)
+      expect(error).toBeInstanceOf(HederaJsonRpcError)
+      expect(error).toMatchObject({
+        name: 'UserRejectedError',
+        code: -2,
+        message: 'USER_REJECTED Method hedera_signMessage requires review',
+        data: { reasons: ['Method hedera_signMessage requires review'] },
+        jsonrpc: '2.0',
+        error: {
+          code: -2,
+          message: 'USER_REJECTED Method hedera_signMessage requires review',
+          data: { reasons: ['Method hedera_signMessage requires review'] },
+        },
+      })
+    })
+
+    it('should map WalletConnect SDK error codes and keep unknown codes', async () => {
+      requestMock
+        .mockRejectedValueOnce(getSdkError('USER_REJECTED'))
+        .mockRejectedValueOnce(getSdkError('INVALID_METHOD'))
+        .mockRejectedValueOnce({ code: 42, message: 'Unknown' })
+
+      await expect(getNodeAddresses()).rejects.toBeInstanceOf(UserRejectedError)
+      await expect(getNodeAddresses()).rejects.toBeInstanceOf(UnsupportedMethodError)
+      await expect(getNodeAddresses()).rejects.toMatchObject({
+        name: 'HederaRequestError',
+        code: 42,
+        message: 'Unknown',
+      })
+    })
+
+    it('should reject malformed results of signTransaction and call', async () => {
+      walletResults[HederaJsonRpcMethod.SignTransaction] = { signatureMap: 'not base64' }
+      walletResults[HederaJsonRpcMethod.SignAndExecuteTransaction] = [{ precheckCode: 0 }]
+
+      await expect(
+        signer.signTransaction(prepareTestTransaction(new TopicCreateTransaction())),
+      ).rejects.toThrow(
+        'Invalid hedera_signTransaction response from the wallet: ' +
+          'Invalid value for result.signatureMap, expected base64 string but got "not base64"',
+      )
+      await expect(
+        signer.call(prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })),
+      ).rejects.toThrow('Invalid hedera_signAndExecuteTransaction response from the wallet')
+    })
+
+    it('should return results of other methods without validating them', async () => {
+      requestMock.mockResolvedValueOnce({ blockNumber: '0x1' })
+
+      await expect(signer.request({ method: 'eth_blockNumber', params: [] })).resolves.toEqual({
+        blockNumber: '0x1',
+      })
+    })
+
+    it('should rethrow errors which are not error responses', async () => {
+      const error = new Error('No matching key')
+      requestMock.mockRejectedValueOnce(error)
+
+      await expect(getNodeAddresses()).rejects.toBe(error)
+    })
+  })
+})
@@ -91,6 +91,20 @@ describe(HederaSessionRequest.name, () => {
       }
 
       expect(result).toEqual(expected)
+      expect(
+        HederaSessionRequest.create({
+          chainId: CHAIN_ID,
+          topic: TOPIC,
+        }).buildSignMessageRequest('0.0.1234', 'Test me'),
+      ).toEqual(expected)
+    })
+
+    it('should throw an error for more than one message', () => {
+      const request = HederaSessionRequest.create({ chainId: CHAIN_ID, topic: TOPIC })
+
+      expect(() => request.buildSignMessageRequest('0.0.1234', ['Test me', 'Me too'])).toThrow(
+        'hedera_signMessage signs a single message, got 2',
+      )
     })
   })
 })
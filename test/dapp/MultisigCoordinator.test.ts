@@ -0,0 +1,204 @@
+import {
+  AccountId,
+  KeyList,
+  LedgerId,
+  PrivateKey,
+  PublicKey,
+  TopicCreateTransaction,
+  Transaction,
+} from '@hashgraph/sdk'
+import { ISignClient } from '@walletconnect/types'
+import {
+  DAppConnector,
+  DAppSigner,
+  HederaJsonRpcMethod,
+  MirrorNodeClient,
+  MultisigCoordinator,
+  base64StringToTransaction,
+  base64StringToUint8Array,
+  signatureMapToBase64,
+} from '../../src'
+import {
+  dAppMetadata,
+  prepareTestTransaction,
+  projectId,
+  testPrivateKeyECDSA,
+  testPrivateKeyED25519,
+  testUserAccountId,
+  useJsonFixture,
+} from '../_helpers'
+
+describe(MultisigCoordinator.name, () => {
+  const topic = 'multisig-topic'
+  const coSigners = [
+    [AccountId.fromString('0.0.1001'), PrivateKey.fromStringDer(testPrivateKeyED25519)],
+    [AccountId.fromString('0.0.1002'), PrivateKey.fromStringDer(testPrivateKeyECDSA)],
+    [AccountId.fromString('0.0.1003'), PrivateKey.generateED25519()],
+  ] as const
+  const [[, firstKey], [, secondKey], [, thirdKey]] = coSigners
+  const key = new KeyList(
+    coSigners.map(([, privateKey]) => privateKey.publicKey),
+    2,
+  )
+  const executeResult = useJsonFixture('methods/executeTransactionSuccess').response.result
+  let connector: DAppConnector
+  let coordinator: MultisigCoordinator
+  let requestMocks: jest.Mock[]
+  let transaction: Transaction
+
+  // the wallet of each co-signer signs the transaction body with its key
+  const walletOf = (privateKey: PrivateKey) =>
+    jest.fn(async ({ request: { method, params } }) => {
+      if (method === HederaJsonRpcMethod.ExecuteTransaction) return executeResult
+
+      const signature = privateKey.sign(base64StringToUint8Array(params.transactionBody))
+      return {
+        signatureMap: signatureMapToBase64({
+          sigPair: [privateKey.publicKey._toProtobufSignature(signature)],
+        }),
+      }
+    })
+
+  const signers = coSigners.map(([accountId]) => ({ signerAccountId: accountId, topic }))
+
+  beforeEach(() => {
+    connector = new DAppConnector(dAppMetadata, LedgerId.TESTNET, projectId)
+    requestMocks = coSigners.map(([, privateKey]) => walletOf(privateKey))
+    connector.signers = coSigners.map(
+      ([accountId], index) =>
+        new DAppSigner(
+          accountId,
+          { request: requestMocks[index] } as unknown as ISignClient,
+          topic,
+          LedgerId.TESTNET,
+          {} as MirrorNodeClient,
+        ),
+    )
+    coordinator = new MultisigCoordinator(connector, () => key)
+    transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
+  })
+
+  it('should collect signatures until the threshold of the account key is met', async () => {
+    const signatures = await coordinator.collectSignatures(
+      transaction,
+      testUserAccountId,
+      signers,
+    )
+
+    expect(signatures).toMatchObject({
+      transaction,
+      key,
+      threshold: 2,
+      signedKeys: 2,
+      isComplete: true,
+    })
+    expect(
+      signatures.signers.map(({ signerAccountId, status }) => [signerAccountId, status]),
+    ).toEqual([
+      ['0.0.1001', 'signed'],
+      ['0.0.1002', 'signed'],
+      ['0.0.1003', 'skipped'],
+    ])
+    expect(
+      signatures.signers[1].publicKeys.map((publicKey) => publicKey.toStringDer()),
+    ).toEqual([secondKey.publicKey.toStringDer()])
+    expect(firstKey.publicKey.verifyTransaction(transaction)).toBe(true)
+    expect(secondKey.publicKey.verifyTransaction(transaction)).toBe(true)
+    expect(requestMocks[2]).not.toHaveBeenCalled()
+  })
+
+  it('should record co-signers which fail and ask the next ones', async () => {
+    requestMocks[0].mockRejectedValueOnce(new Error('User rejected'))
+    // signs other bytes than the transaction body
+    requestMocks[1].mockResolvedValueOnce({
+      signatureMap: signatureMapToBase64({
+        sigPair: [
+          secondKey.publicKey._toProtobufSignature(secondKey.sign(new Uint8Array([1, 2, 3]))),
+        ],
+      }),
+    })
+
+    const signatures = await coordinator.collectSignatures(
+      transaction,
+      testUserAccountId,
+      signers,
+    )
+
+    expect(signatures.signers).toEqual([
+      {
+        signerAccountId: '0.0.1001',
+        topic,
+        status: 'failed',
+        publicKeys: [],
+        error: 'User rejected',
+      },
+      {
+        signerAccountId: '0.0.1002',
+        topic,
+        status: 'failed',
+        publicKeys: [],
+        error: `Invalid signature of key ${secondKey.publicKey.toStringDer()}`,
+      },
+      {
+        signerAccountId: '0.0.1003',
+        topic,
+        status: 'signed',
+        publicKeys: [expect.any(PublicKey)],
+      },
+    ])
+    expect(signatures).toMatchObject({ threshold: 2, signedKeys: 1, isComplete: false })
+    expect(thirdKey.publicKey.verifyTransaction(transaction)).toBe(true)
+    expect(secondKey.publicKey.verifyTransaction(transaction)).toBe(false)
+  })
+
+  it('should execute the transaction with all collected signatures', async () => {
+    const { result } = await coordinator.collectSignaturesAndExecute(
+      transaction,
+      testUserAccountId,
+      signers,
+      { waitForReceipt: false },
+    )
+
+    expect(result).toEqual(executeResult[0])
+    const [{ request }] = requestMocks[0].mock.calls.at(-1)
+    expect(request.method).toBe(HederaJsonRpcMethod.ExecuteTransaction)
+    expect(request.params).toMatchObject({ waitForReceipt: false, version: 1 })
+    const executed = base64StringToTransaction(request.params.signedTransaction[0])
+    expect(firstKey.publicKey.verifyTransaction(executed)).toBe(true)
+    expect(secondKey.publicKey.verifyTransaction(executed)).toBe(true)
+  })
+
+  it('should not execute a transaction below the threshold', async () => {
+    await expect(
+      coordinator.collectSignaturesAndExecute(transaction, testUserAccountId, signers.slice(2)),
+    ).rejects.toThrow('Transaction has 1 of 2 required signatures of account 0.0.12345')
+    expect(requestMocks[2].mock.calls.map(([{ request }]) => request.method)).toEqual([
+      HederaJsonRpcMethod.SignTransaction,
+    ])
+  })
+
+  it('should only collect signatures on frozen transactions', async () => {
+    await expect(
+      coordinator.collectSignatures(
+        prepareTestTransaction(new TopicCreateTransaction()),
+        testUserAccountId,
+        signers,
+      ),
+    ).rejects.toThrow('Transaction must be frozen before collecting signatures')
+  })
+
+  it('should only collect signatures on transactions with a single body', async () => {
+    const multiNodeTransaction = prepareTestTransaction(new TopicCreateTransaction(), {
+      setNodeAccountIds: false,
+    })
+      .setNodeAccountIds([AccountId.fromString('0.0.3'), AccountId.fromString('0.0.4')])
+      .freeze()
+
+    await expect(
+      coordinator.collectSignatures(multiNodeTransaction, testUserAccountId, signers),
+    ).rejects.toThrow(
+      'Transaction must have a single node account ID and a single chunk to collect signatures',
+    )
+    requestMocks.forEach((request) => expect(request).not.toHaveBeenCalled())
+  })
+})
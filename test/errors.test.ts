@@ -0,0 +1,41 @@
+import { Status } from '@hashgraph/sdk'
+import { HEDERA_ERRORS, getHederaError, getHederaErrorKeyFromStatus } from '../src'
+
+describe('errors', () => {
+  it('should use a unique code for every Hedera error', () => {
+    const codes = Object.values(HEDERA_ERRORS).map(({ code }) => code)
+
+    expect(new Set(codes).size).toBe(codes.length)
+    expect(
+      getHederaError('CHAIN_MISMATCH', 'hedera:mainnet', { chainId: 'hedera:mainnet' }),
+    ).toEqual({
+      code: -5,
+      message: 'CHAIN_MISMATCH hedera:mainnet',
+      data: { chainId: 'hedera:mainnet' },
+    })
+  })
+
+  describe(getHederaErrorKeyFromStatus, () => {
+    it('should not map successful statuses', () => {
+      expect(getHederaErrorKeyFromStatus(Status.Ok)).toBeUndefined()
+      expect(getHederaErrorKeyFromStatus(Status.Success._code, 'receipt')).toBeUndefined()
+    })
+
+    it('should map statuses with a specific error', () => {
+      expect(getHederaErrorKeyFromStatus(Status.TransactionExpired)).toBe('TRANSACTION_EXPIRED')
+      expect(getHederaErrorKeyFromStatus(Status.InvalidSignature._code, 'receipt')).toBe(
+        'UNAUTHORIZED_ACCOUNT',
+      )
+      expect(getHederaErrorKeyFromStatus(Status.WrongChainId)).toBe('CHAIN_MISMATCH')
+    })
+
+    it('should map other statuses by stage', () => {
+      expect(getHederaErrorKeyFromStatus(Status.InsufficientPayerBalance)).toBe(
+        'PRECHECK_FAILED',
+      )
+      expect(getHederaErrorKeyFromStatus(Status.InsufficientAccountBalance, 'receipt')).toBe(
+        'RECEIPT_FAILED',
+      )
+    })
+  })
+})
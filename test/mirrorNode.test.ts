@@ -0,0 +1,167 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { LedgerId, PrivateKey, PublicKey, Status } from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
+import { MirrorNodeRestClient, mirrorNodeKeyToKey } from '../src'
+import { testPrivateKeyECDSA, testUserAccountId, useJsonFixture } from './_helpers'
+
+describe(MirrorNodeRestClient.name, () => {
+  const account = useJsonFixture('mirrorNode/account')
+  const transactions = useJsonFixture('mirrorNode/transactions')
+  let server: http.Server
+  let client: MirrorNodeRestClient
+  let requestedUrls: string[]
+
+  beforeAll(async () => {
+    jest.useRealTimers()
+
+    server = http.createServer((request, response) => {
+      requestedUrls.push(request.url!)
+      const body =
+        request.url === `/api/v1/accounts/${testUserAccountId.toString()}`
+          ? account
+          : request.url?.startsWith('/api/v1/transactions?')
+            ? transactions
+            : null
+
+      response.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' })
+      response.end(
+        JSON.stringify(body ?? { _status: { messages: [{ message: 'Not found' }] } }),
+      )
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+    const { port } = server.address() as AddressInfo
+    client = new MirrorNodeRestClient(`http://127.0.0.1:${port}`, LedgerId.TESTNET)
+  })
+
+  beforeEach(() => {
+    requestedUrls = []
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  describe('forLedgerId', () => {
+    it('should create a client for the public mirror node of the ledger', () => {
+      const testnetClient = MirrorNodeRestClient.forLedgerId(LedgerId.TESTNET)
+
+      expect(testnetClient.url).toBe('https://testnet.mirrornode.hedera.com')
+      expect(testnetClient.ledgerId).toBe(LedgerId.TESTNET)
+    })
+
+    it('should not need fetch until a request is sent', async () => {
+      const { fetch } = globalThis
+      // @ts-expect-error runtimes without fetch
+      delete globalThis.fetch
+      try {
+        const client = MirrorNodeRestClient.forLedgerId(LedgerId.TESTNET)
+        await expect(client.getAccountKey(testUserAccountId)).rejects.toThrow(TypeError)
+      } finally {
+        globalThis.fetch = fetch
+      }
+    })
+  })
+
+  describe('getAccountBalance', () => {
+    it('should map the mirror node account to AccountBalance', async () => {
+      const balance = await client.getAccountBalance(testUserAccountId)
+
+      expect(requestedUrls).toEqual([`/api/v1/accounts/${testUserAccountId.toString()}`])
+      expect(balance.hbars.toTinybars().toNumber()).toBe(100_000_000)
+      expect(balance.toJSON().tokens).toEqual([
+        { tokenId: '0.0.456', balance: '25', decimals: 0 },
+      ])
+    })
+  })
+
+  describe('getAccountInfo', () => {
+    it('should map the mirror node account to AccountInfo', async () => {
+      const info = await client.getAccountInfo(testUserAccountId)
+
+      expect(info.accountId.toString()).toBe(testUserAccountId.toString())
+      expect(info.contractAccountId).toBe('0000000000000000000000000000000000003039')
+      expect(info.key.toString()).toBe(
+        PublicKey.fromStringED25519(account.key.key).toStringDer(),
+      )
+      expect(info.balance.toTinybars().toNumber()).toBe(100_000_000)
+      expect(info.expirationTime.seconds.toNumber()).toBe(1698776000)
+      expect(info.autoRenewPeriod.seconds.toNumber()).toBe(7776000)
+      expect(info.accountMemo).toBe('test account')
+      expect(info.maxAutomaticTokenAssociations.toNumber()).toBe(10)
+      expect(info.ledgerId).toEqual(LedgerId.TESTNET)
+      expect(Number(info.stakingInfo?.stakedNodeId)).toBe(3)
+    })
+  })
+
+  describe('getAccountRecords', () => {
+    it('should map the mirror node transactions to TransactionRecords', async () => {
+      const [record] = await client.getAccountRecords(testUserAccountId)
+
+      expect(requestedUrls).toEqual([
+        `/api/v1/transactions?account.id=${testUserAccountId.toString()}&order=desc`,
+      ])
+      expect(record.receipt.status).toBe(Status.Success)
+      expect(record.transactionId.toString()).toBe('0.0.12345@1691705630.325343432')
+      expect(record.transactionMemo).toBe('test memo')
+      expect(record.transactionFee.toTinybars().toNumber()).toBe(84650)
+      expect(record.consensusTimestamp.toString()).toBe('1691705640.123456789')
+      expect(
+        record.transfers.map(({ accountId, amount }) => [
+          accountId.toString(),
+          amount.toTinybars().toNumber(),
+        ]),
+      ).toEqual([
+        ['0.0.12345', -1084650],
+        ['0.0.98', 84650],
+        ['0.0.54321', 1000000],
+      ])
+      expect(
+        record.tokenTransfersList.map(({ tokenId, accountId, amount }) => [
+          tokenId.toString(),
+          accountId.toString(),
+          amount.toNumber(),
+        ]),
+      ).toEqual([
+        ['0.0.456', '0.0.12345', -5],
+        ['0.0.456', '0.0.54321', 5],
+      ])
+    })
+  })
+
+  describe('getAccountKey', () => {
+    it('should map the mirror node key to Key', async () => {
+      const key = await client.getAccountKey(testUserAccountId)
+
+      expect(key).toBeInstanceOf(PublicKey)
+      expect((key as PublicKey).toStringRaw()).toBe(account.key.key)
+    })
+
+    it('should throw an error when the mirror node responds with an error', async () => {
+      await expect(client.getAccountKey('0.0.1')).rejects.toThrow(
+        'Mirror node request /api/v1/accounts/0.0.1 failed with status 404',
+      )
+    })
+  })
+})
+
+describe(mirrorNodeKeyToKey.name, () => {
+  const publicKey = PrivateKey.fromStringDer(testPrivateKeyECDSA).publicKey
+
+  it('should decode ECDSA_SECP256K1 keys', () => {
+    const key = mirrorNodeKeyToKey({ _type: 'ECDSA_SECP256K1', key: publicKey.toStringRaw() })
+
+    expect((key as PublicKey).toStringDer()).toBe(publicKey.toStringDer())
+  })
+
+  it('should decode ProtobufEncoded keys', () => {
+    const keyBytes = proto.Key.encode(publicKey._toProtobufKey()).finish()
+    const key = mirrorNodeKeyToKey({
+      _type: 'ProtobufEncoded',
+      key: Buffer.from(keyBytes).toString('hex'),
+    })
+
+    expect((key as PublicKey).toStringDer()).toBe(publicKey.toStringDer())
+  })
+})
@@ -0,0 +1,87 @@
+import { TopicCreateTransaction, TopicDeleteTransaction } from '@hashgraph/sdk'
+import {
+  HEDERA_PARAMS_VERSION,
+  buildSignAndExecuteTransactionParams,
+  buildSignAndReturnTransactionParams,
+  buildSignMessageParams,
+  buildSignTransactionParams,
+  parseSignAndExecuteTransactionParams,
+  parseSignMessageParams,
+  parseSignTransactionParams,
+  transactionToBase64String,
+} from '../src'
+import { prepareTestTransaction, testUserAccountId, useJsonFixture } from './_helpers'
+
+describe(buildSignMessageParams.name, () => {
+  it('should build params with base64 encoded message', () => {
+    const msg = 'Test me'
+    const result = buildSignMessageParams('0.0.1234', msg)
+    const expected = useJsonFixture('buildSignMessageParamsResult')
+
+    expect(result).toEqual(expected)
+  })
+})
+
+describe(buildSignAndExecuteTransactionParams.name, () => {
+  it('should build transaction params with type and bytes', () => {
+    const transaction = prepareTestTransaction(new TopicCreateTransaction())
+
+    const result = buildSignAndExecuteTransactionParams('0.0.1234', transaction)
+    const expected = useJsonFixture('buildSignAndExecuteTransactionParamsResult')
+
+    expect(result).toEqual(expected)
+  })
+})
+
+describe(buildSignAndReturnTransactionParams.name, () => {
+  it('should build transaction params with type and bytes', () => {
+    const transaction = prepareTestTransaction(new TopicDeleteTransaction())
+
+    const result = buildSignAndReturnTransactionParams('0.0.1234', transaction)
+    const expected = useJsonFixture('buildSignAndReturnTransactionParamsResult')
+
+    expect(result).toEqual(expected)
+  })
+})
+
+describe('parsers', () => {
+  it('should parse the params of the builders', () => {
+    const transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
+
+    const message = parseSignMessageParams(buildSignMessageParams(testUserAccountId, 'Hello'))
+    const signTransaction = parseSignTransactionParams(
+      buildSignTransactionParams(testUserAccountId, transaction),
+    )
+    const signAndExecute = parseSignAndExecuteTransactionParams(
+      buildSignAndExecuteTransactionParams(testUserAccountId, [transaction, transaction]),
+    )
+
+    expect(Buffer.from(message.body[0]).toString()).toBe('\x19Hedera Signed Message:\n5Hello')
+    expect(message.accountId.toString()).toBe(testUserAccountId.toString())
+    expect(signTransaction.body).toBeInstanceOf(Uint8Array)
+    expect(signAndExecute.body.map(transactionToBase64String)).toEqual([
+      transactionToBase64String(transaction),
+      transactionToBase64String(transaction),
+    ])
+  })
+
+  it('should accept params without a version', () => {
+    const { version, ...params } = buildSignMessageParams(testUserAccountId, 'Hello')
+
+    expect(version).toBe(HEDERA_PARAMS_VERSION)
+    expect(parseSignMessageParams(params).accountId.toString()).toBe(
+      testUserAccountId.toString(),
+    )
+  })
+
+  it('should reject unsupported versions', () => {
+    const params = { ...buildSignMessageParams(testUserAccountId, 'Hello'), version: 2 }
+
+    expect(() => parseSignMessageParams(params)).toThrow(
+      expect.objectContaining({
+        code: -1,
+        message: 'INVALID_PARAMS Unsupported params version 2, supported versions are 1',
+      }),
+    )
+  })
+})
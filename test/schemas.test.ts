@@ -0,0 +1,153 @@
+import { TopicCreateTransaction } from '@hashgraph/sdk'
+import {
+  HederaChainId,
+  HederaJsonRpcMethod,
+  accountIdStringSchema,
+  base64StringSchema,
+  messageToBase64String,
+  transactionBodyToBase64String,
+  transactionToBase64String,
+  validateHederaJsonRpcParams,
+  validateHederaJsonRpcResult,
+} from '../src'
+import { prepareTestTransaction, testUserAccountId, useJsonFixture } from './_helpers'
+
+describe('schemas', () => {
+  const transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
+  const signerAccountId = `${HederaChainId.Testnet}:${testUserAccountId}`
+  const { result: signatureMapResult } = useJsonFixture(
+    'methods/signTransactionBodySuccess',
+  ).response
+
+  describe('primitives', () => {
+    it('should accept well-formed base64 strings only', () => {
+      expect(base64StringSchema('SGVsbG8gV29ybGQh', 'value')).toBeUndefined()
+      expect(base64StringSchema('SGVsbG8=', 'value')).toBeUndefined()
+      expect(base64StringSchema('SGVsbG8', 'value')).toBe(
+        'Invalid value for value, expected base64 string but got "SGVsbG8"',
+      )
+      expect(base64StringSchema('', 'value')).toBe(
+        'Invalid value for value, expected base64 string but got ""',
+      )
+      expect(base64StringSchema(['SGVsbG8='], 'value')).toBe(
+        'Invalid value for value, expected base64 string but got array',
+      )
+    })
+
+    it('should accept account IDs in plain, HIP-30 and CAIP-10 form', () => {
+      ;['0.0.12345', 'testnet:0.0.12345', 'hedera:testnet:0.0.12345', '0.0.123-vfmkw'].forEach(
+        (accountId) => expect(accountIdStringSchema(accountId, 'value')).toBeUndefined(),
+      )
+      ;['0.0', '12345', 'unknown:0.0.12345', '0.0.12345 '].forEach((accountId) =>
+        expect(accountIdStringSchema(accountId, 'value')).toBe(
+          `Invalid value for value, expected account ID but got ${JSON.stringify(accountId)}`,
+        ),
+      )
+    })
+  })
+
+  describe(validateHederaJsonRpcParams, () => {
+    it('should accept valid params of every method', () => {
+      const requests: [HederaJsonRpcMethod, any][] = [
+        [HederaJsonRpcMethod.GetNodeAddresses, undefined],
+        [
+          HederaJsonRpcMethod.ExecuteTransaction,
+          { signedTransaction: [transactionToBase64String(transaction)] },
+        ],
+        [
+          HederaJsonRpcMethod.SignMessage,
+          { signerAccountId, message: messageToBase64String('Hello Hedera') },
+        ],
+        [HederaJsonRpcMethod.SignQueryAndSend, { signerAccountId, query: 'SGVsbG8=' }],
+        [
+          HederaJsonRpcMethod.SignAndExecuteTransaction,
+          { signerAccountId, transaction: [transactionToBase64String(transaction)] },
+        ],
+        [
+          HederaJsonRpcMethod.SignTransaction,
+          { signerAccountId, transactionBody: transactionBodyToBase64String(transaction) },
+        ],
+        [
+          HederaJsonRpcMethod.SignTransaction,
+          { signerAccountId, transaction: [transactionToBase64String(transaction)] },
+        ],
+      ]
+
+      requests.forEach(([method, params]) =>
+        expect(validateHederaJsonRpcParams(method, params)).toBeUndefined(),
+      )
+    })
+
+    it('should describe the first invalid param', () => {
+      expect(validateHederaJsonRpcParams(HederaJsonRpcMethod.SignMessage, undefined)).toBe(
+        'Invalid value for params, expected object but got undefined',
+      )
+      expect(
+        validateHederaJsonRpcParams(HederaJsonRpcMethod.SignQueryAndSend, {
+          signerAccountId,
+        }),
+      ).toBe('Invalid value for params.query, expected base64 string but got undefined')
+      expect(
+        validateHederaJsonRpcParams(HederaJsonRpcMethod.SignTransaction, {
+          signerAccountId,
+          transactionBody: `${'A'.repeat(40)}!`,
+        }),
+      ).toBe(
+        'Invalid value for params.transactionBody, expected base64 string but got ' +
+          `"${'A'.repeat(32)}..."`,
+      )
+    })
+  })
+
+  describe(validateHederaJsonRpcResult, () => {
+    it('should accept the results of every method', () => {
+      const results: [HederaJsonRpcMethod, string][] = [
+        [HederaJsonRpcMethod.GetNodeAddresses, 'getNodeAddressesSuccess'],
+        [HederaJsonRpcMethod.ExecuteTransaction, 'executeTransactionSuccess'],
+        [HederaJsonRpcMethod.SignQueryAndSend, 'signQueryAndSendSuccess'],
+        [HederaJsonRpcMethod.SignAndExecuteTransaction, 'signAndExecuteTransactionSuccess'],
+        [HederaJsonRpcMethod.SignTransaction, 'signTransactionBodySuccess'],
+        [HederaJsonRpcMethod.SignTransaction, 'signTransactionSuccess'],
+      ]
+
+      results.forEach(([method, fixture]) =>
+        expect(
+          validateHederaJsonRpcResult(
+            method,
+            useJsonFixture(`methods/${fixture}`).response.result,
+          ),
+        ).toBeUndefined(),
+      )
+      expect(
+        validateHederaJsonRpcResult(HederaJsonRpcMethod.SignMessage, signatureMapResult),
+      ).toBeUndefined()
+    })
+
+    it('should describe the first invalid value', () => {
+      const [response] = useJsonFixture('methods/executeTransactionSuccess').response.result
+
+      expect(
+        validateHederaJsonRpcResult(HederaJsonRpcMethod.ExecuteTransaction, [
+          response,
+          { ...response, precheckCode: '0' },
+        ]),
+      ).toBe('Invalid value for result[1].precheckCode, expected integer but got "0"')
+      expect(
+        validateHederaJsonRpcResult(HederaJsonRpcMethod.SignAndExecuteTransaction, [
+          { ...response, transactionId: '0.0.12345' },
+        ]),
+      ).toBe(
+        'Invalid value for result[0].transactionId, expected transaction ID but got "0.0.12345"',
+      )
+      expect(
+        validateHederaJsonRpcResult(HederaJsonRpcMethod.GetNodeAddresses, { nodes: [] }),
+      ).toBe('Invalid value for result.nodes, expected non-empty array but got empty array')
+      expect(validateHederaJsonRpcResult(HederaJsonRpcMethod.SignTransaction, [])).toBe(
+        'Invalid value for result, expected non-empty array but got empty array',
+      )
+      expect(validateHederaJsonRpcResult(HederaJsonRpcMethod.SignMessage, null)).toBe(
+        'Invalid value for result, expected object but got null',
+      )
+    })
+  })
+})
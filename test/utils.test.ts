@@ -3,19 +3,27 @@ import {
   AccountInfoQuery,
   LedgerId,
   Query,
+  Status,
+  TokenId,
   TopicCreateTransaction,
+  TransactionReceipt,
 } from '@hashgraph/sdk'
+import { proto } from '@hashgraph/proto'
 import {
   transactionToBase64String,
   freezeTransaction,
   setDefaultNodeAccountIds,
   base64StringToTransaction,
+  transactionBodyToBase64String,
+  base64StringToTransactionBody,
   base64StringToUint8Array,
   Uint8ArrayToBase64String,
   base64StringToQuery,
   queryToBase64String,
   messageToBase64String,
   base64StringToMessage,
+  transactionReceiptToJSON,
+  transactionReceiptFromJSON,
   EIPChainIdToLedgerId,
   ledgerIdToEIPChainId,
   CAIPChainIdToLedgerId,
@@ -52,22 +60,36 @@ describe(freezeTransaction.name, () => {
 })
 
 describe(setDefaultNodeAccountIds.name, () => {
-  it('should set default node account ids if none are set', () => {
+  it('should set the given node account ids if none are set', () => {
     const txn = new TopicCreateTransaction()
 
     expect(txn.nodeAccountIds).toBeNull()
 
-    setDefaultNodeAccountIds(txn)
+    setDefaultNodeAccountIds(txn, ['0.0.5', new AccountId(6)])
     const result = txn.nodeAccountIds?.map((id) => id.toString())
 
-    expect(result).toEqual(['0.0.3'])
+    expect(result).toEqual(['0.0.5', '0.0.6'])
+  })
+
+  it('should set node 0.0.3 when called without node account ids', () => {
+    const txn = new TopicCreateTransaction()
+
+    setDefaultNodeAccountIds(txn)
+
+    expect(txn.nodeAccountIds?.map((id) => id.toString())).toEqual(['0.0.3'])
+  })
+
+  it('should throw an error if no node account ids are set or given', () => {
+    expect(() => setDefaultNodeAccountIds(new TopicCreateTransaction(), [])).toThrow(
+      'Transaction has no node account IDs',
+    )
   })
 
   it('should do nothing if node account ids are already set', () => {
     const txn = new TopicCreateTransaction()
     txn.setNodeAccountIds([new AccountId(4)])
 
-    setDefaultNodeAccountIds(txn)
+    setDefaultNodeAccountIds(txn, ['0.0.5'])
     const result = txn.nodeAccountIds?.map((id) => id.toString())
 
     expect(result).toEqual(['0.0.4'])
@@ -82,6 +104,45 @@ describe(transactionToBase64String.name, () => {
 
     expect(result).toBe(expected)
   })
+
+  it('should throw an error for a transaction without node account ids', () => {
+    const txn = prepareTestTransaction(new TopicCreateTransaction(), {
+      setNodeAccountIds: false,
+    })
+
+    expect(() => transactionToBase64String(txn)).toThrow('Transaction has no node account IDs')
+    expect(() => transactionBodyToBase64String(txn)).toThrow(
+      'Transaction has no node account IDs',
+    )
+  })
+})
+
+describe(transactionBodyToBase64String.name, () => {
+  it('should convert the transaction body to a base64 encoded string', () => {
+    const txn = prepareTestTransaction(new TopicCreateTransaction())
+    txn.setTransactionMemo('I should be signed')
+
+    const result = base64StringToTransactionBody(transactionBodyToBase64String(txn))
+
+    expect(txn.isFrozen()).toBe(true)
+    expect(result.memo).toBe('I should be signed')
+    expect(result.consensusCreateTopic).toBeDefined()
+    expect(AccountId._fromProtobuf(result.nodeAccountID!).toString()).toBe('0.0.3')
+    expect(AccountId._fromProtobuf(result.transactionID!.accountID!).toString()).toBe(
+      testUserAccountId.toString(),
+    )
+  })
+
+  it('should throw an error for a transaction with multiple node account ids', () => {
+    const txn = prepareTestTransaction(new TopicCreateTransaction(), {
+      setNodeAccountIds: false,
+    })
+    txn.setNodeAccountIds([new AccountId(3), new AccountId(4)])
+
+    expect(() => transactionBodyToBase64String(txn)).toThrow(
+      'Transaction body can only be created for a transaction with a single node account ID',
+    )
+  })
 })
 
 describe(base64StringToTransaction.name, () => {
@@ -209,6 +270,66 @@ describe(`Message helpers`, () => {
   })
 })
 
+describe(`Receipt helpers`, () => {
+  const receipt = TransactionReceipt.fromBytes(
+    proto.TransactionGetReceiptResponse.encode({
+      receipt: {
+        status: Status.Success._code,
+        tokenID: TokenId.fromString('0.0.777')._toProtobuf(),
+        serialNumbers: [1, 2],
+        exchangeRate: {
+          currentRate: {
+            hbarEquiv: 30_000,
+            centEquiv: 150_000,
+            expirationTime: { seconds: 1_700_000_000 },
+          },
+        },
+      },
+    }).finish(),
+  )
+
+  describe(transactionReceiptToJSON.name, () => {
+    it('should convert the status, entity IDs, serials and exchange rate to JSON', () => {
+      expect(transactionReceiptToJSON(receipt)).toEqual({
+        status: Status.Success._code,
+        accountId: null,
+        tokenId: '0.0.777',
+        topicId: null,
+        contractId: null,
+        fileId: null,
+        serials: ['1', '2'],
+        exchangeRate: { hbars: 30_000, cents: 150_000, expirationTime: 1_700_000_000 },
+      })
+    })
+  })
+
+  describe(transactionReceiptFromJSON.name, () => {
+    it('should decode JSON to TransactionReceipt', () => {
+      const decoded = transactionReceiptFromJSON(transactionReceiptToJSON(receipt))
+
+      expect(decoded).toBeInstanceOf(TransactionReceipt)
+      expect(decoded.status).toBe(Status.Success)
+      expect(decoded.tokenId?.toString()).toBe('0.0.777')
+      expect(decoded.accountId).toBeNull()
+      expect(decoded.serials.map((serial) => serial.toNumber())).toEqual([1, 2])
+      expect(decoded.exchangeRate?.exchangeRateInCents).toBe(5)
+      expect(decoded.exchangeRate?.expirationTime.getTime()).toBe(1_700_000_000_000)
+    })
+
+    it('should keep the precision of serials above 2^53', () => {
+      const decoded = transactionReceiptFromJSON({
+        ...transactionReceiptToJSON(receipt),
+        serials: ['9007199254740993', '9223372036854775807'],
+      })
+
+      expect(decoded.serials.map((serial) => serial.toString())).toEqual([
+        '9007199254740993',
+        '9223372036854775807',
+      ])
+    })
+  })
+})
+
 describe(EIPChainIdToLedgerId.name, () => {
   it('should convert a EIP chain id to a LedgerId object', async () => {
     const mainnetLedgerId = EIPChainIdToLedgerId(295)
@@ -0,0 +1,193 @@
+import {
+  AccountBalanceQuery,
+  AccountId,
+  ContractExecuteTransaction,
+  ContractFunctionParameters,
+  Hbar,
+  NftId,
+  ScheduleCreateTransaction,
+  TokenId,
+  TransferTransaction,
+} from '@hashgraph/sdk'
+import {
+  decodeSessionRequestBody,
+  sessionRequestSummaryToText,
+  transactionBodyToBase64String,
+  base64StringToUint8Array,
+  base64StringToMessage,
+  messageToBase64String,
+} from '../../src'
+import { prepareTestTransaction, testUserAccountId } from '../_helpers'
+
+describe(decodeSessionRequestBody.name, () => {
+  const recipientId = AccountId.fromString('0.0.54321')
+  const tokenId = TokenId.fromString('0.0.777')
+  const nftTokenId = TokenId.fromString('0.0.888')
+
+  const transfer = () =>
+    new TransferTransaction()
+      .addHbarTransfer(testUserAccountId, new Hbar(-1))
+      .addHbarTransfer(recipientId, new Hbar(1))
+      .addTokenTransferWithDecimals(tokenId, testUserAccountId, -250, 2)
+      .addTokenTransferWithDecimals(tokenId, recipientId, 250, 2)
+      .addNftTransfer(new NftId(nftTokenId, 7), testUserAccountId, recipientId)
+
+  it('should decode the transfers, fee and memo of a transaction', () => {
+    const transaction = prepareTestTransaction(
+      transfer().setTransactionMemo('Coffee').setMaxTransactionFee(new Hbar(2)),
+      { freeze: true },
+    )
+
+    const summaries = decodeSessionRequestBody([transaction])
+
+    expect(summaries).toEqual([
+      {
+        kind: 'transaction',
+        type: 'cryptoTransfer',
+        transactionId: '0.0.12345@1691705630.325343432',
+        payer: '0.0.12345',
+        nodeAccountId: '0.0.3',
+        maxFee: '200000000',
+        memo: 'Coffee',
+        hbarTransfers: [
+          { accountId: '0.0.12345', amount: '-100000000', isApproved: false },
+          { accountId: '0.0.54321', amount: '100000000', isApproved: false },
+        ],
+        tokenTransfers: [
+          {
+            tokenId: '0.0.777',
+            accountId: '0.0.12345',
+            amount: '-250',
+            decimals: 2,
+            isApproved: false,
+          },
+          {
+            tokenId: '0.0.777',
+            accountId: '0.0.54321',
+            amount: '250',
+            decimals: 2,
+            isApproved: false,
+          },
+        ],
+        nftTransfers: [
+          {
+            tokenId: '0.0.888',
+            serial: '7',
+            sender: '0.0.12345',
+            receiver: '0.0.54321',
+            isApproved: false,
+          },
+        ],
+        contractCall: null,
+        scheduled: null,
+      },
+    ])
+    expect(JSON.parse(JSON.stringify(summaries))).toEqual(summaries)
+    expect(sessionRequestSummaryToText(summaries)).toBe(
+      [
+        'cryptoTransfer 0.0.12345@1691705630.325343432',
+        'Payer: 0.0.12345',
+        'Node: 0.0.3',
+        'Max fee: 2 ℏ',
+        'Memo: Coffee',
+        'HBAR transfers:',
+        '  0.0.12345 -1 ℏ',
+        '  0.0.54321 1 ℏ',
+        'Token transfers:',
+        '  0.0.777 0.0.12345 -250 (2 decimals)',
+        '  0.0.777 0.0.54321 250 (2 decimals)',
+        'NFT transfers:',
+        '  0.0.888 #7 0.0.12345 -> 0.0.54321',
+      ].join('\n'),
+    )
+  })
+
+  it('should decode the target and function selector of a contract call', () => {
+    const transaction = prepareTestTransaction(
+      new ContractExecuteTransaction()
+        .setContractId('0.0.1001')
+        .setGas(100_000)
+        .setPayableAmount(new Hbar(3))
+        .setFunction(
+          'transfer',
+          new ContractFunctionParameters()
+            .addAddress(recipientId.toSolidityAddress())
+            .addUint256(10),
+        ),
+    )
+
+    const [summary] = decodeSessionRequestBody(
+      base64StringToUint8Array(transactionBodyToBase64String(transaction)),
+    )
+
+    expect(summary).toMatchObject({
+      type: 'contractCall',
+      contractCall: {
+        contractId: '0.0.1001',
+        functionSelector: '0xa9059cbb',
+        gas: '100000',
+        amount: '300000000',
+      },
+    })
+    expect(sessionRequestSummaryToText([summary])).toContain(
+      'Contract call: 0.0.1001 function 0xa9059cbb, gas 100000, 3 ℏ',
+    )
+  })
+
+  it('should decode the inner transaction of a schedule create transaction', () => {
+    const transaction = prepareTestTransaction(
+      new ScheduleCreateTransaction()
+        .setScheduledTransaction(transfer())
+        .setPayerAccountId(recipientId),
+      { freeze: true },
+    )
+
+    const [summary] = decodeSessionRequestBody([transaction])
+
+    expect(summary).toMatchObject({
+      type: 'scheduleCreate',
+      payer: '0.0.12345',
+      scheduled: {
+        type: 'cryptoTransfer',
+        transactionId: null,
+        payer: '0.0.54321',
+        nodeAccountId: null,
+        hbarTransfers: [
+          { accountId: '0.0.12345', amount: '-100000000' },
+          { accountId: '0.0.54321', amount: '100000000' },
+        ],
+      },
+    })
+    expect(sessionRequestSummaryToText([summary])).toContain(
+      ['Scheduled transaction:', '  cryptoTransfer', '  Payer: 0.0.54321'].join('\n'),
+    )
+  })
+
+  it('should decode queries and messages', () => {
+    const query = new AccountBalanceQuery().setAccountId(testUserAccountId)
+    const messages = [
+      Buffer.from('Hello'),
+      ...base64StringToMessage(messageToBase64String('Hedera')),
+    ]
+
+    expect(decodeSessionRequestBody(query)).toEqual([
+      { kind: 'query', type: 'cryptogetAccountBalance' },
+    ])
+    expect(sessionRequestSummaryToText(decodeSessionRequestBody(messages))).toBe(
+      'Message: Hello\n\nMessage: Hedera',
+    )
+    expect(decodeSessionRequestBody(undefined)).toEqual([])
+  })
+
+  it('should keep leading digits of messages', () => {
+    const messages = ['1000 HBAR to 0.0.9', '5', '1234567890'].flatMap((message) =>
+      base64StringToMessage(messageToBase64String(message)),
+    )
+
+    expect(decodeSessionRequestBody(messages)).toEqual([
+      { kind: 'message', message: '1000 HBAR to 0.0.9' },
+      { kind: 'message', message: '5' },
+      { kind: 'message', message: '1234567890' },
+    ])
+  })
+})
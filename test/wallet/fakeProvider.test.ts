@@ -0,0 +1,199 @@
+import {
+  AccountBalanceQuery,
+  AccountCreateTransaction,
+  AccountId,
+  Hbar,
+  KeyList,
+  PrecheckStatusError,
+  PrivateKey,
+  ReceiptStatusError,
+  Status,
+  TopicCreateTransaction,
+  TransactionId,
+  TransferTransaction,
+} from '@hashgraph/sdk'
+import { FakeProvider } from '../_fakeProvider'
+import {
+  prepareTestTransaction,
+  testPrivateKeyECDSA,
+  testTransactionId,
+  testUserAccountId,
+} from '../_helpers'
+
+describe(FakeProvider.name, () => {
+  const privateKey = PrivateKey.fromStringDer(testPrivateKeyECDSA)
+  const recipientId = AccountId.fromString('0.0.54321')
+  let provider: FakeProvider
+
+  const transfer = (amount: number, transactionId: TransactionId = testTransactionId) =>
+    prepareTestTransaction(
+      new TransferTransaction()
+        .addHbarTransfer(testUserAccountId, new Hbar(-amount))
+        .addHbarTransfer(recipientId, new Hbar(amount))
+        .setTransactionId(transactionId),
+      { setTransactionId: false, freeze: true },
+    )
+
+  const tinybars = async (accountId: AccountId) =>
+    (await provider.getAccountBalance(accountId)).hbars.toTinybars().toNumber()
+
+  beforeEach(() => {
+    provider = new FakeProvider({
+      accounts: [
+        { accountId: testUserAccountId, balance: 10, key: privateKey.publicKey },
+        { accountId: recipientId },
+        { accountId: '0.0.3' },
+      ],
+    })
+  })
+
+  it('should apply a hbar transfer and charge the transaction fee', async () => {
+    const transaction = await transfer(2).sign(privateKey)
+
+    const response = await provider.call(transaction)
+    const receipt = await provider.waitForReceipt(response)
+
+    expect(response.nodeId.toString()).toBe('0.0.3')
+    expect(response.transactionId.toString()).toBe(testTransactionId.toString())
+    expect(response.transactionHash).toEqual(await transaction.getTransactionHash())
+    expect(receipt.status).toBe(Status.Success)
+    expect(await tinybars(testUserAccountId)).toBe(800_000_000 - 100_000)
+    expect(await tinybars(recipientId)).toBe(200_000_000)
+    expect(await tinybars(AccountId.fromString('0.0.3'))).toBe(100_000)
+  })
+
+  it('should keep the records of the accounts of a transaction', async () => {
+    await provider.call(await transfer(2).sign(privateKey))
+
+    const [record] = await provider.getAccountRecords(recipientId)
+
+    expect(record.transactionId.toString()).toBe(testTransactionId.toString())
+    expect(record.consensusTimestamp.toString()).toBe('1691705630.325343433')
+    expect(record.transactionFee.toTinybars().toNumber()).toBe(100_000)
+    expect(
+      record.transfers.map(({ accountId, amount }) => [
+        accountId.toString(),
+        amount.toTinybars().toNumber(),
+      ]),
+    ).toEqual([
+      [testUserAccountId.toString(), -200_100_000],
+      [recipientId.toString(), 200_000_000],
+      ['0.0.3', 100_000],
+    ])
+    expect(await provider.getAccountRecords(testUserAccountId)).toEqual([record])
+  })
+
+  it.each([
+    ['an unsigned transaction', () => transfer(2), Status.InvalidSignature],
+    [
+      'an unknown payer',
+      () => transfer(2, TransactionId.fromString('0.0.999@1691705630.325343432')),
+      Status.PayerAccountNotFound,
+    ],
+    [
+      'an unknown node',
+      () =>
+        prepareTestTransaction(new TopicCreateTransaction(), { setNodeAccountIds: false })
+          .setNodeAccountIds([new AccountId(4)])
+          .freeze()
+          .sign(privateKey),
+      Status.InvalidNodeAccount,
+    ],
+    [
+      'unbalanced transfers',
+      () =>
+        prepareTestTransaction(
+          new TransferTransaction().addHbarTransfer(testUserAccountId, new Hbar(-1)),
+          { freeze: true },
+        ).sign(privateKey),
+      Status.InvalidAccountAmounts,
+    ],
+  ])('should fail the precheck of %s', async (_, createTransaction, status) => {
+    const transaction = await createTransaction()
+
+    await expect(provider.call(transaction)).rejects.toThrow(PrecheckStatusError)
+    await expect(provider.call(transaction)).rejects.toMatchObject({ status })
+    expect(await tinybars(testUserAccountId)).toBe(1_000_000_000)
+  })
+
+  it('should fail the precheck of a duplicate or unaffordable transaction', async () => {
+    const transaction = await transfer(2).sign(privateKey)
+    await provider.call(transaction)
+    provider.setAccount({ accountId: testUserAccountId, balance: 0, key: privateKey.publicKey })
+
+    await expect(provider.call(transaction)).rejects.toMatchObject({
+      status: Status.DuplicateTransaction,
+    })
+    await expect(
+      provider.call(
+        await transfer(2, TransactionId.fromString('0.0.12345@1691705631.0')).sign(privateKey),
+      ),
+    ).rejects.toMatchObject({ status: Status.InsufficientPayerBalance })
+  })
+
+  it('should check the threshold of a key list', async () => {
+    const keys = [privateKey, PrivateKey.generateED25519(), PrivateKey.generateED25519()]
+    provider.setAccount({
+      accountId: testUserAccountId,
+      balance: 10,
+      key: new KeyList(
+        keys.map((key) => key.publicKey),
+        2,
+      ),
+    })
+
+    await expect(provider.call(await transfer(2).sign(keys[0]))).rejects.toMatchObject({
+      status: Status.InvalidSignature,
+    })
+    const response = await provider.call(await (await transfer(2).sign(keys[0])).sign(keys[2]))
+
+    expect((await provider.waitForReceipt(response)).status).toBe(Status.Success)
+  })
+
+  it('should return a failed receipt when the transfer exceeds the balance', async () => {
+    const response = await provider.call(await transfer(20).sign(privateKey))
+
+    await expect(provider.waitForReceipt(response)).rejects.toThrow(ReceiptStatusError)
+    await expect(provider.getTransactionReceipt(testTransactionId)).rejects.toMatchObject({
+      status: Status.InsufficientAccountBalance,
+    })
+    expect(await tinybars(testUserAccountId)).toBe(1_000_000_000 - 100_000)
+    expect(await tinybars(recipientId)).toBe(0)
+  })
+
+  it('should create accounts and topics with sequential entity IDs', async () => {
+    const newKey = PrivateKey.generateED25519().publicKey
+    const accountCreate = prepareTestTransaction(
+      new AccountCreateTransaction().setKey(newKey).setInitialBalance(new Hbar(1)),
+      { freeze: true },
+    )
+    const topicCreate = prepareTestTransaction(new TopicCreateTransaction(), {
+      operatorAccountId: 12346,
+      freeze: true,
+    })
+    provider.setAccount({ accountId: '0.0.12346', balance: 1 })
+
+    const accountReceipt = await provider.waitForReceipt(
+      await provider.call(await accountCreate.sign(privateKey)),
+    )
+    const topicReceipt = await provider.waitForReceipt(await provider.call(topicCreate))
+    const info = await provider.getAccountInfo(accountReceipt.accountId!)
+
+    expect(accountReceipt.accountId!.toString()).toBe('0.0.54322')
+    expect(topicReceipt.topicId!.toString()).toBe('0.0.54323')
+    expect(info.key.toString()).toBe(newKey.toString())
+    expect(info.balance.toTinybars().toNumber()).toBe(100_000_000)
+  })
+
+  it('should answer balance queries and reject unknown accounts', async () => {
+    const balance = await provider.call(new AccountBalanceQuery().setAccountId(recipientId))
+
+    expect(balance.hbars.toTinybars().toNumber()).toBe(0)
+    await expect(provider.getAccountBalance('0.0.999')).rejects.toThrow(
+      'Account 0.0.999 does not exist',
+    )
+    await expect(provider.getAccountInfo(recipientId)).rejects.toThrow(
+      'Account 0.0.54321 has no key',
+    )
+  })
+})
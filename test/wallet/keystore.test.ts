@@ -0,0 +1,239 @@
+import { AccountId, PrivateKey } from '@hashgraph/sdk'
+import { Core } from '@walletconnect/core'
+import { Web3WalletTypes } from '@walletconnect/web3wallet'
+import {
+  HederaChainId,
+  HederaJsonRpcMethod,
+  Keystore,
+  MemoryKeystoreStorage,
+  ParsedHederaSessionRequest,
+  Wallet,
+  messageToBase64String,
+} from '../../src'
+import {
+  projectId,
+  requestId,
+  requestTopic,
+  testPrivateKeyECDSA,
+  testPrivateKeyED25519,
+  testUserAccountId,
+  walletMetadata,
+} from '../_helpers'
+
+describe(Keystore.name, () => {
+  const passphrase = 'correct horse battery staple'
+  const otherAccountId = AccountId.fromString('0.0.54321')
+  let storage: MemoryKeystoreStorage
+  let keystore: Keystore
+
+  beforeEach(() => {
+    storage = new MemoryKeystoreStorage()
+    // few iterations to keep the tests fast
+    keystore = new Keystore(storage, { iterations: 1000 })
+  })
+
+  it('should create the keystore and hold keys until locked', async () => {
+    expect(keystore.isLocked()).toBe(true)
+    await expect(keystore.addAccount(testUserAccountId, testPrivateKeyED25519)).rejects.toThrow(
+      'Keystore is locked',
+    )
+
+    await keystore.create(passphrase)
+    await keystore.addAccount(testUserAccountId, testPrivateKeyED25519)
+
+    expect(keystore.isLocked()).toBe(false)
+    expect(keystore.hasAccount('0.0.12345')).toBe(true)
+    expect(keystore.hasAccount('0.0.012345')).toBe(true)
+    expect(keystore.getPrivateKey(testUserAccountId).toStringDer()).toBe(testPrivateKeyED25519)
+    expect(() => keystore.getPrivateKey(otherAccountId)).toThrow(
+      'Account 0.0.54321 is not in the keystore',
+    )
+
+    keystore.lock()
+
+    expect(keystore.hasAccount(testUserAccountId)).toBe(false)
+    expect(() => keystore.getPrivateKey(testUserAccountId)).toThrow('Keystore is locked')
+  })
+
+  it('should only unlock an existing keystore and never overwrite it', async () => {
+    await expect(keystore.unlock(passphrase)).rejects.toThrow(
+      'Keystore does not exist, create it with `create`',
+    )
+    expect(await keystore.exists()).toBe(false)
+    expect(await storage.getItem('hedera-keystore')).toBeUndefined()
+
+    await keystore.create(passphrase)
+    await keystore.addAccount(testUserAccountId, testPrivateKeyED25519)
+
+    expect(await keystore.exists()).toBe(true)
+    await expect(new Keystore(storage).create('other passphrase')).rejects.toThrow(
+      'Keystore already exists',
+    )
+    expect(await keystore.getAccounts()).toHaveLength(1)
+  })
+
+  it('should decrypt the keys with the passphrase only', async () => {
+    await keystore.create(passphrase)
+    await keystore.addAccount(testUserAccountId, testPrivateKeyED25519)
+    await keystore.addAccount(otherAccountId, PrivateKey.fromStringDer(testPrivateKeyECDSA))
+
+    const reopened = new Keystore(storage)
+    await expect(reopened.unlock('wrong passphrase')).rejects.toThrow(
+      'Invalid keystore passphrase',
+    )
+    expect(reopened.isLocked()).toBe(true)
+
+    await reopened.unlock(passphrase)
+    expect(reopened.getPrivateKey(otherAccountId).toStringDer()).toBe(testPrivateKeyECDSA)
+
+    await reopened.removeAccount(otherAccountId)
+    expect(reopened.hasAccount(otherAccountId)).toBe(false)
+    expect((await keystore.getAccounts()).map(({ accountId }) => accountId.toString())).toEqual(
+      ['0.0.12345'],
+    )
+  })
+
+  it('should list the accounts without storing the private keys in plaintext', async () => {
+    await keystore.create(passphrase)
+    await keystore.addAccount(testUserAccountId, testPrivateKeyED25519)
+    await keystore.addAccount(otherAccountId, testPrivateKeyECDSA)
+    keystore.lock()
+
+    const accounts = await keystore.getAccounts()
+    const stored = JSON.stringify(await storage.getItem('hedera-keystore'))
+
+    expect(
+      accounts.map(({ accountId, keyType, publicKey }) => [
+        accountId.toString(),
+        keyType,
+        publicKey.toStringDer(),
+      ]),
+    ).toEqual([
+      [
+        '0.0.12345',
+        'ED25519',
+        PrivateKey.fromStringDer(testPrivateKeyED25519).publicKey.toStringDer(),
+      ],
+      [
+        '0.0.54321',
+        'ECDSA',
+        PrivateKey.fromStringDer(testPrivateKeyECDSA).publicKey.toStringDer(),
+      ],
+    ])
+    expect(stored).not.toContain(testPrivateKeyED25519)
+    expect(stored).not.toContain(testPrivateKeyECDSA)
+    expect(stored).not.toContain(Buffer.from(testPrivateKeyED25519, 'hex').toString('base64'))
+  })
+
+  describe('Wallet', () => {
+    let wallet: Wallet
+
+    const sessionRequest = (params: any) =>
+      ({
+        id: requestId,
+        topic: requestTopic,
+        params: {
+          request: { method: HederaJsonRpcMethod.SignMessage, params },
+          chainId: HederaChainId.Testnet,
+        },
+      }) as Web3WalletTypes.SessionRequest
+
+    beforeEach(async () => {
+      wallet = new Wallet({ core: new Core({ projectId }), metadata: walletMetadata })
+      jest.spyOn(wallet, 'getActiveSessions').mockReturnValue({
+        [requestTopic]: {
+          namespaces: {
+            hedera: {
+              accounts: [
+                `${HederaChainId.Testnet}:0.0.12345`,
+                `${HederaChainId.Testnet}:0.0.54321`,
+              ],
+            },
+          },
+        },
+      } as any)
+      wallet.keystore = keystore
+      await keystore.create(passphrase)
+      await keystore.addAccount(testUserAccountId, testPrivateKeyED25519)
+    })
+
+    it('should resolve the signer of a session request from the keystore', async () => {
+      const handler = jest.spyOn(wallet, 'hedera_signMessage').mockResolvedValue()
+
+      await wallet.executeSessionRequest(
+        sessionRequest({
+          signerAccountId: `${HederaChainId.Testnet}:${testUserAccountId}`,
+          message: messageToBase64String('Hello Hedera'),
+        }),
+      )
+
+      const signer = handler.mock.calls[0][3]
+      expect(signer.getAccountId().toString()).toBe('0.0.12345')
+      expect(signer.getAccountKey().toString()).toBe(
+        PrivateKey.fromStringDer(testPrivateKeyED25519).publicKey.toString(),
+      )
+    })
+
+    it('should resolve the first session account held by the keystore', () => {
+      jest.spyOn(wallet, 'getActiveSessions').mockReturnValue({
+        [requestTopic]: {
+          namespaces: {
+            hedera: {
+              accounts: [
+                `${HederaChainId.Mainnet}:0.0.12345`,
+                `${HederaChainId.Testnet}:0.0.54321`,
+                `${HederaChainId.Testnet}:0.0.12345`,
+              ],
+            },
+          },
+        },
+      } as any)
+      const request: ParsedHederaSessionRequest = {
+        method: HederaJsonRpcMethod.GetNodeAddresses,
+        chainId: HederaChainId.Testnet,
+        id: requestId,
+        topic: requestTopic,
+        params: undefined,
+        body: undefined,
+        accountId: undefined,
+      }
+
+      expect(wallet.resolveHederaWallet(request).getAccountId().toString()).toBe('0.0.12345')
+    })
+
+    it('should reject requests of accounts which the unlocked keystore does not hold', async () => {
+      const event = sessionRequest({
+        signerAccountId: `${HederaChainId.Testnet}:0.0.54321`,
+        message: messageToBase64String('Hello Hedera'),
+      })
+
+      await expect(wallet.executeSessionRequest(event)).rejects.toMatchObject({
+        code: -4,
+        message: 'UNAUTHORIZED_ACCOUNT Account 0.0.54321 is not in the keystore',
+      })
+      keystore.lock()
+      await expect(wallet.executeSessionRequest(event)).rejects.toMatchObject({
+        code: -4,
+        message: 'UNAUTHORIZED_ACCOUNT Keystore is locked',
+      })
+    })
+
+    it('should reject keystore accounts which the session was not approved for', async () => {
+      const handler = jest.spyOn(wallet, 'hedera_signMessage').mockResolvedValue()
+      await keystore.addAccount('0.0.99999', testPrivateKeyECDSA)
+
+      await expect(
+        wallet.executeSessionRequest(
+          sessionRequest({
+            signerAccountId: `${HederaChainId.Testnet}:0.0.99999`,
+            message: messageToBase64String('Hello Hedera'),
+          }),
+        ),
+      ).rejects.toMatchObject({
+        code: -4,
+        message: `UNAUTHORIZED_ACCOUNT Account 0.0.99999 is not approved for session ${requestTopic}`,
+      })
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -1,11 +1,30 @@
-import { TopicCreateTransaction } from '@hashgraph/sdk'
-import { HederaChainId, SignAndExecuteTransactionResponse, Wallet } from '../../../src'
+import {
+  Hbar,
+  PrivateKey,
+  Status,
+  Timestamp,
+  TopicCreateTransaction,
+  Transaction,
+  TransactionId,
+  TransferTransaction,
+} from '@hashgraph/sdk'
+import { Core } from '@walletconnect/core'
+import {
+  HederaChainId,
+  HederaExecutionMode,
+  SignAndExecuteTransactionResponse,
+  TransactionExecutionOptions,
+  Wallet,
+} from '../../../src'
+import { FakeProvider } from '../../_fakeProvider'
 import {
   prepareTestTransaction,
   projectId,
   requestId,
   requestTopic,
+  testNodeAccountId,
   testPrivateKeyECDSA,
+  testTransactionId,
   testUserAccountId,
   useJsonFixture,
   walletMetadata,
@@ -46,5 +65,175 @@ describe(Wallet.name, () => {
 
       expect(respondSessionRequestSpy).toHaveBeenCalledWith(mockResponse)
     }, 15_000)
+
+    describe('with a FakeProvider', () => {
+      const privateKey = PrivateKey.fromStringDer(testPrivateKeyECDSA)
+      let wallet: Wallet
+      let provider: FakeProvider
+
+      const transfer = (amount: number, transactionId = testTransactionId) =>
+        prepareTestTransaction(
+          new TransferTransaction()
+            .addHbarTransfer(testUserAccountId, new Hbar(-amount))
+            .addHbarTransfer(testNodeAccountId, new Hbar(amount))
+            .setTransactionId(transactionId),
+          { freeze: true, setTransactionId: false },
+        )
+
+      const execute = async (
+        transactions: Transaction[],
+        options?: TransactionExecutionOptions,
+      ) => {
+        const hederaWallet = wallet.getHederaWallet(
+          HederaChainId.Testnet,
+          testUserAccountId,
+          testPrivateKeyECDSA,
+          provider,
+        )
+        await wallet.hedera_signAndExecuteTransaction(
+          requestId,
+          requestTopic,
+          transactions,
+          hederaWallet,
+          options,
+        )
+        return (wallet.respondSessionRequest as jest.Mock).mock.calls[0][0].response.result
+      }
+
+      beforeEach(() => {
+        wallet = new Wallet({ core: new Core({ projectId }), metadata: walletMetadata })
+        jest.spyOn(wallet, 'respondSessionRequest').mockResolvedValue()
+        jest.spyOn(console, 'log').mockImplementation(() => {})
+        provider = new FakeProvider({
+          accounts: [
+            { accountId: testUserAccountId, balance: 1, key: privateKey.publicKey },
+            { accountId: testNodeAccountId },
+          ],
+        })
+      })
+
+      it('should execute the signed transaction offline', async () => {
+        const transaction = transfer(0.5)
+        await execute([transaction])
+
+        expect(wallet.respondSessionRequest).toHaveBeenCalledWith({
+          topic: requestTopic,
+          response: {
+            jsonrpc: '2.0',
+            id: requestId,
+            result: [
+              {
+                nodeId: testNodeAccountId.toString(),
+                transactionId: testTransactionId.toString(),
+                transactionHash: expect.any(String),
+                precheckCode: 0,
+                status: 'submitted',
+              },
+            ],
+          },
+        })
+        expect(privateKey.publicKey.verifyTransaction(transaction)).toBe(true)
+        expect((await provider.getTransactionReceipt(testTransactionId)).status).toBe(
+          Status.Success,
+        )
+        expect((await provider.getAccountBalance(testNodeAccountId)).hbars.toString()).toBe(
+          '0.501 ℏ',
+        )
+      })
+
+      it('should return the precheck code of a failed transaction', async () => {
+        provider.setAccount({ accountId: testUserAccountId, key: privateKey.publicKey })
+
+        await execute([transfer(0.5)])
+
+        expect(wallet.respondSessionRequest).toHaveBeenCalledWith(
+          expect.objectContaining({
+            response: expect.objectContaining({
+              result: [
+                expect.objectContaining({
+                  precheckCode: Status.InsufficientPayerBalance._code,
+                  status: 'failed',
+                }),
+              ],
+            }),
+          }),
+        )
+      })
+
+      it('should return the receipts with waitForReceipt', async () => {
+        const topicCreate = prepareTestTransaction(new TopicCreateTransaction(), {
+          freeze: true,
+        })
+
+        const [result] = await execute([topicCreate], { waitForReceipt: true })
+
+        expect(result).toMatchObject({ status: 'success', receiptCode: Status.Success._code })
+        expect(result.receipt).toEqual({
+          status: Status.Success._code,
+          accountId: null,
+          tokenId: null,
+          topicId: expect.stringMatching(/^0\.0\.\d+$/),
+          contractId: null,
+          fileId: null,
+          serials: [],
+          exchangeRate: null,
+        })
+      })
+
+      it('should return the message of errors other than failed prechecks', async () => {
+        jest.spyOn(provider, 'call').mockRejectedValueOnce(new Error('Connection lost'))
+
+        const [result] = await execute([transfer(0.5)])
+
+        expect(result).toMatchObject({ status: 'failed', error: 'Connection lost' })
+        expect(result).not.toHaveProperty('precheckCode')
+      })
+
+      describe('in sequential modes', () => {
+        const transactionIds = [1, 2, 3].map((nanos) =>
+          TransactionId.withValidStart(testUserAccountId, new Timestamp(1691705630, nanos)),
+        )
+        // the second transfer exceeds the balance left by the first one
+        const transfers = () =>
+          [0.5, 0.8, 0.1].map((amount, index) => transfer(amount, transactionIds[index]))
+
+        it('should wait for each receipt and execute the transactions after a failure', async () => {
+          const result = await execute(transfers(), {
+            executionMode: HederaExecutionMode.Sequential,
+          })
+
+          expect(result).toEqual([
+            expect.objectContaining({ status: 'success', receiptCode: Status.Success._code }),
+            expect.objectContaining({
+              status: 'failed',
+              precheckCode: 0,
+              receiptCode: Status.InsufficientAccountBalance._code,
+            }),
+            expect.objectContaining({ status: 'success', receiptCode: Status.Success._code }),
+          ])
+        })
+
+        it('should skip the transactions after the first failure', async () => {
+          const result = await execute(transfers(), {
+            executionMode: HederaExecutionMode.SequentialStopOnFailure,
+          })
+
+          expect(result.map(({ status }: { status: string }) => status)).toEqual([
+            'success',
+            'failed',
+            'skipped',
+          ])
+          expect(result[2]).toEqual({
+            nodeId: testNodeAccountId.toString(),
+            transactionId: transactionIds[2].toString(),
+            transactionHash: expect.any(String),
+            status: 'skipped',
+          })
+          await expect(provider.getTransactionReceipt(transactionIds[2])).rejects.toThrow(
+            'was not found',
+          )
+        })
+      })
+    })
   })
 })
@@ -1,4 +1,13 @@
-import { HederaChainId, SignMessageResponse, Wallet, base64StringToMessage } from '../../../src'
+import { PrivateKey, SignerSignature } from '@hashgraph/sdk'
+import {
+  HederaChainId,
+  SignMessageResponse,
+  Wallet,
+  base64StringToMessage,
+  base64StringToUint8Array,
+  signatureMapToBase64,
+  signerSignaturesToSignatureMap,
+} from '../../../src'
 import {
   testPrivateKeyECDSA,
   testPrivateKeyED25519,
@@ -9,7 +18,7 @@ import {
 
 describe(Wallet.name, () => {
   describe('signMessage', () => {
-    // [private key type, private key, expected value]
+    // [private key type, private key, expected signature]
     const testCases = [
       [
         'ECDSA',
@@ -47,7 +56,15 @@ describe(Wallet.name, () => {
             jsonrpc: '2.0',
             id,
             result: {
-              signatureMap: expected,
+              signatureMap: signatureMapToBase64(
+                signerSignaturesToSignatureMap([
+                  new SignerSignature({
+                    publicKey: PrivateKey.fromStringDer(privateKey).publicKey,
+                    signature: base64StringToUint8Array(expected),
+                    accountId: testUserAccountId,
+                  }),
+                ]),
+              ),
             },
           },
         }
@@ -1,10 +1,13 @@
-import { AccountInfo, AccountInfoQuery } from '@hashgraph/sdk'
+import { AccountInfo, AccountInfoQuery, Hbar, PrivateKey } from '@hashgraph/sdk'
+import { Core } from '@walletconnect/core'
 import {
   HederaChainId,
   SignAndExecuteTransactionResponse,
+  SignQueryAndSendResponse,
   Wallet,
   base64StringToUint8Array,
 } from '../../../src'
+import { FakeProvider } from '../../_fakeProvider'
 import {
   projectId,
   requestId,
@@ -42,5 +45,37 @@ describe(Wallet.name, () => {
 
       expect(respondSessionRequestSpy).toHaveBeenCalledWith(mockResponse)
     }, 15_000)
+
+    it('should execute the query offline with a FakeProvider', async () => {
+      const publicKey = PrivateKey.fromStringDer(testPrivateKeyECDSA).publicKey
+      const wallet = new Wallet({ core: new Core({ projectId }), metadata: walletMetadata })
+      const respondSessionRequestSpy = jest
+        .spyOn(wallet, 'respondSessionRequest')
+        .mockResolvedValue()
+      const provider = new FakeProvider({
+        accounts: [{ accountId: testUserAccountId, balance: 42, key: publicKey }],
+      })
+      const hederaWallet = wallet.getHederaWallet(
+        HederaChainId.Testnet,
+        testUserAccountId,
+        testPrivateKeyECDSA,
+        provider,
+      )
+
+      await wallet.hedera_signQueryAndSend(
+        requestId,
+        requestTopic,
+        new AccountInfoQuery().setAccountId(testUserAccountId),
+        hederaWallet,
+      )
+
+      const [[response]] = respondSessionRequestSpy.mock.calls as [SignQueryAndSendResponse][]
+      const info = AccountInfo.fromBytes(
+        base64StringToUint8Array(response.response.result.response),
+      )
+      expect(info.accountId.toString()).toBe(testUserAccountId.toString())
+      expect(info.balance.toString()).toBe(new Hbar(42).toString())
+      expect(info.key.toString()).toBe(publicKey.toString())
+    })
   })
 })
@@ -1,5 +1,11 @@
 import { TopicCreateTransaction } from '@hashgraph/sdk'
-import { HederaChainId, SignTransactionResponse, Wallet } from '../../../src'
+import {
+  HederaChainId,
+  SignTransactionResponse,
+  Wallet,
+  base64StringToUint8Array,
+  transactionBodyToBase64String,
+} from '../../../src'
 import {
   prepareTestTransaction,
   projectId,
@@ -13,7 +19,36 @@ import {
 
 describe(Wallet.name, () => {
   describe('signTransaction', () => {
-    it('should sign a transaction and return without executing', async () => {
+    it('should sign a transaction body and return the signature map', async () => {
+      const wallet = await Wallet.create(projectId, walletMetadata)
+      const hederaWallet = wallet!.getHederaWallet(
+        HederaChainId.Testnet,
+        testUserAccountId.toString(),
+        testPrivateKeyECDSA,
+      )
+      const transaction = prepareTestTransaction(new TopicCreateTransaction(), { freeze: true })
+      const transactionBody = base64StringToUint8Array(
+        transactionBodyToBase64String(transaction),
+      )
+      const respondSessionRequestSpy = jest.spyOn(wallet, 'respondSessionRequest')
+
+      try {
+        await wallet.hedera_signTransaction(
+          requestId,
+          requestTopic,
+          transactionBody,
+          hederaWallet,
+        )
+      } catch (err) {}
+
+      const mockResponse: SignTransactionResponse = useJsonFixture(
+        'methods/signTransactionBodySuccess',
+      )
+
+      expect(respondSessionRequestSpy).toHaveBeenCalledWith(mockResponse)
+    }, 15_000)
+
+    it('should sign a legacy transaction and return without executing', async () => {
       const wallet = await Wallet.create(projectId, walletMetadata)
       const hederaWallet = wallet!.getHederaWallet(
         HederaChainId.Testnet,
@@ -35,7 +70,7 @@ describe(Wallet.name, () => {
       const mockResponse: SignTransactionResponse = useJsonFixture(
         'methods/signTransactionSuccess',
       )
-      mockResponse.response.result.sort()
+      ;(mockResponse.response.result as string[]).sort()
 
       respondSessionRequestSpy
       expect(respondSessionRequestSpy).toHaveBeenCalledWith(mockResponse)
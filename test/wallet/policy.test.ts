@@ -0,0 +1,328 @@
+import {
+  AccountAllowanceApproveTransaction,
+  AccountCreateTransaction,
+  AccountDeleteTransaction,
+  AccountId,
+  ContractExecuteTransaction,
+  Hbar,
+  PrivateKey,
+  ScheduleCreateTransaction,
+  TokenId,
+  TopicCreateTransaction,
+  Transaction,
+  TransferTransaction,
+} from '@hashgraph/sdk'
+import { Core } from '@walletconnect/core'
+import { SessionTypes } from '@walletconnect/types'
+import { Web3WalletTypes } from '@walletconnect/web3wallet'
+import {
+  ApprovalPolicy,
+  ApprovalPolicyOptions,
+  HederaChainId,
+  HederaJsonRpcMethod,
+  Wallet,
+  messageToBase64String,
+  transactionBodyToBase64String,
+  transactionToBase64String,
+} from '../../src'
+import {
+  prepareTestTransaction,
+  projectId,
+  requestId,
+  requestTopic,
+  testUserAccountId,
+  walletMetadata,
+} from '../_helpers'
+
+describe(ApprovalPolicy.name, () => {
+  const signerAccountId = `${HederaChainId.Testnet}:${testUserAccountId}`
+  const recipientId = AccountId.fromString('0.0.54321')
+  const tokenId = TokenId.fromString('0.0.777')
+  let wallet: Wallet
+
+  const sessionRequest = (
+    method: HederaJsonRpcMethod,
+    params: any,
+    {
+      origin = 'https://dapp.hedera.app',
+      topic = requestTopic,
+      validation = 'VALID',
+      isScam = undefined as boolean | undefined,
+    } = {},
+  ) =>
+    ({
+      id: requestId,
+      topic,
+      params: { request: { method, params }, chainId: HederaChainId.Testnet },
+      verifyContext: { verified: { origin, validation, verifyUrl: '', isScam } },
+    }) as Web3WalletTypes.SessionRequest
+
+  const transfer = (hbar: number, tokens = 0) => {
+    const transaction = new TransferTransaction()
+      .addHbarTransfer(testUserAccountId, new Hbar(-hbar))
+      .addHbarTransfer(recipientId, new Hbar(hbar))
+    if (tokens) {
+      transaction
+        .addTokenTransfer(tokenId, testUserAccountId, -tokens)
+        .addTokenTransfer(tokenId, recipientId, tokens)
+    }
+    return sessionRequest(HederaJsonRpcMethod.SignAndExecuteTransaction, {
+      signerAccountId,
+      transaction: [transactionToBase64String(prepareTestTransaction(transaction))],
+    })
+  }
+
+  const evaluate = (options: ApprovalPolicyOptions, event: Web3WalletTypes.SessionRequest) => {
+    const policy = new ApprovalPolicy(options)
+    return policy.evaluate(policy.buildRequest(event, wallet.parseSessionRequest(event)))
+  }
+
+  beforeEach(() => {
+    wallet = new Wallet({ core: new Core({ projectId }), metadata: walletMetadata })
+  })
+
+  it('should approve every request without rules', () => {
+    expect(evaluate({}, transfer(1_000))).toEqual({ decision: 'approve', reasons: [] })
+  })
+
+  it('should deny requests by method and origin', () => {
+    const event = sessionRequest(HederaJsonRpcMethod.GetNodeAddresses, undefined)
+
+    expect(evaluate({ deniedMethods: [HederaJsonRpcMethod.GetNodeAddresses] }, event)).toEqual({
+      decision: 'deny',
+      reasons: ['Method hedera_getNodeAddresses is denied'],
+    })
+    expect(evaluate({ allowedOrigins: ['https://dapp.hedera.app/path'] }, event).decision).toBe(
+      'approve',
+    )
+    expect(evaluate({ allowedOrigins: ['https://other.app'] }, event)).toEqual({
+      decision: 'deny',
+      reasons: ['Origin https://dapp.hedera.app is not allowed'],
+    })
+    expect(evaluate({ deniedOrigins: ['https://dapp.hedera.app'] }, event).decision).toBe(
+      'deny',
+    )
+  })
+
+  it('should only trust origins validated by the Verify API', () => {
+    const session = { peer: { metadata: { url: 'https://dapp.hedera.app/app' } } }
+    const evaluateWithSession = (
+      options: ApprovalPolicyOptions,
+      event: Web3WalletTypes.SessionRequest,
+    ) => {
+      const policy = new ApprovalPolicy(options)
+      const request = policy.buildRequest(
+        event,
+        wallet.parseSessionRequest(event),
+        session as SessionTypes.Struct,
+      )
+      return { origin: request.origin, ...policy.evaluate(request) }
+    }
+    const allowedOrigins = ['https://dapp.hedera.app']
+    const unverified = sessionRequest(HederaJsonRpcMethod.GetNodeAddresses, undefined, {
+      origin: 'https://evil.app',
+      validation: 'INVALID',
+    })
+    const scam = sessionRequest(HederaJsonRpcMethod.GetNodeAddresses, undefined, {
+      isScam: true,
+    })
+
+    expect(evaluateWithSession({ allowedOrigins }, unverified)).toEqual({
+      origin: undefined,
+      decision: 'deny',
+      reasons: ['Origin unknown is not allowed'],
+    })
+    expect(
+      evaluateWithSession({ allowedOrigins, allowUnverifiedOrigin: true }, unverified),
+    ).toEqual({ origin: 'https://dapp.hedera.app', decision: 'approve', reasons: [] })
+    expect(evaluateWithSession({ allowUnverifiedOrigin: true }, scam)).toEqual({
+      origin: undefined,
+      decision: 'deny',
+      reasons: ['Origin https://dapp.hedera.app is flagged as scam'],
+    })
+  })
+
+  it('should deny transaction types of transactions and HIP-820 transaction bodies', () => {
+    const transaction = prepareTestTransaction(
+      new AccountDeleteTransaction()
+        .setAccountId(testUserAccountId)
+        .setTransferAccountId(recipientId),
+    )
+    const event = sessionRequest(HederaJsonRpcMethod.SignTransaction, {
+      signerAccountId,
+      transactionBody: transactionBodyToBase64String(transaction),
+    })
+
+    expect(evaluate({ deniedTransactionTypes: ['cryptoDelete'] }, event)).toEqual({
+      decision: 'deny',
+      reasons: ['Transaction type cryptoDelete is denied'],
+    })
+    expect(evaluate({ approvedTransactionTypes: ['cryptoTransfer'] }, event).reasons).toEqual([
+      'Transaction type cryptoDelete requires review',
+    ])
+  })
+
+  it('should escalate transfers over the limits and to unknown recipients', () => {
+    const options: ApprovalPolicyOptions = {
+      approvedMethods: [HederaJsonRpcMethod.SignAndExecuteTransaction],
+      maxHbarTransfer: 5,
+      maxTokenTransfer: { [tokenId.toString()]: 100 },
+      allowedRecipients: ['0.0.98'],
+    }
+
+    expect(
+      evaluate({ ...options, allowedRecipients: [recipientId] }, transfer(5, 100)),
+    ).toEqual({
+      decision: 'approve',
+      reasons: [],
+    })
+    expect(evaluate(options, transfer(6, 101))).toEqual({
+      decision: 'escalate',
+      reasons: [
+        'Transaction 0.0.12345@1691705630.325343432 transfers 6 ℏ, more than 5 ℏ',
+        'Transaction 0.0.12345@1691705630.325343432 transfers 101 of token 0.0.777, more than 100',
+        'Recipient 0.0.54321 is not allowed',
+      ],
+    })
+    expect(
+      evaluate(
+        options,
+        sessionRequest(HederaJsonRpcMethod.SignMessage, {
+          signerAccountId,
+          message: messageToBase64String('Hello Hedera'),
+        }),
+      ),
+    ).toEqual({
+      decision: 'escalate',
+      reasons: ['Method hedera_signMessage requires review'],
+    })
+  })
+
+  it('should price contract calls and new accounts and escalate unpriced transactions', () => {
+    const execute = (transaction: Transaction) =>
+      sessionRequest(HederaJsonRpcMethod.SignAndExecuteTransaction, {
+        signerAccountId,
+        transaction: [transactionToBase64String(prepareTestTransaction(transaction))],
+      })
+    const transactionId = '0.0.12345@1691705630.325343432'
+
+    expect(
+      evaluate(
+        { maxHbarTransfer: 5, allowedRecipients: [recipientId] },
+        execute(
+          new ContractExecuteTransaction()
+            .setContractId('0.0.999')
+            .setGas(100_000)
+            .setPayableAmount(6),
+        ),
+      ).reasons,
+    ).toEqual([
+      `Transaction ${transactionId} transfers 6 ℏ, more than 5 ℏ`,
+      'Recipient 0.0.999 is not allowed',
+    ])
+    expect(
+      evaluate(
+        { maxHbarTransfer: 5 },
+        execute(
+          new AccountCreateTransaction()
+            .setKey(PrivateKey.generateED25519().publicKey)
+            .setInitialBalance(6),
+        ),
+      ).reasons,
+    ).toEqual([`Transaction ${transactionId} transfers 6 ℏ, more than 5 ℏ`])
+
+    const allowance = execute(
+      new AccountAllowanceApproveTransaction().approveHbarAllowance(
+        testUserAccountId,
+        recipientId,
+        1_000,
+      ),
+    )
+    const scheduled = execute(
+      new ScheduleCreateTransaction().setScheduledTransaction(
+        new TransferTransaction()
+          .addHbarTransfer(testUserAccountId, new Hbar(-1_000))
+          .addHbarTransfer(recipientId, new Hbar(1_000)),
+      ),
+    )
+    expect(evaluate({ sessionSpendLimit: 5 }, allowance).reasons).toEqual([
+      `Transaction ${transactionId} of type cryptoApproveAllowance can't be priced`,
+    ])
+    expect(evaluate({ maxHbarTransfer: 5 }, scheduled).reasons).toEqual([
+      `Transaction ${transactionId} of type scheduleCreate can't be priced`,
+    ])
+    expect(evaluate({}, scheduled).decision).toBe('approve')
+  })
+
+  it('should approve escalated requests confirmed by onEscalate', async () => {
+    const onEscalate = jest.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+    const policy = new ApprovalPolicy({ maxHbarTransfer: 5, onEscalate })
+    const event = transfer(6)
+    const request = policy.buildRequest(event, wallet.parseSessionRequest(event))
+
+    expect(await policy.review(request)).toEqual({ decision: 'approve', reasons: [] })
+    expect(await policy.review(request)).toEqual({
+      decision: 'deny',
+      reasons: ['Transaction 0.0.12345@1691705630.325343432 transfers 6 ℏ, more than 5 ℏ'],
+    })
+    expect(onEscalate).toHaveBeenCalledWith(request, [
+      'Transaction 0.0.12345@1691705630.325343432 transfers 6 ℏ, more than 5 ℏ',
+    ])
+  })
+
+  it('should limit the hbar spent by the approved requests of a session', async () => {
+    const policy = new ApprovalPolicy({ sessionSpendLimit: new Hbar(5) })
+    const review = (event: Web3WalletTypes.SessionRequest) =>
+      policy.review(policy.buildRequest(event, wallet.parseSessionRequest(event)))
+
+    expect((await review(transfer(3))).decision).toBe('approve')
+    expect(await review(transfer(3))).toEqual({
+      decision: 'deny',
+      reasons: ['Session spend of 6 ℏ exceeds 5 ℏ'],
+    })
+    expect(policy.getSessionSpend(requestTopic).toString()).toBe('3 ℏ')
+
+    policy.resetSessionSpend(requestTopic)
+
+    expect((await review(transfer(3))).decision).toBe('approve')
+  })
+
+  describe('Wallet.executeSessionRequest', () => {
+    const event = sessionRequest(HederaJsonRpcMethod.SignAndExecuteTransaction, {
+      signerAccountId,
+      transaction: [
+        transactionToBase64String(prepareTestTransaction(new TopicCreateTransaction())),
+      ],
+    })
+    let method: jest.SpyInstance
+
+    beforeEach(() => {
+      jest
+        .spyOn(wallet, 'getActiveSessions')
+        .mockReturnValue({ [requestTopic]: {} as SessionTypes.Struct })
+      method = jest.spyOn(wallet, 'hedera_signAndExecuteTransaction').mockResolvedValue()
+    })
+
+    it('should reject requests denied by the approval policy', async () => {
+      wallet.approvalPolicy = new ApprovalPolicy({
+        deniedTransactionTypes: ['consensusCreateTopic'],
+      })
+
+      await expect(wallet.executeSessionRequest(event, {} as any)).rejects.toEqual({
+        code: -2,
+        message: 'USER_REJECTED Transaction type consensusCreateTopic is denied',
+      })
+      expect(method).not.toHaveBeenCalled()
+    })
+
+    it('should execute requests approved by the approval policy', async () => {
+      wallet.approvalPolicy = new ApprovalPolicy({
+        approvedTransactionTypes: ['consensusCreateTopic'],
+      })
+
+      await wallet.executeSessionRequest(event, {} as any)
+
+      expect(method).toHaveBeenCalledTimes(1)
+    })
+  })
+})
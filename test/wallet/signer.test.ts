@@ -0,0 +1,197 @@
+import {
+  AccountId,
+  Hbar,
+  PrivateKey,
+  Status,
+  TopicCreateTransaction,
+  TransferTransaction,
+} from '@hashgraph/sdk'
+import { Core } from '@walletconnect/core'
+import {
+  ExternalSigner,
+  HederaChainId,
+  HttpSigningBackend,
+  SigningBackend,
+  Wallet,
+  base64StringToMessage,
+  base64StringToSignatureMap,
+  messageToBase64String,
+  signatureMapToBase64,
+  verifyMessageSignature,
+} from '../../src'
+import { FakeProvider } from '../_fakeProvider'
+import {
+  prepareTestTransaction,
+  projectId,
+  requestId,
+  requestTopic,
+  testNodeAccountId,
+  testPrivateKeyECDSA,
+  testPrivateKeyED25519,
+  testTransactionId,
+  testUserAccountId,
+  walletMetadata,
+} from '../_helpers'
+
+describe(ExternalSigner.name, () => {
+  const privateKey = PrivateKey.fromStringDer(testPrivateKeyED25519)
+  const otherPrivateKey = PrivateKey.fromStringDer(testPrivateKeyECDSA)
+
+  // stands in for a custody service, the keys never reach the signer
+  const backendOf = (...privateKeys: PrivateKey[]) => ({
+    sign: jest.fn<ReturnType<SigningBackend['sign']>, Parameters<SigningBackend['sign']>>(
+      async (bodyBytes) => ({
+        sigPair: privateKeys.map((key) =>
+          key.publicKey._toProtobufSignature(key.sign(bodyBytes)),
+        ),
+      }),
+    ),
+  })
+
+  describe('with a FakeProvider', () => {
+    let wallet: Wallet
+    let provider: FakeProvider
+
+    beforeEach(() => {
+      wallet = new Wallet({ core: new Core({ projectId }), metadata: walletMetadata })
+      jest.spyOn(wallet, 'respondSessionRequest').mockResolvedValue()
+      provider = new FakeProvider({
+        accounts: [
+          { accountId: testUserAccountId, balance: 1, key: privateKey.publicKey },
+          { accountId: testNodeAccountId },
+        ],
+      })
+    })
+
+    it('should sign and execute transactions with the backend', async () => {
+      const backend = backendOf(privateKey)
+      const signer = wallet.getExternalSigner(
+        HederaChainId.Testnet,
+        testUserAccountId,
+        privateKey.publicKey,
+        backend,
+        provider,
+      )
+      const transaction = prepareTestTransaction(
+        new TransferTransaction()
+          .addHbarTransfer(testUserAccountId, new Hbar(-0.5))
+          .addHbarTransfer(testNodeAccountId, new Hbar(0.5)),
+        { freeze: true },
+      )
+
+      await wallet.hedera_signAndExecuteTransaction(
+        requestId,
+        requestTopic,
+        [transaction],
+        signer,
+      )
+
+      expect(backend.sign).toHaveBeenCalledWith(
+        transaction._signedTransactions.get(0).bodyBytes,
+        testUserAccountId,
+      )
+      expect(privateKey.publicKey.verifyTransaction(transaction)).toBe(true)
+      expect(wallet.respondSessionRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          response: expect.objectContaining({
+            result: [expect.objectContaining({ precheckCode: 0, status: 'submitted' })],
+          }),
+        }),
+      )
+      expect((await provider.getTransactionReceipt(testTransactionId)).status).toBe(
+        Status.Success,
+      )
+    })
+
+    it('should sign messages with the backend', async () => {
+      const signer = wallet.getExternalSigner(
+        HederaChainId.Testnet,
+        testUserAccountId,
+        privateKey.publicKey,
+        backendOf(privateKey),
+        provider,
+      )
+
+      await wallet.hedera_signMessage(
+        requestId,
+        requestTopic,
+        base64StringToMessage(messageToBase64String('Hello Hedera')),
+        signer,
+      )
+
+      const { signatureMap } = (wallet.respondSessionRequest as jest.Mock).mock.calls[0][0]
+        .response.result
+      expect(verifyMessageSignature('Hello Hedera', signatureMap, privateKey.publicKey)).toBe(
+        true,
+      )
+    })
+  })
+
+  it('should sign the body of every node with all keys of the backend', async () => {
+    const backend = backendOf(privateKey, otherPrivateKey)
+    const signer = new ExternalSigner(testUserAccountId, privateKey.publicKey, backend)
+    const transaction = prepareTestTransaction(new TopicCreateTransaction(), {
+      setNodeAccountIds: false,
+    })
+      .setNodeAccountIds([testNodeAccountId, new AccountId(4)])
+      .freeze()
+
+    await signer.signTransaction(transaction)
+
+    expect(backend.sign).toHaveBeenCalledTimes(2)
+    expect(privateKey.publicKey.verifyTransaction(transaction)).toBe(true)
+    expect(otherPrivateKey.publicKey.verifyTransaction(transaction)).toBe(true)
+  })
+
+  it('should reject signatures without the key of the signer', async () => {
+    const signer = new ExternalSigner(
+      testUserAccountId,
+      privateKey.publicKey,
+      backendOf(otherPrivateKey),
+    )
+
+    await expect(signer.signer(new Uint8Array([1, 2, 3]))).rejects.toThrow(
+      `Signing backend did not sign with the key ${privateKey.publicKey.toStringDer()}`,
+    )
+    await expect(signer.signTransaction(new TopicCreateTransaction())).rejects.toThrow(
+      'Transaction must be frozen to be signed',
+    )
+  })
+
+  describe(HttpSigningBackend.name, () => {
+    const bodyBytes = new Uint8Array([1, 2, 3])
+    const signatureMap = {
+      sigPair: [privateKey.publicKey._toProtobufSignature(privateKey.sign(bodyBytes))],
+    }
+
+    it('should post the bytes to sign and decode the signature map', async () => {
+      const fetchMock = jest
+        .spyOn(global, 'fetch')
+        .mockResolvedValue(
+          new Response(JSON.stringify({ signatureMap: signatureMapToBase64(signatureMap) })),
+        )
+      const backend = new HttpSigningBackend('http://localhost:8082', {
+        Authorization: 'Bearer token',
+      })
+
+      const result = await backend.sign(bodyBytes, testUserAccountId)
+
+      expect(result).toEqual(base64StringToSignatureMap(signatureMapToBase64(signatureMap)))
+      expect(fetchMock).toHaveBeenCalledWith('http://localhost:8082', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer token', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bodyBytes: 'AQID', accountId: '0.0.12345' }),
+      })
+    })
+
+    it('should throw when the endpoint does not sign', async () => {
+      jest
+        .spyOn(global, 'fetch')
+        .mockResolvedValue(new Response('No key', { status: 404, statusText: 'Not Found' }))
+
+      await expect(
+        new HttpSigningBackend('http://localhost:8082').sign(bodyBytes, testUserAccountId),
+      ).rejects.toThrow('Signing backend responded with 404 Not Found')
+    })
+  })
+})
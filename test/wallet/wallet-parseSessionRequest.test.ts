@@ -0,0 +1,281 @@
+import {
+  AccountInfoQuery,
+  PrecheckStatusError,
+  Status,
+  TopicCreateTransaction,
+} from '@hashgraph/sdk'
+import { SessionTypes } from '@walletconnect/types'
+import { Core } from '@walletconnect/core'
+import { Web3WalletTypes } from '@walletconnect/web3wallet'
+import {
+  HederaChainId,
+  HederaExecutionMode,
+  HederaJsonRpcMethod,
+  ParsedHederaSessionRequest,
+  Wallet,
+  messageToBase64String,
+  queryToBase64String,
+  transactionBodyToBase64String,
+  transactionToBase64String,
+} from '../../src'
+import {
+  prepareTestTransaction,
+  projectId,
+  requestId,
+  requestTopic,
+  testTransactionId,
+  testUserAccountId,
+  walletMetadata,
+} from '../_helpers'
+
+describe(Wallet.name, () => {
+  const signerAccountId = `${HederaChainId.Testnet}:${testUserAccountId}`
+  let wallet: Wallet
+
+  const sessionRequest = (method: string, params: any) =>
+    ({
+      id: requestId,
+      topic: requestTopic,
+      params: { request: { method, params }, chainId: HederaChainId.Testnet },
+    }) as Web3WalletTypes.SessionRequest
+
+  beforeEach(() => {
+    wallet = new Wallet({ core: new Core({ projectId }), metadata: walletMetadata })
+  })
+
+  describe('parseSessionRequest', () => {
+    it('should narrow the body and account ID by method', () => {
+      const params = { signerAccountId, message: messageToBase64String('Hello Hedera') }
+
+      const request = wallet.parseSessionRequest(
+        sessionRequest(HederaJsonRpcMethod.SignMessage, params),
+      )
+
+      expect(request.method).toBe(HederaJsonRpcMethod.SignMessage)
+      if (request.method !== HederaJsonRpcMethod.SignMessage) return
+      const body: Uint8Array[] = request.body
+      expect(Buffer.from(body[0]).toString()).toBe('\x19Hedera Signed Message:\n12Hello Hedera')
+      expect(request.accountId.toString()).toBe(testUserAccountId.toString())
+      expect(request.params).toBe(params)
+      expect(request).toMatchObject({
+        chainId: HederaChainId.Testnet,
+        id: requestId,
+        topic: requestTopic,
+      })
+    })
+
+    it('should parse the params of every method', () => {
+      const transaction = transactionToBase64String(
+        prepareTestTransaction(new TopicCreateTransaction()),
+      )
+      const requests: [string, any][] = [
+        [HederaJsonRpcMethod.GetNodeAddresses, undefined],
+        [HederaJsonRpcMethod.ExecuteTransaction, { signedTransaction: [transaction] }],
+        [
+          HederaJsonRpcMethod.SignQueryAndSend,
+          {
+            signerAccountId,
+            query: queryToBase64String(new AccountInfoQuery().setAccountId(testUserAccountId)),
+          },
+        ],
+        [
+          HederaJsonRpcMethod.SignAndExecuteTransaction,
+          { signerAccountId, transaction: [transaction] },
+        ],
+        [
+          HederaJsonRpcMethod.SignTransaction,
+          {
+            signerAccountId,
+            transactionBody: transactionBodyToBase64String(
+              prepareTestTransaction(new TopicCreateTransaction()),
+            ),
+          },
+        ],
+      ]
+
+      const parsed = requests.map(([method, params]) =>
+        wallet.parseSessionRequest(sessionRequest(method, params)),
+      )
+
+      expect(
+        parsed.map(({ method, body, accountId }: ParsedHederaSessionRequest) => [
+          method,
+          body?.constructor.name,
+          accountId?.toString(),
+        ]),
+      ).toEqual([
+        [HederaJsonRpcMethod.GetNodeAddresses, undefined, undefined],
+        [HederaJsonRpcMethod.ExecuteTransaction, 'Array', undefined],
+        [HederaJsonRpcMethod.SignQueryAndSend, 'AccountInfoQuery', '0.0.12345'],
+        [HederaJsonRpcMethod.SignAndExecuteTransaction, 'Array', '0.0.12345'],
+        [HederaJsonRpcMethod.SignTransaction, 'Uint8Array', '0.0.12345'],
+      ])
+    })
+
+    it('should reject invalid params with the path of the invalid value', () => {
+      const transaction = transactionToBase64String(
+        prepareTestTransaction(new TopicCreateTransaction()),
+      )
+      const requests: [string, any, string][] = [
+        [
+          HederaJsonRpcMethod.GetNodeAddresses,
+          { nodes: [] },
+          'Invalid value for params, expected no value but got object',
+        ],
+        [
+          HederaJsonRpcMethod.ExecuteTransaction,
+          { signedTransaction: [] },
+          'Invalid value for params.signedTransaction, expected non-empty array but got empty array',
+        ],
+        [
+          HederaJsonRpcMethod.SignMessage,
+          { signerAccountId: '0.0.abc', message: messageToBase64String('Hello Hedera') },
+          'Invalid value for params.signerAccountId, expected account ID but got "0.0.abc"',
+        ],
+        [
+          HederaJsonRpcMethod.SignAndExecuteTransaction,
+          { signerAccountId, transaction: [transaction, 'not base64!'] },
+          'Invalid value for params.transaction[1], expected base64 string but got "not base64!"',
+        ],
+        [
+          HederaJsonRpcMethod.SignTransaction,
+          { signerAccountId, transaction: [1] },
+          'Invalid value for params.transaction[0], expected base64 string but got number',
+        ],
+        [
+          HederaJsonRpcMethod.ExecuteTransaction,
+          { signedTransaction: [transaction], executionMode: 'atomic' },
+          'Invalid value for params.executionMode, expected one of "parallel", "sequential", ' +
+            '"sequentialStopOnFailure" but got "atomic"',
+        ],
+      ]
+
+      requests.forEach(([method, params, message]) =>
+        expect(() => wallet.parseSessionRequest(sessionRequest(method, params))).toThrow(
+          expect.objectContaining({ code: -1, message: `INVALID_PARAMS ${message}` }),
+        ),
+      )
+    })
+
+    it('should only return the id and topic of an invalid request without throwing', () => {
+      const event = sessionRequest(HederaJsonRpcMethod.SignMessage, { signerAccountId })
+
+      expect(() => wallet.parseSessionRequest(event)).toThrow()
+      expect(wallet.parseSessionRequest(event, false)).toEqual({
+        method: HederaJsonRpcMethod.SignMessage,
+        chainId: HederaChainId.Testnet,
+        id: requestId,
+        topic: requestTopic,
+      })
+    })
+  })
+
+  describe('executeSessionRequest', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(wallet, 'getActiveSessions')
+        .mockReturnValue({ [requestTopic]: {} as SessionTypes.Struct })
+    })
+
+    it('should call the handler of the method with the parsed body', async () => {
+      const handler = jest.spyOn(wallet, 'hedera_signMessage').mockResolvedValue()
+      const signer = {} as Parameters<Wallet['executeSessionRequest']>[1]
+
+      await wallet.executeSessionRequest(
+        sessionRequest(HederaJsonRpcMethod.SignMessage, {
+          signerAccountId,
+          message: messageToBase64String('Hello Hedera'),
+        }),
+        signer,
+      )
+
+      expect(handler).toHaveBeenCalledWith(
+        requestId,
+        requestTopic,
+        [Buffer.from('\x19Hedera Signed Message:\n12Hello Hedera')],
+        signer,
+        undefined,
+      )
+    })
+
+    it('should pass the execution options to the handlers which execute transactions', async () => {
+      const handler = jest.spyOn(wallet, 'hedera_signAndExecuteTransaction').mockResolvedValue()
+      const signer = {} as Parameters<Wallet['executeSessionRequest']>[1]
+      const transaction = transactionToBase64String(
+        prepareTestTransaction(new TopicCreateTransaction()),
+      )
+
+      await wallet.executeSessionRequest(
+        sessionRequest(HederaJsonRpcMethod.SignAndExecuteTransaction, {
+          signerAccountId,
+          transaction: [transaction],
+          executionMode: HederaExecutionMode.SequentialStopOnFailure,
+        }),
+        signer,
+      )
+      await wallet.executeSessionRequest(
+        sessionRequest(HederaJsonRpcMethod.SignAndExecuteTransaction, {
+          signerAccountId,
+          transaction: [transaction],
+        }),
+        signer,
+      )
+
+      expect(handler.mock.calls.map((call) => call[4])).toEqual([
+        { executionMode: HederaExecutionMode.SequentialStopOnFailure, waitForReceipt: false },
+        { executionMode: HederaExecutionMode.Parallel, waitForReceipt: false },
+      ])
+    })
+
+    it('should reject requests of expired sessions and of signers on another chain', async () => {
+      const signer = {} as Parameters<Wallet['executeSessionRequest']>[1]
+      const params = { signerAccountId, message: messageToBase64String('Hello Hedera') }
+
+      await expect(
+        wallet.executeSessionRequest(
+          { ...sessionRequest(HederaJsonRpcMethod.SignMessage, params), topic: 'expired' },
+          signer,
+        ),
+      ).rejects.toEqual({ code: -9, message: 'SESSION_EXPIRED No active session expired' })
+      await expect(
+        wallet.executeSessionRequest(
+          sessionRequest(HederaJsonRpcMethod.SignMessage, {
+            ...params,
+            signerAccountId: `${HederaChainId.Mainnet}:${testUserAccountId}`,
+          }),
+          signer,
+        ),
+      ).rejects.toEqual({
+        code: -5,
+        message: `CHAIN_MISMATCH Signer ${HederaChainId.Mainnet}:${testUserAccountId} is not on chain ${HederaChainId.Testnet}`,
+      })
+    })
+
+    it('should reject failed queries with the error of their status', async () => {
+      jest.spyOn(wallet, 'hedera_signQueryAndSend').mockRejectedValue(
+        new PrecheckStatusError({
+          status: Status.TransactionExpired,
+          transactionId: testTransactionId,
+          contractFunctionResult: null,
+        }),
+      )
+
+      await expect(
+        wallet.executeSessionRequest(
+          sessionRequest(HederaJsonRpcMethod.SignQueryAndSend, {
+            signerAccountId,
+            query: queryToBase64String(new AccountInfoQuery().setAccountId(testUserAccountId)),
+          }),
+          {} as Parameters<Wallet['executeSessionRequest']>[1],
+        ),
+      ).rejects.toEqual({
+        code: -8,
+        message: 'TRANSACTION_EXPIRED TRANSACTION_EXPIRED',
+        data: {
+          status: Status.TransactionExpired._code,
+          transactionId: testTransactionId.toString(),
+        },
+      })
+    })
+  })
+})